@@ -13,6 +13,8 @@ import Settings from './pages/Settings';
 import Landing from './pages/Landing';
 import { ModelProvider } from './components/ModelProvider';
 import Profile from './pages/Profile';
+import Projects from './pages/Projects';
+import ProjectDetail from './pages/ProjectDetail';
 
 function App() {
   const { setUser, setLoading } = useStore();
@@ -64,6 +66,16 @@ function App() {
               <Layout><DataGenerator /></Layout>
             </ProtectedRoute>
           } />
+          <Route path="/projects" element={
+            <ProtectedRoute>
+              <Layout><Projects /></Layout>
+            </ProtectedRoute>
+          } />
+          <Route path="/projects/:id" element={
+            <ProtectedRoute>
+              <Layout><ProjectDetail /></Layout>
+            </ProtectedRoute>
+          } />
           <Route path="/analytics" element={
             <ProtectedRoute>
               <Layout><Analytics /></Layout>
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { hasChanges, PRIMARY_TABLE, type DatasetDiff } from '../lib/datasetDiff';
+
+interface DatasetDiffViewProps {
+  diff: DatasetDiff;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+// Only this many rows of each kind are listed; the counts always cover everything
+const ROW_LIMIT = 50;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '∅';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const rowPreview = (row: Record<string, unknown>) =>
+  Object.entries(row).slice(0, 6).map(([column, value]) => `${column}: ${formatValue(value)}`).join(', ');
+
+/**
+ * Row- and column-level changes between two dataset versions, one table at a
+ * time for multi-table datasets.
+ */
+const DatasetDiffView: React.FC<DatasetDiffViewProps> = ({ diff, beforeLabel, afterLabel }) => {
+  const tableNames = Object.keys(diff.tables);
+  const [selectedTable, setSelectedTable] = useState(tableNames[0] ?? PRIMARY_TABLE);
+  const table = diff.tables[selectedTable] ?? diff.tables[tableNames[0]];
+
+  const stats = table ? [
+    { label: 'Rows added', value: table.addedRows.length, color: 'text-green-400' },
+    { label: 'Rows removed', value: table.removedRows.length, color: 'text-red-400' },
+    { label: 'Rows changed', value: table.changedRows.length, color: 'text-yellow-400' },
+    { label: 'Rows unchanged', value: table.unchangedRows, color: 'text-gray-300' }
+  ] : [];
+  const changedColumns = table
+    ? Object.entries(table.changedCellsByColumn).sort((a, b) => b[1] - a[1])
+    : [];
+  const maxChanged = Math.max(1, ...changedColumns.map(([, count]) => count));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-gray-400">
+          Changes from <span className="text-white font-medium">{beforeLabel}</span> to{' '}
+          <span className="text-white font-medium">{afterLabel}</span>
+          {table && (
+            <> · rows matched {table.keyColumn ? <>on <span className="font-mono">{table.keyColumn}</span></> : 'by position'}</>
+          )}
+        </p>
+        {tableNames.length > 1 && (
+          <select
+            value={selectedTable}
+            onChange={(e) => setSelectedTable(e.target.value)}
+            className="px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {tableNames.map(name => (
+              <option key={name} value={name}>{name}{hasChanges(diff.tables[name]) ? ' •' : ''}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {(diff.addedTables.length > 0 || diff.removedTables.length > 0) && (
+        <div className="text-sm space-y-1">
+          {diff.addedTables.length > 0 && <p className="text-green-400">Tables added: {diff.addedTables.join(', ')}</p>}
+          {diff.removedTables.length > 0 && <p className="text-red-400">Tables removed: {diff.removedTables.join(', ')}</p>}
+        </div>
+      )}
+
+      {!table ? (
+        <p className="text-gray-400 text-sm">The versions have no tables in common.</p>
+      ) : !hasChanges(table) ? (
+        <p className="text-gray-400 text-sm">No differences{tableNames.length > 1 ? ' in this table' : ''}.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-3 bg-gray-700/30 rounded-lg">
+                <p className={`text-xl font-semibold ${stat.color}`}>{stat.value.toLocaleString()}</p>
+                <p className="text-xs text-gray-400">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          {(table.addedColumns.length > 0 || table.removedColumns.length > 0 || table.retypedColumns.length > 0) && (
+            <div className="text-sm space-y-1">
+              {table.addedColumns.length > 0 && <p className="text-green-400">Columns added: {table.addedColumns.join(', ')}</p>}
+              {table.removedColumns.length > 0 && <p className="text-red-400">Columns removed: {table.removedColumns.join(', ')}</p>}
+              {table.retypedColumns.map(change => (
+                <p key={change.column} className="text-yellow-400">
+                  {change.column}: {change.before} → {change.after}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {changedColumns.length > 0 && (
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Changed cells per column</p>
+              <div className="space-y-1">
+                {changedColumns.map(([column, count]) => (
+                  <div key={column} className="flex items-center gap-3 text-sm">
+                    <span className="w-40 truncate text-gray-300 font-mono">{column}</span>
+                    <div className="flex-1 bg-gray-700 rounded-full h-2">
+                      <div className="bg-yellow-400/70 h-2 rounded-full" style={{ width: `${(count / maxChanged) * 100}%` }} />
+                    </div>
+                    <span className="w-16 text-right text-gray-400">{count.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {table.changedRows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700/50">
+                    <th className="py-2 pr-4 font-medium">Row</th>
+                    <th className="py-2 pr-4 font-medium">Column</th>
+                    <th className="py-2 pr-4 font-medium">Before</th>
+                    <th className="py-2 font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.changedRows.slice(0, ROW_LIMIT).flatMap(row =>
+                    row.changes.map((change, index) => (
+                      <tr key={`${row.key}:${change.column}`} className="border-b border-gray-700/30">
+                        <td className="py-1 pr-4 text-gray-400 font-mono">{index === 0 ? row.key : ''}</td>
+                        <td className="py-1 pr-4 text-gray-300 font-mono">{change.column}</td>
+                        <td className="py-1 pr-4 text-red-300 break-all">{formatValue(change.before)}</td>
+                        <td className="py-1 text-green-300 break-all">{formatValue(change.after)}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+              {table.changedRows.length > ROW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-2">
+                  Showing {ROW_LIMIT} of {table.changedRows.length.toLocaleString()} changed rows
+                </p>
+              )}
+            </div>
+          )}
+
+          {[
+            { label: 'Added rows', rows: table.addedRows, color: 'text-green-300', sign: '+' },
+            { label: 'Removed rows', rows: table.removedRows, color: 'text-red-300', sign: '−' }
+          ].filter(group => group.rows.length > 0).map(group => (
+            <div key={group.label}>
+              <p className="text-xs text-gray-400 mb-1">{group.label}</p>
+              <div className="space-y-0.5 font-mono text-xs">
+                {group.rows.slice(0, ROW_LIMIT).map(({ key, row }) => (
+                  <p key={key} className={`${group.color} truncate`}>
+                    {group.sign} {key}: {rowPreview(row)}
+                  </p>
+                ))}
+              </div>
+              {group.rows.length > ROW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Showing {ROW_LIMIT} of {group.rows.length.toLocaleString()} {group.label.toLowerCase()}
+                </p>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DatasetDiffView;
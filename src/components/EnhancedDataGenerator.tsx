@@ -14,6 +14,9 @@ import {
 } from 'lucide-react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { parseUploadFile } from '../lib/fileParser';
+import { COLUMNAR_MIME_TYPES, writeArrow, writeParquet } from '../lib/columnarFormats';
+import { downloadBlob } from '../lib/utils';
 import { toast } from 'sonner';
 import { ApiService } from '../lib/api';
 import AIProcessLogger from './AIProcessLogger';
@@ -81,54 +84,9 @@ const EnhancedDataGenerator: React.FC = () => {
     }
   }, [lastMessage]);
 
-  const parseFile = useCallback((file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      const extension = file.name.split('.').pop()?.toLowerCase();
-      
-      if (extension === 'csv') {
-        Papa.parse(file, {
-          header: true,
-          complete: (results) => {
-            if (results.errors.length > 0) {
-              reject(new Error(`CSV parsing error: ${results.errors[0].message}`));
-            } else {
-              resolve(results.data.filter((row: any) => Object.values(row).some(val => val !== '')));
-            }
-          },
-          error: (error) => reject(error)
-        });
-      } else if (extension === 'xlsx' || extension === 'xls') {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const data = e.target?.result;
-            const workbook = XLSX.read(data, { type: 'binary' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const jsonData = XLSX.utils.sheet_to_json(worksheet);
-            resolve(jsonData.filter((row: any) => Object.values(row).some(val => val !== null && val !== '')));
-          } catch (error) {
-            reject(error);
-          }
-        };
-        reader.onerror = () => reject(new Error('Failed to read Excel file'));
-        reader.readAsBinaryString(file);
-      } else if (extension === 'json') {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const jsonData = JSON.parse(e.target?.result as string);
-            resolve(Array.isArray(jsonData) ? jsonData : [jsonData]);
-          } catch (error) {
-            reject(new Error('Invalid JSON format'));
-          }
-        };
-        reader.onerror = () => reject(new Error('Failed to read JSON file'));
-        reader.readAsText(file);
-      } else {
-        reject(new Error('Unsupported file format. Please use CSV, Excel, or JSON files.'));
-      }
-    });
+  const parseFile = useCallback(async (file: File): Promise<any[]> => {
+    const parsed = await parseUploadFile(file);
+    return parsed.tables[0].rows.filter(row => Object.values(row).some(val => val !== null && val !== ''));
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -149,6 +107,7 @@ const EnhancedDataGenerator: React.FC = () => {
       'text/csv': ['.csv'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
       'application/json': ['.json']
     },
     multiple: false
@@ -218,7 +177,7 @@ const EnhancedDataGenerator: React.FC = () => {
     }
   };
 
-  const downloadData = (format: 'csv' | 'json' | 'xlsx') => {
+  const downloadData = (format: 'csv' | 'json' | 'xlsx' | 'parquet' | 'arrow') => {
     if (!generatedData?.data) return;
 
     const data = generatedData.data;
@@ -243,18 +202,19 @@ const EnhancedDataGenerator: React.FC = () => {
         blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
         filename = `synthetic_data_${Date.now()}.xlsx`;
         break;
+      case 'parquet':
+        blob = new Blob([writeParquet(data)], { type: COLUMNAR_MIME_TYPES.parquet });
+        filename = `synthetic_data_${Date.now()}.parquet`;
+        break;
+      case 'arrow':
+        blob = new Blob([writeArrow(data)], { type: COLUMNAR_MIME_TYPES.arrow });
+        filename = `synthetic_data_${Date.now()}.arrow`;
+        break;
       default:
         return;
     }
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
   };
 
   return (
@@ -533,6 +493,18 @@ const EnhancedDataGenerator: React.FC = () => {
                 >
                   Download JSON
                 </button>
+                <button
+                  onClick={() => downloadData('parquet')}
+                  className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                >
+                  Parquet
+                </button>
+                <button
+                  onClick={() => downloadData('arrow')}
+                  className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+                >
+                  Arrow
+                </button>
               </div>
             </div>
 
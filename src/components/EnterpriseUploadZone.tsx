@@ -16,8 +16,7 @@ import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Separator } from './ui/separator';
 import { toast } from 'sonner';
-import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
+import { fileExtension, parseUploadFile } from '../lib/fileParser';
 
 interface EnterpriseUploadZoneProps {
   onFileUpload: (data: any[], metadata: any) => void;
@@ -40,93 +39,28 @@ const EnterpriseUploadZone: React.FC<EnterpriseUploadZoneProps> = ({
   const [processingStatus, setProcessingStatus] = useState<'idle' | 'parsing' | 'analyzing' | 'complete'>('idle');
 
   const parseFile = useCallback(async (file: File): Promise<{ data: any[], metadata: any }> => {
-    return new Promise((resolve, reject) => {
-      const extension = file.name.split('.').pop()?.toLowerCase();
-      
-      const metadata = {
-        filename: file.name,
-        size: file.size,
-        type: extension,
-        uploadedAt: new Date().toISOString()
-      };
+    const metadata = {
+      filename: file.name,
+      size: file.size,
+      type: fileExtension(file),
+      uploadedAt: new Date().toISOString()
+    };
 
-      if (extension === 'csv') {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            if (results.errors.length > 0) {
-              reject(new Error(`CSV parsing error: ${results.errors[0].message}`));
-            } else {
-              const cleanData = results.data.filter((row: any) => 
-                Object.values(row).some(val => val !== '' && val !== null && val !== undefined)
-              );
-              resolve({ 
-                data: cleanData, 
-                metadata: { 
-                  ...metadata, 
-                  columns: Object.keys(cleanData[0] || {}),
-                  rows: cleanData.length,
-                  detectedTypes: analyzeDataTypes(cleanData)
-                }
-              });
-            }
-          },
-          error: (error) => reject(error)
-        });
-      } else if (extension === 'xlsx' || extension === 'xls') {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const data = e.target?.result;
-            const workbook = XLSX.read(data, { type: 'binary' });
-            const sheetName = workbook.SheetNames[0];
-            const worksheet = workbook.Sheets[sheetName];
-            const jsonData = XLSX.utils.sheet_to_json(worksheet);
-            const cleanData = jsonData.filter((row: any) => 
-              Object.values(row).some(val => val !== null && val !== '' && val !== undefined)
-            );
-            resolve({ 
-              data: cleanData, 
-              metadata: { 
-                ...metadata, 
-                sheetName,
-                columns: Object.keys(cleanData[0] || {}),
-                rows: cleanData.length,
-                detectedTypes: analyzeDataTypes(cleanData)
-              }
-            });
-          } catch (error) {
-            reject(error);
-          }
-        };
-        reader.onerror = () => reject(new Error('Failed to read Excel file'));
-        reader.readAsBinaryString(file);
-      } else if (extension === 'json') {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          try {
-            const jsonData = JSON.parse(e.target?.result as string);
-            const dataArray = Array.isArray(jsonData) ? jsonData : [jsonData];
-            resolve({ 
-              data: dataArray, 
-              metadata: { 
-                ...metadata,
-                columns: Object.keys(dataArray[0] || {}),
-                rows: dataArray.length,
-                detectedTypes: analyzeDataTypes(dataArray)
-              }
-            });
-          } catch (error) {
-            reject(new Error('Invalid JSON format'));
-          }
-        };
-        reader.onerror = () => reject(new Error('Failed to read JSON file'));
-        reader.readAsText(file);
-      } else {
-        reject(new Error('Unsupported file format. Please use CSV, Excel, or JSON files.'));
+    const parsed = await parseUploadFile(file);
+    const table = parsed.tables[0];
+    const cleanData = table.rows.filter(row =>
+      Object.values(row).some(val => val !== '' && val !== null && val !== undefined)
+    );
+    return {
+      data: cleanData,
+      metadata: {
+        ...metadata,
+        sheetName: parsed.sheets?.[0]?.name,
+        columns: table.headers,
+        rows: cleanData.length,
+        detectedTypes: analyzeDataTypes(cleanData)
       }
-    });
+    };
   }, []);
 
   const analyzeDataTypes = (data: any[]) => {
@@ -184,6 +118,7 @@ const EnterpriseUploadZone: React.FC<EnterpriseUploadZoneProps> = ({
       'text/csv': ['.csv'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
       'application/json': ['.json']
     },
     multiple: false,
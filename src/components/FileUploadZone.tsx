@@ -5,8 +5,7 @@ import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Upload, FileText, File, X, CheckCircle, AlertTriangle } from 'lucide-react';
 import { cn } from '../lib/utils';
-import * as XLSX from 'xlsx';
-import Papa from 'papaparse';
+import { parseUploadFile } from '../lib/fileParser';
 
 interface UploadedFile {
   file: File;
@@ -29,7 +28,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
   onFileUpload,
   onError,
   className,
-  accept = ['.csv', '.xlsx', '.xls', '.json'],
+  accept = ['.csv', '.xlsx', '.xls', '.ods', '.json'],
   maxSize = 10 * 1024 * 1024, // 10MB
   multiple = false
 }) => {
@@ -38,75 +37,8 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
 
   const processFile = useCallback(async (file: File): Promise<UploadedFile> => {
     try {
-      const extension = file.name.toLowerCase().split('.').pop();
-      let data: any[] = [];
-      let headers: string[] = [];
-
-      if (extension === 'csv') {
-        // Parse CSV with Papa Parse
-        const text = await file.text();
-        const result = Papa.parse(text, {
-          header: true,
-          skipEmptyLines: true,
-          dynamicTyping: true
-        });
-
-        if (result.errors.length > 0) {
-          throw new Error(`CSV parsing error: ${result.errors[0].message}`);
-        }
-
-        data = result.data as any[];
-        headers = result.meta.fields || [];
-      } else if (extension === 'xlsx' || extension === 'xls') {
-        // Parse Excel with SheetJS
-        const arrayBuffer = await file.arrayBuffer();
-        const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-        
-        // Use the first sheet
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        
-        // Convert to JSON with header row
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-          header: 1,
-          defval: ''
-        }) as any[][];
-
-        if (jsonData.length === 0) {
-          throw new Error('Excel file is empty');
-        }
-
-        // First row as headers
-        headers = jsonData[0].map(h => String(h).trim()).filter(Boolean);
-        
-        // Rest as data
-        data = jsonData.slice(1).map(row => {
-          const obj: any = {};
-          headers.forEach((header, index) => {
-            obj[header] = row[index] || '';
-          });
-          return obj;
-        }).filter(row => Object.values(row).some(v => v !== ''));
-
-      } else if (extension === 'json') {
-        // Parse JSON
-        const text = await file.text();
-        const jsonData = JSON.parse(text);
-        
-        if (Array.isArray(jsonData)) {
-          data = jsonData;
-          if (data.length > 0 && typeof data[0] === 'object') {
-            headers = Object.keys(data[0]);
-          }
-        } else if (typeof jsonData === 'object') {
-          data = [jsonData];
-          headers = Object.keys(jsonData);
-        } else {
-          throw new Error('JSON must be an array or object');
-        }
-      } else {
-        throw new Error(`Unsupported file type: ${extension}`);
-      }
+      const parsed = await parseUploadFile(file);
+      const { rows: data, headers } = parsed.tables[0];
 
       if (data.length === 0) {
         throw new Error('File contains no data');
@@ -165,6 +97,7 @@ export const FileUploadZone: React.FC<FileUploadZoneProps> = ({
       'text/csv': ['.csv'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
       'application/json': ['.json']
     },
     maxSize,
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { Database, Download, FolderOpen, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ProjectRepository, type SavedDataset } from '../lib/projectRepository';
+import { formatFileSize } from '../lib/utils';
+import { useStore } from '../store/useStore';
+
+/**
+ * Datasets saved by past generations, newest first. Opening one loads it back
+ * into the generator; downloading fetches the stored file directly.
+ */
+const SavedDatasets: React.FC = () => {
+  const { user, isGuest } = useStore();
+  const navigate = useNavigate();
+  const [datasets, setDatasets] = useState<SavedDataset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const signedIn = !!user && !isGuest;
+
+  useEffect(() => {
+    if (!signedIn) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    new ProjectRepository()
+      .listDatasets()
+      .then(result => {
+        if (!cancelled) setDatasets(result);
+      })
+      .catch(failure => {
+        if (!cancelled) setError((failure as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, user?.id]);
+
+  const handleDownload = async (dataset: SavedDataset) => {
+    try {
+      const url = await new ProjectRepository().getDownloadUrl(dataset);
+      const a = document.createElement('a');
+      a.href = url;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    }
+  };
+
+  return (
+    <motion.div
+      className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
+      initial={{ y: 50, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.5, delay: 0.6 }}
+    >
+      <h3 className="text-xl font-semibold text-white mb-4">Your Datasets</h3>
+
+      {!signedIn ? (
+        <p className="text-gray-400 text-sm">Sign in to keep generated datasets and reopen them here.</p>
+      ) : loading ? (
+        <div className="flex items-center gap-2 text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading datasets...
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm">Could not load datasets: {error}</p>
+      ) : datasets.length === 0 ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-gray-400 text-sm">No saved datasets yet. Every generation you run is saved here.</p>
+          <button
+            onClick={() => navigate('/generator')}
+            className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+          >
+            Generate Data
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {datasets.map(dataset => (
+            <div key={dataset.id} className="flex items-center gap-3 p-3 bg-gray-700/30 rounded-lg">
+              <Database className="w-5 h-5 text-purple-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm truncate">
+                  {dataset.name} <span className="text-gray-500">v{dataset.version}</span>
+                </p>
+                <p className="text-gray-400 text-xs">
+                  <Link to={`/projects/${dataset.project.id}`} className="hover:text-purple-300">
+                    {dataset.project.name}
+                  </Link>{' '}
+                  · {dataset.project.data_type} · {dataset.rows_count.toLocaleString()} rows ×{' '}
+                  {dataset.columns_count} columns · {formatFileSize(dataset.file_size)} ·{' '}
+                  {new Date(dataset.created_at).toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => navigate(`/generator?dataset=${dataset.id}`)}
+                className="py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-1"
+              >
+                <FolderOpen className="w-4 h-4" />
+                Open
+              </button>
+              <button
+                onClick={() => handleDownload(dataset)}
+                className="py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                title="Download"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default SavedDatasets;
@@ -0,0 +1,351 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, ChevronUp, Plus, Redo2, Trash2, Undo2 } from 'lucide-react';
+import { FIELD_TYPES, type FieldType, type RelationalSchema } from '../lib/schema';
+import {
+  emptyDraftField,
+  toSchemaDraft,
+  validateSchemaDraft,
+  type DraftField,
+  type SchemaDraft
+} from '../lib/schemaDraft';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+
+interface SchemaEditorProps {
+  schema: RelationalSchema;
+  // Called with the validated schema after every edit, or null while the draft has issues
+  onChange: (schema: RelationalSchema | null) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const buttonClass =
+  'py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const iconButtonClass = 'p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed';
+
+const NUMERIC_TYPES: FieldType[] = ['integer', 'number'];
+const TEMPORAL_TYPES: FieldType[] = ['date', 'datetime'];
+const TEXT_TYPES: FieldType[] = ['string', 'text', 'email', 'phone', 'uuid'];
+
+interface FieldEditorProps {
+  field: DraftField;
+  index: number;
+  count: number;
+  issues: string[];
+  expanded: boolean;
+  draft: SchemaDraft;
+  onToggle: () => void;
+  onChange: (changes: Partial<DraftField>, key: keyof DraftField) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const FieldEditor: React.FC<FieldEditorProps> = ({
+  field, index, count, issues, expanded, draft, onToggle, onChange, onMove, onRemove
+}) => {
+  const textInput = (key: keyof DraftField, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+      <input
+        type="text"
+        value={field[key] as string}
+        placeholder={placeholder}
+        onChange={(e) => onChange({ [key]: e.target.value }, key)}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const checkbox = (key: 'nullable' | 'required' | 'unique', label: string) => (
+    <label className="flex items-center gap-1 text-xs text-gray-300 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={field[key]}
+        onChange={(e) => onChange({ [key]: e.target.checked }, key)}
+        className="rounded border-gray-600 bg-gray-700 text-purple-500 focus:ring-purple-500"
+      />
+      {label}
+    </label>
+  );
+
+  const referencedTable = draft.find(table => table.name === field.referenceTable);
+
+  return (
+    <div className={`p-3 rounded-lg border ${issues.length ? 'border-red-500/50 bg-red-500/5' : 'border-gray-700/50 bg-gray-700/20'}`}>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-col">
+          <button onClick={() => onMove(-1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button onClick={() => onMove(1)} disabled={index === count - 1} className={iconButtonClass} title="Move down">
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={field.name}
+          placeholder="field_name"
+          onChange={(e) => onChange({ name: e.target.value }, 'name')}
+          className={`${inputClass} flex-1 font-mono`}
+        />
+        <select
+          value={field.type}
+          onChange={(e) => onChange({ type: e.target.value as FieldType }, 'type')}
+          className={`${inputClass} w-32`}
+        >
+          {FIELD_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        {checkbox('nullable', 'Nullable')}
+        {checkbox('required', 'Required')}
+        {checkbox('unique', 'Unique')}
+        <button onClick={onToggle} className={iconButtonClass} title={expanded ? 'Hide details' : 'Edit constraints, examples and description'}>
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-400" title="Remove field">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {issues.map((issue, issueIndex) => (
+        <p key={issueIndex} className="mt-1 ml-8 text-xs text-red-400">{issue}</p>
+      ))}
+
+      {expanded && (
+        <div className="mt-3 ml-8 grid grid-cols-2 gap-3">
+          <div className="col-span-2">{textInput('description', 'Description', 'What this field holds')}</div>
+          <div className="col-span-2">{textInput('examples', 'Examples (comma-separated)')}</div>
+          <div className="col-span-2">
+            {textInput('expression', 'Computed from (expression, leave empty to generate)', 'quantity * unit_price')}
+          </div>
+
+          {(NUMERIC_TYPES.includes(field.type) || TEMPORAL_TYPES.includes(field.type)) && (
+            <>
+              {textInput('min', 'Minimum', field.type === 'date' || field.type === 'datetime' ? '2020-01-01' : '')}
+              {textInput('max', 'Maximum', field.type === 'date' || field.type === 'datetime' ? '2024-12-31' : '')}
+            </>
+          )}
+
+          {TEXT_TYPES.includes(field.type) && (
+            <>
+              {textInput('minLength', 'Min length')}
+              {textInput('maxLength', 'Max length')}
+              <div className="col-span-2">{textInput('pattern', 'Pattern (regular expression)', '^[A-Z]{3}-\\d{4}$')}</div>
+            </>
+          )}
+
+          {field.type !== 'boolean' && field.type !== 'reference' && (
+            <div className="col-span-2">
+              {textInput('enumValues', field.type === 'enum' ? 'Allowed values (comma-separated)' : 'Allowed values (optional, comma-separated)')}
+            </div>
+          )}
+
+          {(field.type === 'reference' || field.referenceTable) && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">References table</label>
+                <select
+                  value={field.referenceTable}
+                  onChange={(e) => onChange({ referenceTable: e.target.value, referenceField: '' }, 'referenceTable')}
+                  className={inputClass}
+                >
+                  <option value="">None</option>
+                  {draft.map(table => (
+                    <option key={table.name} value={table.name}>{table.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">References field</label>
+                <select
+                  value={field.referenceField}
+                  onChange={(e) => onChange({ referenceField: e.target.value }, 'referenceField')}
+                  className={inputClass}
+                >
+                  <option value="">Select a field</option>
+                  {referencedTable?.fields.map(target => (
+                    <option key={target.id} value={target.name}>{target.name}</option>
+                  ))}
+                </select>
+              </div>
+              {textInput('cardinalityMin', 'Min rows per referenced row')}
+              {textInput('cardinalityMax', 'Max rows per referenced row')}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SchemaEditor: React.FC<SchemaEditorProps> = ({ schema, onChange }) => {
+  const { value: draft, update, undo, redo, canUndo, canRedo } = useUndoHistory<SchemaDraft>(() => toSchemaDraft(schema));
+  const [activeTable, setActiveTable] = useState(() => Object.keys(schema)[0]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const validation = useMemo(() => validateSchemaDraft(draft), [draft]);
+
+  // The parent re-renders with each reported schema, so only draft changes are reported
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const reported = useRef(false);
+  useEffect(() => {
+    if (!reported.current) {
+      reported.current = true;
+      return;
+    }
+    onChangeRef.current(validation.schema);
+  }, [validation]);
+
+  const table = draft.find(item => item.name === activeTable) ?? draft[0];
+
+  const updateTable = (change: (fields: DraftField[], primaryKey: string) => { fields: DraftField[]; primaryKey: string }, key?: string) => {
+    update(current => current.map(item => (item.name === table.name ? { ...item, ...change(item.fields, item.primaryKey) } : item)), key);
+  };
+
+  const changeField = (id: string, changes: Partial<DraftField>, key: keyof DraftField) => {
+    const previous = table.fields.find(field => field.id === id);
+    const oldName = previous?.name;
+
+    update(current => current.map(item => {
+      const renamed = changes.name !== undefined && oldName !== undefined;
+      const fields = item.fields.map(field => {
+        if (item.name === table.name && field.id === id) return { ...field, ...changes };
+        // Renaming a field carries over to the references pointing at it
+        if (renamed && field.referenceTable === table.name && field.referenceField === oldName) {
+          return { ...field, referenceField: changes.name! };
+        }
+        return field;
+      });
+      const primaryKey = item.name === table.name && renamed && item.primaryKey === oldName ? changes.name! : item.primaryKey;
+      return { ...item, fields, primaryKey };
+    }), `${id}:${key}`);
+  };
+
+  const addField = () => {
+    const names = new Set(table.fields.map(field => field.name));
+    let index = table.fields.length + 1;
+    while (names.has(`field_${index}`)) index++;
+    const field = emptyDraftField(`field_${index}`);
+    updateTable((fields, primaryKey) => ({ fields: [...fields, field], primaryKey }));
+    setExpanded(current => new Set(current).add(field.id));
+  };
+
+  const removeField = (id: string) => {
+    const removed = table.fields.find(field => field.id === id);
+    updateTable((fields, primaryKey) => ({
+      fields: fields.filter(field => field.id !== id),
+      primaryKey: removed && primaryKey === removed.name ? '' : primaryKey
+    }));
+  };
+
+  const moveField = (id: string, offset: number) => {
+    updateTable((fields, primaryKey) => {
+      const index = fields.findIndex(field => field.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= fields.length) return { fields, primaryKey };
+      const reordered = [...fields];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return { fields: reordered, primaryKey };
+    });
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Text inputs keep the browser's own undo; elsewhere the shortcuts step through the schema history
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const target = event.target as HTMLElement;
+    if (!(event.ctrlKey || event.metaKey) || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+    if (event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    } else if (event.key.toLowerCase() === 'y') {
+      event.preventDefault();
+      redo();
+    }
+  };
+
+  return (
+    <div className="space-y-4" onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-2">
+        {draft.length > 1 && (
+          <select
+            value={table.name}
+            onChange={(e) => setActiveTable(e.target.value)}
+            className={`${inputClass} w-auto`}
+          >
+            {draft.map(item => (
+              <option key={item.name} value={item.name}>{item.name} ({item.fields.length} fields)</option>
+            ))}
+          </select>
+        )}
+        <button onClick={undo} disabled={!canUndo} className={buttonClass} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+        <button onClick={redo} disabled={!canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4" />
+          Redo
+        </button>
+        <button onClick={addField} className={buttonClass}>
+          <Plus className="w-4 h-4" />
+          Add Field
+        </button>
+        <span className={`ml-auto text-sm flex items-center gap-1 ${validation.issueCount ? 'text-red-400' : 'text-green-400'}`}>
+          {validation.issueCount ? <AlertCircle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+          {validation.issueCount
+            ? `${validation.issueCount} issue${validation.issueCount === 1 ? '' : 's'} to fix before generating`
+            : 'Schema is valid'}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="text-sm text-gray-400">Primary key</label>
+        <select
+          value={table.primaryKey}
+          onChange={(e) => updateTable(fields => ({ fields, primaryKey: e.target.value }))}
+          className={`${inputClass} w-auto`}
+        >
+          <option value="">None</option>
+          {table.fields.filter(field => field.name.trim()).map(field => (
+            <option key={field.id} value={field.name}>{field.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {validation.tableIssues.map((issue, index) => (
+        <p key={index} className="text-xs text-red-400">{issue}</p>
+      ))}
+
+      <div className="space-y-2">
+        {table.fields.map((field, index) => (
+          <FieldEditor
+            key={field.id}
+            field={field}
+            index={index}
+            count={table.fields.length}
+            issues={validation.fieldIssues[field.id] ?? []}
+            expanded={expanded.has(field.id)}
+            draft={draft}
+            onToggle={() => toggleExpanded(field.id)}
+            onChange={(changes, key) => changeField(field.id, changes, key)}
+            onMove={(offset) => moveField(field.id, offset)}
+            onRemove={() => removeField(field.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaEditor;
@@ -8,12 +8,14 @@ import {
   Settings, 
   Brain, 
   Shield,
-  Activity
+  Activity,
+  FolderOpen
 } from 'lucide-react';
 
 const menuItems = [
   { path: '/dashboard', icon: BarChart3, label: 'Dashboard' },
   { path: '/generator', icon: Database, label: 'Data Generator' },
+  { path: '/projects', icon: FolderOpen, label: 'Projects' },
   { path: '/analytics', icon: Activity, label: 'Analytics' },
   { path: '/settings', icon: Settings, label: 'Settings' },
 ];
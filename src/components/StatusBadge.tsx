@@ -0,0 +1,25 @@
+import React from 'react';
+import type { GenerationJob, Project } from '../lib/supabase';
+
+// Interrupted is a running job whose client stopped sending heartbeats
+type Status = Project['status'] | GenerationJob['status'] | 'interrupted';
+
+const STATUS_STYLES: Record<Status, string> = {
+  draft: 'bg-gray-500/20 border-gray-500/30 text-gray-300',
+  pending: 'bg-gray-500/20 border-gray-500/30 text-gray-300',
+  generating: 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300',
+  running: 'bg-yellow-500/20 border-yellow-500/30 text-yellow-300',
+  completed: 'bg-green-500/20 border-green-500/30 text-green-300',
+  failed: 'bg-red-500/20 border-red-500/30 text-red-300',
+  cancelled: 'bg-orange-500/20 border-orange-500/30 text-orange-300',
+  interrupted: 'bg-orange-500/20 border-orange-500/30 text-orange-300'
+};
+
+// Status pill shared by projects and generation jobs
+const StatusBadge: React.FC<{ status: Status }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full border text-xs capitalize ${STATUS_STYLES[status] ?? STATUS_STYLES.draft}`}>
+    {status}
+  </span>
+);
+
+export default StatusBadge;
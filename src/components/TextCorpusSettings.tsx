@@ -0,0 +1,212 @@
+import React, { useMemo } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+  TEXT_CORPUS_PRESETS,
+  allocateLabels,
+  validateTextCorpusConfig,
+  type LengthDistribution,
+  type TextCorpusConfig,
+  type TextLabelSet
+} from '../lib/textGenerator';
+
+interface TextCorpusSettingsProps {
+  config: TextCorpusConfig;
+  onChange: (config: TextCorpusConfig) => void;
+  // "provider model" of the configured LLM, or null when none is set up
+  modelLabel: string | null;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const TextCorpusSettings: React.FC<TextCorpusSettingsProps> = ({ config, onChange, modelLabel }) => {
+  const update = (changes: Partial<TextCorpusConfig>) => onChange({ ...config, ...changes });
+
+  const updateLabelSet = (index: number, changes: Partial<TextLabelSet>) =>
+    update({ labelSets: config.labelSets.map((set, i) => (i === index ? { ...set, ...changes } : set)) });
+
+  const errors = useMemo(() => validateTextCorpusConfig(config), [config]);
+
+  return (
+    <div className="space-y-4">
+      {modelLabel ? (
+        <p className="text-sm text-gray-400">
+          Documents are written by <span className="text-purple-300">{modelLabel}</span>.
+        </p>
+      ) : (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-300">
+          Configure an AI model in Settings to generate text data.
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Preset</label>
+        <div className="flex flex-wrap gap-2">
+          {TEXT_CORPUS_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => update({ ...preset.config, instructions: preset.config.instructions || '' })}
+              className="px-3 py-1 text-sm bg-gray-700/50 text-gray-300 rounded-lg hover:bg-gray-600/50 hover:text-white transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Document Type</label>
+          <input
+            type="text"
+            value={config.documentType}
+            onChange={(e) => update({ documentType: e.target.value })}
+            placeholder="customer support ticket"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Documents</label>
+          <input
+            type="number"
+            min={1}
+            value={config.documentCount}
+            onChange={(e) => update({ documentCount: parseInt(e.target.value) || 0 })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Additional Instructions</label>
+        <textarea
+          value={config.instructions || ''}
+          onChange={(e) => update({ instructions: e.target.value })}
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Length Distribution</label>
+          <select
+            value={config.length.distribution}
+            onChange={(e) => update({ length: { ...config.length, distribution: e.target.value as LengthDistribution } })}
+            className={inputClass}
+          >
+            <option value="fixed">Fixed</option>
+            <option value="uniform">Uniform</option>
+            <option value="normal">Normal</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            {config.length.distribution === 'fixed' ? 'Words' : 'Min Words'}
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={config.length.min}
+            onChange={(e) => update({ length: { ...config.length, min: parseInt(e.target.value) || 0 } })}
+            className={inputClass}
+          />
+        </div>
+        {config.length.distribution !== 'fixed' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Max Words</label>
+            <input
+              type="number"
+              min={1}
+              value={config.length.max}
+              onChange={(e) => update({ length: { ...config.length, max: parseInt(e.target.value) || 0 } })}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-300">Label Sets</label>
+          <button
+            onClick={() => update({ labelSets: [...config.labelSets, { name: '', labels: [] }] })}
+            className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+          >
+            <Plus className="w-3 h-3" />
+            Add label set
+          </button>
+        </div>
+        <div className="space-y-3">
+          {config.labelSets.map((set, index) => {
+            const counts = errors.length === 0
+              ? allocateLabels(set, config.documentCount).reduce<Record<string, number>>((acc, label) => {
+                  acc[label] = (acc[label] || 0) + 1;
+                  return acc;
+                }, {})
+              : {};
+
+            return (
+              <div key={index} className="p-3 bg-gray-700/30 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={set.name}
+                    onChange={(e) => updateLabelSet(index, { name: e.target.value })}
+                    placeholder="sentiment"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => update({ labelSets: config.labelSets.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-400"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  defaultValue={set.labels.join(', ')}
+                  key={`labels-${set.labels.join(',')}`}
+                  onBlur={(e) => updateLabelSet(index, { labels: splitList(e.target.value) })}
+                  placeholder="Labels: negative, neutral, positive"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  defaultValue={(set.weights || []).join(', ')}
+                  key={`weights-${(set.weights || []).join(',')}`}
+                  onBlur={(e) => updateLabelSet(index, { weights: splitList(e.target.value).map(Number) })}
+                  placeholder="Class weights (optional): 1, 1, 2"
+                  className={inputClass}
+                />
+                {Object.keys(counts).length > 0 && (
+                  <p className="text-xs text-gray-400">
+                    {Object.entries(counts).map(([label, count]) => `${label}: ${count}`).join(' • ')}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Seed</label>
+        <input type="text" value={config.seed || ''} onChange={(e) => update({ seed: e.target.value })} className={inputClass} />
+        <p className="text-xs text-gray-400 mt-1">Fixes the label assignment and target lengths; the text itself comes from the model.</p>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="text-sm text-red-300">{error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextCorpusSettings;
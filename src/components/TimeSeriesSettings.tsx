@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Plus, X } from 'lucide-react';
+import {
+  TIME_SERIES_FREQUENCIES,
+  TimeSeriesGenerator,
+  countTimeSteps,
+  validateTimeSeriesConfig,
+  type TimeSeriesConfig
+} from '../lib/timeSeriesGenerator';
+
+interface TimeSeriesSettingsProps {
+  config: TimeSeriesConfig;
+  onChange: (config: TimeSeriesConfig) => void;
+}
+
+const SERIES_COLORS = ['#8B5CF6', '#10B981', '#F59E0B', '#3B82F6', '#EC4899', '#14B8A6'];
+
+// Only the first few entities are drawn so the chart stays readable
+const MAX_PREVIEW_SERIES = SERIES_COLORS.length;
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const TimeSeriesSettings: React.FC<TimeSeriesSettingsProps> = ({ config, onChange }) => {
+  const [entityText, setEntityText] = useState(config.entityIds.join(', '));
+
+  const update = (changes: Partial<TimeSeriesConfig>) => onChange({ ...config, ...changes });
+
+  const numberInput = (key: 'baseline' | 'trend' | 'noise' | 'anomalyMagnitude', label: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">{label}</label>
+      <input
+        type="number"
+        step="any"
+        value={config[key]}
+        onChange={(e) => update({ [key]: parseFloat(e.target.value) || 0 })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const errors = useMemo(() => validateTimeSeriesConfig(config), [config]);
+
+  const preview = useMemo(() => {
+    if (errors.length > 0) return null;
+    const generator = new TimeSeriesGenerator({ ...config, entityIds: config.entityIds.slice(0, MAX_PREVIEW_SERIES) });
+    return { points: generator.preview(), totalRows: countTimeSteps(config) * Math.max(1, config.entityIds.length) };
+  }, [config, errors]);
+
+  const seriesKeys = config.entityIds.length > 0 ? config.entityIds.slice(0, MAX_PREVIEW_SERIES) : [config.valueColumn];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Timestamp Column</label>
+          <input
+            type="text"
+            value={config.timestampColumn}
+            onChange={(e) => update({ timestampColumn: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Value Column</label>
+          <input
+            type="text"
+            value={config.valueColumn}
+            onChange={(e) => update({ valueColumn: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Entity Column</label>
+          <input
+            type="text"
+            value={config.entityColumn}
+            onChange={(e) => update({ entityColumn: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Entity IDs</label>
+        <input
+          type="text"
+          value={entityText}
+          onChange={(e) => {
+            setEntityText(e.target.value);
+            update({ entityIds: e.target.value.split(',').map(id => id.trim()).filter(Boolean) });
+          }}
+          placeholder="sensor-01, sensor-02, sensor-03"
+          className={inputClass}
+        />
+        <p className="text-xs text-gray-400 mt-1">Comma-separated. Leave empty for a single series.</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Frequency</label>
+          <select
+            value={config.frequency}
+            onChange={(e) => update({ frequency: e.target.value as TimeSeriesConfig['frequency'] })}
+            className={inputClass}
+          >
+            {TIME_SERIES_FREQUENCIES.map((frequency) => (
+              <option key={frequency} value={frequency}>
+                {frequency.charAt(0).toUpperCase() + frequency.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Start</label>
+          <input type="date" value={config.start} onChange={(e) => update({ start: e.target.value })} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">End</label>
+          <input type="date" value={config.end} onChange={(e) => update({ end: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        {numberInput('baseline', 'Baseline')}
+        {numberInput('trend', 'Trend per Step')}
+        {numberInput('noise', 'Noise (std. dev.)')}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-gray-300">Seasonality</label>
+          <button
+            onClick={() => update({ seasonality: [...config.seasonality, { period: 24, amplitude: 1 }] })}
+            className="flex items-center gap-1 text-xs text-purple-300 hover:text-purple-200"
+          >
+            <Plus className="w-3 h-3" />
+            Add cycle
+          </button>
+        </div>
+        <div className="space-y-2">
+          {config.seasonality.map((component, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="number"
+                min={2}
+                value={component.period}
+                onChange={(e) => update({
+                  seasonality: config.seasonality.map((item, i) =>
+                    i === index ? { ...item, period: parseInt(e.target.value) || 0 } : item
+                  )
+                })}
+                className={inputClass}
+                title="Period in steps"
+              />
+              <span className="text-xs text-gray-400 whitespace-nowrap">steps ×</span>
+              <input
+                type="number"
+                step="any"
+                value={component.amplitude}
+                onChange={(e) => update({
+                  seasonality: config.seasonality.map((item, i) =>
+                    i === index ? { ...item, amplitude: parseFloat(e.target.value) || 0 } : item
+                  )
+                })}
+                className={inputClass}
+                title="Amplitude"
+              />
+              <button
+                onClick={() => update({ seasonality: config.seasonality.filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-400"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {config.seasonality.length === 0 && <p className="text-xs text-gray-500">No seasonal cycles.</p>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Anomaly Rate (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="any"
+            value={Math.round(config.anomalyRate * 10000) / 100}
+            onChange={(e) => update({ anomalyRate: (parseFloat(e.target.value) || 0) / 100 })}
+            className={inputClass}
+          />
+        </div>
+        {numberInput('anomalyMagnitude', 'Anomaly Magnitude')}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Seed</label>
+          <input type="text" value={config.seed || ''} onChange={(e) => update({ seed: e.target.value })} className={inputClass} />
+        </div>
+      </div>
+
+      {errors.length > 0 ? (
+        <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg space-y-1">
+          {errors.map((error) => (
+            <p key={error} className="text-sm text-red-300">{error}</p>
+          ))}
+        </div>
+      ) : preview && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Preview</span>
+            <span className="text-gray-300">{preview.totalRows.toLocaleString()} rows will be generated</span>
+          </div>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={preview.points}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis
+                dataKey={config.timestampColumn}
+                stroke="#9CA3AF"
+                tickFormatter={(value: string) => value.slice(0, config.frequency === 'minute' || config.frequency === 'hour' ? 16 : 10).replace('T', ' ')}
+                minTickGap={40}
+              />
+              <YAxis stroke="#9CA3AF" />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1F2937',
+                  border: '1px solid #374151',
+                  borderRadius: '8px'
+                }}
+              />
+              {seriesKeys.length > 1 && <Legend />}
+              {seriesKeys.map((key, index) => (
+                <Line key={key} type="monotone" dataKey={key} stroke={SERIES_COLORS[index]} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeSeriesSettings;
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { RotateCcw, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ProjectRepository, canResume, checkpointRows, isInterrupted, type SavedJob } from '../lib/projectRepository';
+import StatusBadge from './StatusBadge';
+import { useStore } from '../store/useStore';
+
+interface UnfinishedJobsProps {
+  onResume: (job: SavedJob) => void;
+}
+
+/**
+ * Recent generations that did not complete. Jobs still running elsewhere
+ * update live from their job record; stopped ones can be resumed from their
+ * last checkpointed chunk.
+ */
+const UnfinishedJobs: React.FC<UnfinishedJobsProps> = ({ onResume }) => {
+  const { user, isGuest } = useStore();
+  const [jobs, setJobs] = useState<SavedJob[]>([]);
+  const signedIn = !!user && !isGuest;
+  const liveJobIds = jobs.filter(job => !canResume(job)).map(job => job.id).join(',');
+
+  useEffect(() => {
+    if (!signedIn) return;
+    let cancelled = false;
+
+    new ProjectRepository()
+      .listUnfinishedJobs()
+      .then(result => {
+        if (!cancelled) setJobs(result);
+      })
+      .catch(failure => console.warn('Could not load unfinished jobs:', failure));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, user?.id]);
+
+  useEffect(() => {
+    if (!liveJobIds) return;
+    const repository = new ProjectRepository();
+    const unsubscribers = liveJobIds.split(',').map(id =>
+      repository.subscribeToJob(id, update =>
+        setJobs(current => current
+          .map(job => (job.id === update.id ? { ...job, ...update } : job))
+          .filter(job => job.status !== 'completed'))
+      )
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [liveJobIds]);
+
+  const handleCancel = async (job: SavedJob) => {
+    try {
+      await new ProjectRepository().cancelJob(job);
+      setJobs(current => current.map(item => (item.id === job.id ? { ...item, status: 'cancelled' } : item)));
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl">
+      <h3 className="text-lg font-semibold text-white mb-4">Unfinished Generations</h3>
+      <div className="space-y-3">
+        {jobs.map(job => (
+          <div key={job.id} className="flex items-center gap-4 p-3 bg-gray-700/30 rounded-lg">
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center gap-2">
+                <Link to={`/projects/${job.project.id}`} className="text-white text-sm truncate hover:text-purple-300">
+                  {job.project.name}
+                </Link>
+                <StatusBadge status={isInterrupted(job) ? 'interrupted' : job.status} />
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-1.5">
+                <div
+                  className="bg-gradient-to-r from-purple-500 to-pink-500 h-1.5 rounded-full transition-all duration-500"
+                  style={{ width: `${job.progress}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-400">
+                {job.progress}% · {checkpointRows(job.checkpoint).toLocaleString()} rows kept · started{' '}
+                {new Date(job.started_at ?? job.created_at).toLocaleString()}
+                {job.error_message && <span className="text-red-400"> · {job.error_message}</span>}
+              </p>
+            </div>
+            {canResume(job) && (
+              <button
+                onClick={() => onResume(job)}
+                className="py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-1"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Resume
+              </button>
+            )}
+            {(job.status === 'running' || job.status === 'pending') && (
+              <button
+                onClick={() => handleCancel(job)}
+                className="py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-1"
+              >
+                <XCircle className="w-4 h-4" />
+                Cancel
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UnfinishedJobs;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { ShieldCheck, AlertTriangle, Wrench, RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import type { ValidationReport as ValidationReportData, ViolationRule } from '../lib/dataValidation';
+
+interface ValidationReportProps {
+  report: ValidationReportData;
+  onAutoRepair?: () => void;
+  onRegenerateInvalid?: () => void;
+  isWorking?: boolean;
+}
+
+const ruleLabels: Record<ViolationRule, string> = {
+  type: 'Type',
+  required: 'Required',
+  min: 'Min',
+  max: 'Max',
+  length: 'Length',
+  unique: 'Unique',
+  enum: 'Enum',
+  pattern: 'Pattern'
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({
+  report,
+  onAutoRepair,
+  onRegenerateInvalid,
+  isWorking = false
+}) => {
+  const [expandedColumn, setExpandedColumn] = useState<string | null>(null);
+
+  const validPercent = report.totalRows > 0 ? (report.validRows / report.totalRows) * 100 : 100;
+  const isClean = report.invalidRows.length === 0;
+
+  return (
+    <Card className="bg-gray-800/50 border-gray-700">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-white">
+          <span className="flex items-center gap-2">
+            {isClean ? (
+              <ShieldCheck className="w-5 h-5 text-green-400" />
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            )}
+            Schema Validation
+          </span>
+          <span className={`text-sm font-medium ${isClean ? 'text-green-400' : 'text-yellow-400'}`}>
+            {report.validRows.toLocaleString()} / {report.totalRows.toLocaleString()} rows valid
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={validPercent} className="h-2" />
+
+        {isClean ? (
+          <p className="text-sm text-gray-400">Every row matches the schema.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {report.columns.map((column) => (
+                <div key={column.column} className="rounded-lg bg-gray-700/30 border border-gray-700">
+                  <button
+                    onClick={() => setExpandedColumn(expandedColumn === column.column ? null : column.column)}
+                    className="w-full flex items-center justify-between p-3 text-left"
+                  >
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium text-white">{column.column}</span>
+                      {Object.entries(column.rules).map(([rule, count]) => (
+                        <Badge key={rule} variant="outline" className="border-yellow-500/30 text-yellow-300 text-xs">
+                          {ruleLabels[rule as ViolationRule]} × {count}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-gray-400">
+                      {column.violations.toLocaleString()}
+                      {expandedColumn === column.column ? (
+                        <ChevronUp className="w-4 h-4" />
+                      ) : (
+                        <ChevronDown className="w-4 h-4" />
+                      )}
+                    </div>
+                  </button>
+                  {expandedColumn === column.column && (
+                    <div className="px-3 pb-3 space-y-1">
+                      {column.examples.map((example, index) => (
+                        <p key={index} className="text-xs text-gray-400">
+                          Row {example.row + 1}: <span className="text-gray-300">{String(example.value)}</span> — {example.message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {(onAutoRepair || onRegenerateInvalid) && (
+              <div className="grid grid-cols-2 gap-2">
+                {onAutoRepair && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onAutoRepair}
+                    disabled={isWorking}
+                    className="border-green-500/30 hover:bg-green-500/20"
+                  >
+                    <Wrench className="w-4 h-4 mr-2" />
+                    Auto-Repair
+                  </Button>
+                )}
+                {onRegenerateInvalid && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onRegenerateInvalid}
+                    disabled={isWorking}
+                    className="border-blue-500/30 hover:bg-blue-500/20"
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${isWorking ? 'animate-spin' : ''}`} />
+                    Regenerate {report.invalidRows.length.toLocaleString()} Rows
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {report.unexpectedColumns.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Columns not in schema: {report.unexpectedColumns.join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationReport;
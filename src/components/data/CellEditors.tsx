@@ -0,0 +1,174 @@
+/**
+ * Type-aware cell editors for the review grid
+ * Each schema type gets an input that produces a value of that type (numbers,
+ * booleans, ISO dates, enum options), so editing never turns a column into
+ * strings. Invalid input is flagged and not committed.
+ */
+
+import { useState } from 'react';
+import { validateValue } from '../../lib/dataValidation';
+import type { SchemaField, SchemaValue } from '../../lib/schema';
+
+type Row = Record<string, unknown>;
+
+// react-data-grid's typings do not resolve under this project's module settings, so the props are declared here
+export interface CellEditorProps {
+  row: Row;
+  column: { key: string };
+  onRowChange: (row: Row, commitChanges?: boolean) => void;
+  onClose: (commitChanges?: boolean) => void;
+}
+
+interface CellFormatterProps {
+  row: Row;
+  column: { key: string };
+}
+
+const inputClass = 'w-full h-full px-2 bg-gray-700 text-white border-none outline-none';
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Empty input clears the cell, unless the field is required
+const emptyValue = (field: SchemaField) => (field.constraints?.required ? undefined : null);
+
+function firstViolation(column: string, field: SchemaField, value: unknown): string | null {
+  return validateValue(column, field, value)[0]?.message ?? null;
+}
+
+function NumberEditor({ row, column, onRowChange, onClose, field }: CellEditorProps & { field: SchemaField }) {
+  const [draft, setDraft] = useState(isBlank(row[column.key]) ? '' : String(row[column.key]));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const value = text.trim() === '' ? emptyValue(field) : Number(text);
+    const problem = value === undefined ? 'value is required' : firstViolation(column.key, field, value);
+    setError(problem);
+    // Only valid numbers reach the row, so an abandoned typo leaves the old value
+    if (!problem) onRowChange({ ...row, [column.key]: value });
+  };
+
+  return (
+    <input
+      type="number"
+      step={field.type === 'integer' ? 1 : 'any'}
+      value={draft}
+      onChange={(e) => handleChange(e.target.value)}
+      onKeyDown={(e) => e.key === 'Escape' && onClose(false)}
+      title={error ?? undefined}
+      className={`${inputClass} ${error ? 'ring-2 ring-inset ring-red-500' : ''}`}
+      autoFocus
+    />
+  );
+}
+
+function BooleanEditor({ row, column, onRowChange }: CellEditorProps) {
+  return (
+    <label className="w-full h-full px-2 flex items-center bg-gray-700">
+      <input
+        type="checkbox"
+        checked={row[column.key] === true}
+        onChange={(e) => onRowChange({ ...row, [column.key]: e.target.checked }, true)}
+        className="w-4 h-4 accent-purple-500"
+        autoFocus
+      />
+    </label>
+  );
+}
+
+function DateEditor({ row, column, onRowChange, field }: CellEditorProps & { field: SchemaField }) {
+  const current = row[column.key];
+  const withTime = field.type === 'datetime';
+  const time = isBlank(current) ? NaN : Date.parse(String(current));
+  // datetime-local works in local time without a zone, so the ISO value is shifted into it
+  const draft = Number.isNaN(time)
+    ? ''
+    : withTime
+      ? new Date(time - new Date(time).getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+      : new Date(time).toISOString().slice(0, 10);
+
+  const handleChange = (text: string) => {
+    if (!text) {
+      const value = emptyValue(field);
+      if (value !== undefined) onRowChange({ ...row, [column.key]: value });
+      return;
+    }
+    onRowChange({ ...row, [column.key]: withTime ? new Date(text).toISOString() : text });
+  };
+
+  return (
+    <input
+      type={withTime ? 'datetime-local' : 'date'}
+      value={draft}
+      onChange={(e) => handleChange(e.target.value)}
+      className={`${inputClass} [color-scheme:dark]`}
+      autoFocus
+    />
+  );
+}
+
+function EnumEditor({ row, column, onRowChange, options }: CellEditorProps & { options: SchemaValue[] }) {
+  const index = options.findIndex(option => option === row[column.key]);
+
+  // Options are selected by position so numbers and booleans keep their type
+  return (
+    <select
+      value={index}
+      onChange={(e) => onRowChange({ ...row, [column.key]: Number(e.target.value) < 0 ? null : options[Number(e.target.value)] }, true)}
+      className={inputClass}
+      autoFocus
+    >
+      <option value={-1}>{index < 0 && !isBlank(row[column.key]) ? String(row[column.key]) : '—'}</option>
+      {options.map((option, position) => (
+        <option key={position} value={position}>{String(option)}</option>
+      ))}
+    </select>
+  );
+}
+
+function TextEditor({ row, column, onRowChange }: CellEditorProps) {
+  const value = row[column.key];
+  return (
+    <input
+      type="text"
+      value={isBlank(value) ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)}
+      onChange={(e) => onRowChange({ ...row, [column.key]: e.target.value })}
+      className={inputClass}
+      autoFocus
+    />
+  );
+}
+
+/**
+ * Picks the editor for the column's field type; columns without a schema
+ * entry get a plain text input.
+ */
+export function TypedCellEditor({ field, ...props }: CellEditorProps & { field?: SchemaField }) {
+  if (!field) return <TextEditor {...props} />;
+
+  const options = field.constraints?.enum ?? [];
+  if (options.length > 0) return <EnumEditor {...props} options={options} />;
+
+  switch (field.type) {
+    case 'number':
+    case 'integer':
+      return <NumberEditor {...props} field={field} />;
+    case 'boolean':
+      return <BooleanEditor {...props} />;
+    case 'date':
+    case 'datetime':
+      return <DateEditor {...props} field={field} />;
+    default:
+      return <TextEditor {...props} />;
+  }
+}
+
+// Display for cells; booleans show a mark, objects their JSON
+export function CellValue({ row, column }: CellFormatterProps) {
+  const value = row[column.key];
+  if (typeof value === 'boolean') {
+    return <span className={value ? 'text-green-400' : 'text-gray-500'}>{value ? '✓' : '✗'}</span>;
+  }
+  if (isBlank(value)) return null;
+  return <>{typeof value === 'object' ? JSON.stringify(value) : String(value)}</>;
+}
@@ -0,0 +1,173 @@
+import React from 'react';
+import { BarChart3, X } from 'lucide-react';
+import type { ColumnProfile } from '../../lib/columnProfile';
+import type { ViolationRule } from '../../lib/dataValidation';
+
+interface ColumnProfilePanelProps {
+  profile: ColumnProfile | null;
+  columns: string[];
+  onSelect: (column: string) => void;
+  onClose: () => void;
+}
+
+const ruleLabels: Record<ViolationRule, string> = {
+  type: 'Wrong type',
+  required: 'Missing required value',
+  min: 'Below minimum',
+  max: 'Above maximum',
+  length: 'Length out of range',
+  unique: 'Duplicate of a unique value',
+  enum: 'Not an allowed value',
+  pattern: 'Does not match pattern'
+};
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '—');
+
+const show = (value: unknown) => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-2">
+    <h4 className="text-xs font-medium uppercase tracking-wide text-gray-400">{title}</h4>
+    {children}
+  </div>
+);
+
+const Bars: React.FC<{ items: { label: string; count: number }[]; total: number }> = ({ items, total }) => {
+  const largest = Math.max(1, ...items.map(item => item.count));
+  return (
+    <div className="space-y-1">
+      {items.map((item, index) => (
+        <div key={index} className="text-xs" title={`${item.label}: ${item.count.toLocaleString()} (${percent(item.count, total)})`}>
+          <div className="flex justify-between gap-2 text-gray-300">
+            <span className="truncate">{item.label}</span>
+            <span className="text-gray-400 flex-shrink-0">{item.count.toLocaleString()}</span>
+          </div>
+          <div className="h-1.5 bg-gray-700 rounded-full">
+            <div className="h-1.5 bg-purple-500 rounded-full" style={{ width: `${(item.count / largest) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Side panel profiling one column of the review grid. The editor updates the
+ * profile as cells change, so implausible values show up while editing.
+ */
+export const ColumnProfilePanel: React.FC<ColumnProfilePanelProps> = ({ profile, columns, onSelect, onClose }) => {
+  const present = profile ? profile.rows - profile.nulls : 0;
+  const lengthSuffix = profile?.measure === 'length' ? ' length' : '';
+
+  const stats: [string, string][] = profile
+    ? [
+        ['Rows', profile.rows.toLocaleString()],
+        ['Nulls', `${profile.nulls.toLocaleString()} (${percent(profile.nulls, profile.rows)})`],
+        ['Distinct', profile.distinct.toLocaleString()],
+        ...(profile.min !== undefined ? [[`Min${lengthSuffix}`, show(profile.min)] as [string, string]] : []),
+        ...(profile.max !== undefined ? [[`Max${lengthSuffix}`, show(profile.max)] as [string, string]] : []),
+        ...(profile.mean !== undefined ? [[`Mean${lengthSuffix}`, show(profile.mean)] as [string, string]] : []),
+        ...(profile.std !== undefined ? [['Std dev', show(profile.std)] as [string, string]] : [])
+      ]
+    : [];
+
+  return (
+    <div className="w-80 flex-shrink-0 h-full overflow-y-auto border-l border-gray-700/50 bg-gray-800/50 p-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-4 h-4 text-purple-400" />
+          <span className="text-sm font-medium text-white">Column Profile</span>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Close profile">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <select
+        value={profile?.column ?? ''}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {!profile && <option value="">Select a column</option>}
+        {columns.map(column => (
+          <option key={column} value={column}>{column}</option>
+        ))}
+      </select>
+
+      {!profile ? (
+        <p className="text-xs text-gray-400">Pick a column, or click a cell in the grid, to see its profile.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {stats.map(([label, value]) => (
+              <div key={label} className="p-2 bg-gray-700/40 rounded-lg">
+                <p className="text-xs text-gray-400">{label}</p>
+                <p className="text-sm text-white truncate" title={value}>{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {profile.histogram.length > 0 && (
+            <Section title={profile.kind === 'numeric' || profile.kind === 'date' ? 'Distribution' : 'Values'}>
+              <Bars items={profile.histogram} total={present} />
+            </Section>
+          )}
+
+          {profile.conformance && (
+            <Section title="Schema conformance">
+              <p className="text-sm text-white">
+                {percent(profile.conformance.passing, profile.conformance.checked)}
+                <span className="text-gray-400"> of {profile.conformance.checked.toLocaleString()} values conform</span>
+              </p>
+              {profile.conformance.issues.map(issue => (
+                <div key={issue.rule} className="text-xs">
+                  <p className="text-red-400">{ruleLabels[issue.rule]}: {issue.count.toLocaleString()}</p>
+                  <p className="text-gray-400 truncate" title={issue.examples.map(show).join(', ')}>
+                    e.g. {issue.examples.map(show).join(', ')}
+                  </p>
+                </div>
+              ))}
+            </Section>
+          )}
+
+          {profile.shapes.length > 1 && (
+            <Section title="Formats">
+              {profile.shapes.map(({ shape, count }) => (
+                <div key={shape} className="flex justify-between gap-2 text-xs">
+                  <span className="font-mono text-gray-300 truncate">{shape}</span>
+                  <span className="text-gray-400 flex-shrink-0">{percent(count, present)}</span>
+                </div>
+              ))}
+            </Section>
+          )}
+
+          {profile.outliers && (
+            <Section title="Outliers">
+              <p className="text-sm text-white">
+                {profile.outliers.count.toLocaleString()}
+                <span className="text-gray-400"> outside {show(profile.outliers.low)} – {show(profile.outliers.high)}</span>
+              </p>
+              {profile.outliers.examples.length > 0 && (
+                <p className="text-xs text-yellow-400 truncate" title={profile.outliers.examples.map(show).join(', ')}>
+                  {profile.outliers.examples.map(show).join(', ')}
+                </p>
+              )}
+            </Section>
+          )}
+
+          {(profile.kind === 'numeric' || profile.kind === 'date') && profile.topValues.length > 0 && (
+            <Section title="Top values">
+              <Bars items={profile.topValues.map(({ value, count }) => ({ label: show(value), count }))} total={present} />
+            </Section>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
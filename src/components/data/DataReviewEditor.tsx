@@ -4,7 +4,7 @@
  * Real-time preview and version control
  */
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useDeferredValue, useRef } from 'react';
 // @ts-ignore
 import DataGrid, {Column, SelectColumn } from 'react-data-grid';
 
@@ -18,30 +18,99 @@ import {
   Copy,
   Trash2,
   Plus,
-  Loader2
+  Loader2,
+  Check,
+  X,
+  Sigma,
+  BarChart3
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { useAtomValue } from 'jotai';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
-
-interface DataRow {
-  id: string;
+import { COLUMNAR_MIME_TYPES, writeArrow, writeParquet } from '../../lib/columnarFormats';
+import type { DatasetSchema, SchemaField } from '../../lib/schema';
+import { schemaFromValues } from '../../lib/typeInference';
+import { LLMClient } from '../../lib/llmClient';
+import { applyEditPlan, describeOperation, requestEditPlan, type EditPlan } from '../../lib/editPlan';
+import { diffDatasets, type DatasetDiff } from '../../lib/datasetDiff';
+import { EXPRESSION_FUNCTIONS } from '../../lib/expressions';
+import { compileComputedColumns, computeRow, isComputedField, type ComputedColumn } from '../../lib/computedColumns';
+import { ColumnProfiler, type ColumnProfile } from '../../lib/columnProfile';
+import { downloadBlob } from '../../lib/utils';
+import { modelConfigAtom } from '../../store/modelStore';
+import {
+  EMPTY_HISTORY,
+  ROW_KEY,
+  applyCommand,
+  createRowKey,
+  diffToCommand,
+  invertCommand,
+  isEmptyCommand,
+  pushEntry,
+  restoreHistory,
+  touchedRowKeys,
+  type EditCommand,
+  type EditHistoryState,
+  type EditorRow,
+  type SavedEditHistory
+} from '../../lib/editHistory';
+import DatasetDiffView from '../DatasetDiffView';
+import { CellValue, TypedCellEditor, type CellEditorProps } from './CellEditors';
+import { ColumnProfilePanel } from './ColumnProfilePanel';
+
+interface DataRow extends EditorRow {
   [key: string]: any;
 }
 
-interface EditHistory {
-  id: string;
-  timestamp: string;
-  action: string;
-  changes: any;
-  description: string;
+// Everything outside the grid sees the row values without the editor's row key
+const rowValues = (row: DataRow) => {
+  const values: Record<string, unknown> = { ...row };
+  delete values[ROW_KEY];
+  return values;
+};
+
+const rowKeyGetter = (row: DataRow) => row[ROW_KEY];
+
+// Rows scanned to type columns that have no schema entry
+const TYPE_SAMPLE_ROWS = 1000;
+
+const commandLabel = (command: EditCommand, fallback: string) => {
+  if (command.type !== 'update_cells') return fallback;
+  return `Edited ${command.updates.length} cell${command.updates.length === 1 ? '' : 's'}`;
+};
+
+// Recomputes the computed cells of every row the command touched
+function computedUpdates(rows: DataRow[], command: EditCommand, columns: ComputedColumn[]): EditCommand {
+  if (columns.length === 0) return { type: 'update_cells', updates: [] };
+  const touched = touchedRowKeys(command);
+  const updates = rows
+    .filter(row => touched.has(row[ROW_KEY]))
+    .flatMap(row => Object.entries(computeRow(row, columns))
+      .filter(([column, value]) => !Object.is(row[column], value))
+      .map(([column, after]) => ({ rowKey: row[ROW_KEY], column, before: row[column], after })));
+  return { type: 'update_cells', updates };
 }
 
+// The field without its expression, so the column keeps its values as plain data
+const withoutExpression = (field: SchemaField): SchemaField => {
+  const plain = { ...field };
+  delete plain.expression;
+  return plain;
+};
+
 interface DataReviewEditorProps {
   initialData: any[];
-  onSave?: (data: any[]) => void;
+  // History saved with the dataset version being edited, restored so its edits can still be undone
+  initialHistory?: SavedEditHistory;
+  onSave?: (data: any[], history: SavedEditHistory) => void;
+  saveLabel?: string;
   onCancel?: () => void;
   onDataChange?: (data: any[]) => void;
+  // Column types for Parquet/Arrow export; inferred from the rows when omitted
+  schema?: DatasetSchema;
+  // Called when computed columns are added or stop being computed
+  onSchemaChange?: (schema: DatasetSchema) => void;
   metadata?: {
     rowsGenerated: number;
     qualityScore: number;
@@ -52,84 +121,159 @@ interface DataReviewEditorProps {
 
 export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
   initialData,
+  initialHistory,
   onSave,
+  saveLabel = 'Save & Download',
   onCancel,
   onDataChange,
+  schema,
+  onSchemaChange,
   metadata
 }) => {
+  const [restored] = useState(() => restoreHistory(initialHistory, initialData.length));
   const [data, setData] = useState<DataRow[]>(() => 
-    initialData.map((row, index) => ({ id: `row-${index}`, ...row }))
+    initialData.map((row, index) => ({ ...row, [ROW_KEY]: restored?.rowKeys[index] ?? `row-${index}` }))
   );
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
+  // Filtering 100k+ rows runs at low priority so typing in the search box stays responsive
+  const deferredSearch = useDeferredValue(searchTerm);
   
   const [nlPrompt, setNlPrompt] = useState('');
   const [isProcessingNL, setIsProcessingNL] = useState(false);
-  const [editHistory, setEditHistory] = useState<EditHistory[]>([]);
-  const [currentHistoryIndex, setCurrentHistoryIndex] = useState(-1);
+  // A model-proposed edit waiting for the user to review its diff
+  const [pendingEdit, setPendingEdit] = useState<{ plan: EditPlan; command: EditCommand; diff: DatasetDiff } | null>(null);
+  const modelConfig = useAtomValue(modelConfigAtom);
+  const [history, setHistory] = useState<EditHistoryState>(() =>
+    restored ? { entries: restored.entries, position: restored.position } : EMPTY_HISTORY
+  );
+  const undoEntry = history.position > 0 ? history.entries[history.position - 1] : null;
+  const redoEntry = history.entries[history.position] ?? null;
+
+  const [editorSchema, setEditorSchema] = useState(schema);
+  const [showComputed, setShowComputed] = useState(false);
+  const [computedName, setComputedName] = useState('');
+  const [computedExpression, setComputedExpression] = useState('');
+  const [computedError, setComputedError] = useState<string | null>(null);
+
+  // The profiler is built once per column and then follows every change
+  const [showProfile, setShowProfile] = useState(false);
+  const [profile, setProfile] = useState<ColumnProfile | null>(null);
+  const profilerRef = useRef<ColumnProfiler | null>(null);
+
+  // Columns only change when the set of keys does, not on every cell edit
+  const columnKeys = data.length > 0 ? Object.keys(data[0]).filter(key => key !== ROW_KEY).join('\u0000') : '';
+
+  // Computed columns whose values were undone away are left out until they are back
+  const activeSchema = useMemo(() => {
+    if (!editorSchema) return editorSchema;
+    const present = new Set(columnKeys.split('\u0000'));
+    const missing = Object.keys(editorSchema).filter(name => isComputedField(editorSchema[name]) && !present.has(name));
+    if (missing.length === 0) return editorSchema;
+    return Object.fromEntries(Object.entries(editorSchema).filter(([name]) => !missing.includes(name)));
+  }, [editorSchema, columnKeys]);
+
+  // The parent keeps the schema so later generations compute the same columns
+  const onSchemaChangeRef = useRef(onSchemaChange);
+  onSchemaChangeRef.current = onSchemaChange;
+  const reportedSchema = useRef(activeSchema);
+  useEffect(() => {
+    if (activeSchema === reportedSchema.current) return;
+    reportedSchema.current = activeSchema;
+    if (activeSchema) onSchemaChangeRef.current?.(activeSchema);
+  }, [activeSchema]);
+
+  // Schema types win; columns missing from it are typed from their current values
+  const fieldTypes = useMemo(
+    (): DatasetSchema => ({ ...schemaFromValues(initialData.slice(0, TYPE_SAMPLE_ROWS)), ...activeSchema }),
+    [initialData, activeSchema]
+  );
+
+  const handleProfileColumn = useCallback((column: string) => {
+    const profiler = new ColumnProfiler(column, data);
+    profilerRef.current = profiler;
+    setProfile(profiler.profile(fieldTypes[column]));
+  }, [data, fieldTypes]);
+
+  // Edits adjust the profile by the values they replace instead of rescanning the column
+  const trackProfile = useCallback((command: EditCommand) => {
+    const profiler = profilerRef.current;
+    if (!profiler) return;
+    profiler.apply(command);
+    setProfile(profiler.profile(fieldTypes[profiler.column]));
+  }, [fieldTypes]);
+
+  // A changed column type (a new computed column, say) changes which checks apply
+  useEffect(() => {
+    const profiler = profilerRef.current;
+    if (profiler) setProfile(profiler.profile(fieldTypes[profiler.column]));
+  }, [fieldTypes]);
+
+  const handleCloseProfile = () => {
+    setShowProfile(false);
+    setProfile(null);
+    profilerRef.current = null;
+  };
+
+  const computedColumns = useMemo(() => {
+    try {
+      return compileComputedColumns(fieldTypes);
+    } catch (error) {
+      console.warn('Computed columns disabled:', error);
+      return [];
+    }
+  }, [fieldTypes]);
 
   // Get column definitions from data
   const columns = useMemo((): Column<DataRow>[] => {
-    if (data.length === 0) return [];
-    
-    const sampleRow = data[0];
-    const baseColumns: Column<DataRow>[] = Object.keys(sampleRow)
-      .filter(key => key !== 'id')
-      .map(key => ({
-        key,
-        name: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1'),
-        resizable: true,
-        sortable: true,
-        editable: true,
-        width: 150,
-        renderEditCell: ({ row, onRowChange, column }: any) => (
-          <input
-            type="text"
-            value={row[column.key] || ''}
-            onChange={(e) => onRowChange({ ...row, [column.key]: e.target.value })}
-            className="w-full h-full px-2 bg-gray-700 text-white border-none outline-none"
-            autoFocus
-          />
-        )
-      }));
+    if (!columnKeys) return [];
+
+    const baseColumns: Column<DataRow>[] = columnKeys.split('\u0000').map(key => ({
+      key,
+      name: key.charAt(0).toUpperCase() + key.slice(1).replace(/([A-Z])/g, ' $1') + (isComputedField(fieldTypes[key]) ? ' ƒ' : ''),
+      resizable: true,
+      sortable: true,
+      // Computed cells follow their expression
+      editable: !isComputedField(fieldTypes[key]),
+      width: 150,
+      formatter: CellValue,
+      editor: (props: CellEditorProps) => <TypedCellEditor {...props} field={fieldTypes[key]} />,
+      editorOptions: { commitOnOutsideClick: true }
+    }));
 
     return [SelectColumn, ...baseColumns];
-  }, [data]);
+  }, [columnKeys, fieldTypes]);
 
   // Filtered data based on search
   const filteredData = useMemo(() => {
-    if (!searchTerm) return data;
-    
+    if (!deferredSearch) return data;
+    const term = deferredSearch.toLowerCase();
+
     return data.filter(row =>
-      Object.values(row).some(value =>
-        String(value).toLowerCase().includes(searchTerm.toLowerCase())
+      Object.entries(row).some(([key, value]) =>
+        key !== ROW_KEY && String(value).toLowerCase().includes(term)
       )
     );
-  }, [data, searchTerm]);
-
-  // Add to edit history
-  const addToHistory = useCallback((action: string, changes: any, description: string) => {
-    const historyEntry: EditHistory = {
-      id: `edit-${Date.now()}`,
-      timestamp: new Date().toISOString(),
-      action,
-      changes,
-      description
-    };
-    
-    setEditHistory(prev => [...prev.slice(0, currentHistoryIndex + 1), historyEntry]);
-    setCurrentHistoryIndex(prev => prev + 1);
-  }, [currentHistoryIndex]);
-
-  const handleRowsChange = useCallback((rows: DataRow[]) => {
-    const oldData = data;
+  }, [data, deferredSearch]);
+
+  // Every change goes through here so it is recorded and can be undone, with computed cells kept current
+  const execute = useCallback((label: string, command: EditCommand, columns: ComputedColumn[] = computedColumns) => {
+    if (isEmptyCommand(command)) return;
+    const applied = applyCommand(data, command);
+    const refresh = computedUpdates(applied, command, columns);
+    const recorded: EditCommand = isEmptyCommand(refresh) ? command : { type: 'batch', commands: [command, refresh] };
+    const rows = isEmptyCommand(refresh) ? applied : applyCommand(applied, refresh);
     setData(rows);
-    onDataChange?.(rows.map(row => {
-      const { id, ...rest } = row;
-      return rest;
-    }));
-    addToHistory('edit_cells', { old: oldData, new: rows }, 'Manual cell edit');
-  }, [data, addToHistory, onDataChange]);
+    setHistory(current => pushEntry(current, label, recorded));
+    trackProfile(recorded);
+    onDataChange?.(rows.map(rowValues));
+  }, [data, onDataChange, computedColumns, trackProfile]);
+
+  // The grid only sees the filtered rows, and only the changed indexes need diffing
+  const handleRowsChange = useCallback((rows: DataRow[], { indexes }: { indexes: number[] }) => {
+    const command = diffToCommand(indexes.map(index => filteredData[index]), indexes.map(index => rows[index]));
+    execute(commandLabel(command, 'Edited cells'), command);
+  }, [filteredData, execute]);
 
   const handleDeleteRows = useCallback(() => {
     if (selectedRows.size === 0) {
@@ -137,33 +281,29 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
       return;
     }
 
-    // const oldData = data;
-    const newData = data.filter(row => !selectedRows.has(row.id));
-    setData(newData);
+    const deleted = data.flatMap((row, index) => (selectedRows.has(row[ROW_KEY]) ? [{ index, row }] : []));
+    execute(`Deleted ${deleted.length} rows`, { type: 'delete_rows', rows: deleted });
     setSelectedRows(new Set());
-    addToHistory('delete_rows', { deleted: Array.from(selectedRows) }, `Deleted ${selectedRows.size} rows`);
     
-    toast.success(`Deleted ${selectedRows.size} rows`);
-  }, [data, selectedRows, addToHistory]);
+    toast.success(`Deleted ${deleted.length} rows`);
+  }, [data, selectedRows, execute]);
 
   const handleAddRow = useCallback(() => {
-    const newRow: DataRow = { id: `row-${Date.now()}` };
+    const newRow: DataRow = { [ROW_KEY]: createRowKey() };
     
     // Add empty values for all existing columns
     if (data.length > 0) {
       Object.keys(data[0]).forEach(key => {
-        if (key !== 'id') {
+        if (key !== ROW_KEY) {
           newRow[key] = '';
         }
       });
     }
     
-    const newData = [...data, newRow];
-    setData(newData);
-    addToHistory('add_row', { added: newRow }, 'Added new row');
+    execute('Added new row', { type: 'insert_rows', rows: [{ index: data.length, row: newRow }] });
     
     toast.success('Added new row');
-  }, [data, addToHistory]);
+  }, [data, execute]);
 
   const handleDuplicateRows = useCallback(() => {
     if (selectedRows.size === 0) {
@@ -171,108 +311,144 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
       return;
     }
 
-    const rowsToDuplicate = data.filter(row => selectedRows.has(row.id));
-    const duplicatedRows = rowsToDuplicate.map(row => ({
-      ...row,
-      id: `row-${Date.now()}-${Math.random()}`
-    }));
-    
-    const newData = [...data, ...duplicatedRows];
-    setData(newData);
+    const duplicatedRows = data
+      .filter(row => selectedRows.has(row[ROW_KEY]))
+      .map((row, index) => ({ index: data.length + index, row: { ...row, [ROW_KEY]: createRowKey() } }));
+    execute(`Duplicated ${duplicatedRows.length} rows`, { type: 'insert_rows', rows: duplicatedRows });
     setSelectedRows(new Set());
-    addToHistory('duplicate_rows', { duplicated: duplicatedRows }, `Duplicated ${selectedRows.size} rows`);
     
-    toast.success(`Duplicated ${selectedRows.size} rows`);
-  }, [data, selectedRows, addToHistory]);
+    toast.success(`Duplicated ${duplicatedRows.length} rows`);
+  }, [data, selectedRows, execute]);
 
   const handleNaturalLanguageEdit = async () => {
     if (!nlPrompt.trim()) {
       toast.error('Please enter a modification request');
       return;
     }
+    if (!modelConfig) {
+      toast.error('Natural language edits need an AI model. Configure one in Settings first.');
+      return;
+    }
 
     setIsProcessingNL(true);
-    
+    setPendingEdit(null);
+
     try {
-      // Simulate natural language processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock NL processing results
-      let newData = [...data];
-      const prompt = nlPrompt.toLowerCase();
-      
-      if (prompt.includes('age') && prompt.includes('realistic')) {
-        // Make ages more realistic
-        newData = newData.map(row => ({
-          ...row,
-          age: row.age ? Math.max(18, Math.min(85, Number(row.age) + Math.floor(Math.random() * 10 - 5))) : row.age
-        }));
-        addToHistory('nl_edit', { prompt: nlPrompt }, 'Made ages more realistic');
-      } else if (prompt.includes('name') && prompt.includes('diverse')) {
-        // Make names more diverse
-        const diverseNames = ['Maria Garcia', 'Wei Chen', 'Aisha Patel', 'Omar Hassan', 'Sofia Rodriguez'];
-        newData = newData.map((row, index) => ({
-          ...row,
-          name: row.name ? diverseNames[index % diverseNames.length] : row.name
-        }));
-        addToHistory('nl_edit', { prompt: nlPrompt }, 'Made names more diverse');
-      } else if (prompt.includes('email') && prompt.includes('fix')) {
-        // Fix email formats
-        newData = newData.map(row => ({
-          ...row,
-          email: row.email ? row.email.toLowerCase().replace(/\s/g, '') : row.email
-        }));
-        addToHistory('nl_edit', { prompt: nlPrompt }, 'Fixed email formats');
-      } else {
-        // Generic improvement
-        addToHistory('nl_edit', { prompt: nlPrompt }, `Applied: ${nlPrompt}`);
+      const rows = data.map(rowValues);
+      const plan = await requestEditPlan(new LLMClient(modelConfig), nlPrompt.trim(), rows, activeSchema);
+      if (plan.operations.length === 0) {
+        toast.error(`No edits proposed: ${plan.summary}`);
+        return;
       }
-      
-      setData(newData);
-      setNlPrompt('');
-      toast.success('Natural language modification applied successfully!');
-      
+
+      const editedRows = applyEditPlan<DataRow>(data, plan, values => ({ ...values, [ROW_KEY]: createRowKey() }));
+      // Rows are matched on the editor's own row keys, so filters and additions line up
+      setPendingEdit({
+        plan,
+        command: diffToCommand(data, editedRows),
+        diff: diffDatasets({ data }, { data: editedRows }, ROW_KEY)
+      });
     } catch (error) {
-      toast.error('Failed to process natural language request');
+      toast.error(`Failed to process natural language request: ${(error as Error).message}`);
     } finally {
       setIsProcessingNL(false);
     }
   };
 
-  const handleUndo = useCallback(() => {
-    if (currentHistoryIndex >= 0) {
-      const historyEntry = editHistory[currentHistoryIndex];
-      
-      if (historyEntry.action === 'edit_cells') {
-        setData(historyEntry.changes.old);
-      } else if (historyEntry.action === 'delete_rows') {
-        // Restore deleted rows (simplified implementation)
-        toast.info('Undo for delete rows not implemented in this demo');
-      }
-      
-      setCurrentHistoryIndex(prev => prev - 1);
-      toast.success('Undid last action');
+  const handleApplyEdit = () => {
+    if (!pendingEdit) return;
+    const { plan, command } = pendingEdit;
+
+    execute(plan.summary, command);
+    setPendingEdit(null);
+    setNlPrompt('');
+    toast.success(`Applied: ${plan.summary}`);
+  };
+
+  const handleAddComputedColumn = () => {
+    const name = computedName.trim();
+    const expression = computedExpression.trim();
+    if (!name || !expression) {
+      setComputedError('Enter a column name and an expression');
+      return;
     }
-  }, [currentHistoryIndex, editHistory]);
+
+    let columns: ComputedColumn[];
+    try {
+      columns = compileComputedColumns({ ...fieldTypes, [name]: { type: fieldTypes[name]?.type ?? 'string', expression } });
+    } catch (error) {
+      setComputedError((error as Error).message);
+      return;
+    }
+
+    const values = data.map(row => computeRow(row, columns)[name]);
+    const inferred: SchemaField = schemaFromValues(values.slice(0, TYPE_SAMPLE_ROWS).map(value => ({ [name]: value })))[name] ?? { type: 'string' };
+    const field: SchemaField = { ...(editorSchema?.[name] ?? inferred), expression };
+    const updates = data.flatMap((row, index) =>
+      Object.is(row[name], values[index]) ? [] : [{ rowKey: row[ROW_KEY], column: name, before: row[name], after: values[index] }]
+    );
+
+    execute(`Computed ${name}`, { type: 'update_cells', updates }, columns);
+    // Without a schema the inferred column types become one, so the expression has a place to live
+    setEditorSchema({ ...(editorSchema ?? fieldTypes), [name]: field });
+    setComputedName('');
+    setComputedExpression('');
+    setComputedError(null);
+
+    const empty = values.filter(value => value === null).length;
+    toast.success(empty > 0 ? `Computed ${name}; ${empty} rows have no value` : `Computed ${name}`);
+  };
+
+  const handleStopComputing = (name: string) => {
+    if (!editorSchema?.[name]) return;
+    setEditorSchema({ ...editorSchema, [name]: withoutExpression(editorSchema[name]) });
+    toast.success(`${name} keeps its current values and is no longer computed`);
+  };
+
+  const handleUndo = useCallback(() => {
+    if (!undoEntry) return;
+    const inverse = invertCommand(undoEntry.command);
+    const rows = applyCommand(data, inverse);
+    setData(rows);
+    setHistory(current => ({ ...current, position: current.position - 1 }));
+    trackProfile(inverse);
+    onDataChange?.(rows.map(rowValues));
+    toast.success(`Undid: ${undoEntry.label}`);
+  }, [data, undoEntry, onDataChange, trackProfile]);
 
   const handleRedo = useCallback(() => {
-    if (currentHistoryIndex < editHistory.length - 1) {
-      setCurrentHistoryIndex(prev => prev + 1);
-      const historyEntry = editHistory[currentHistoryIndex + 1];
-      
-      if (historyEntry.action === 'edit_cells') {
-        setData(historyEntry.changes.new);
+    if (!redoEntry) return;
+    const rows = applyCommand(data, redoEntry.command);
+    setData(rows);
+    setHistory(current => ({ ...current, position: current.position + 1 }));
+    trackProfile(redoEntry.command);
+    onDataChange?.(rows.map(rowValues));
+    toast.success(`Redid: ${redoEntry.label}`);
+  }, [data, redoEntry, onDataChange, trackProfile]);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
       }
-      
-      toast.success('Redid action');
-    }
-  }, [currentHistoryIndex, editHistory]);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
-  const handleExport = useCallback((format: 'csv' | 'json' | 'xlsx') => {
-    const exportData = data.map(row => {
-      const { id, ...rest } = row;
-      return rest;
-    });
+  const handleExport = useCallback((format: 'csv' | 'json' | 'xlsx' | 'parquet' | 'arrow') => {
+    const exportData = data.map(rowValues);
 
     let blob: Blob;
     let filename: string;
@@ -295,21 +471,22 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
         blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
         filename = `edited_data_${Date.now()}.xlsx`;
         break;
+      case 'parquet':
+        blob = new Blob([writeParquet(exportData, activeSchema)], { type: COLUMNAR_MIME_TYPES.parquet });
+        filename = `edited_data_${Date.now()}.parquet`;
+        break;
+      case 'arrow':
+        blob = new Blob([writeArrow(exportData, activeSchema)], { type: COLUMNAR_MIME_TYPES.arrow });
+        filename = `edited_data_${Date.now()}.arrow`;
+        break;
       default:
         return;
     }
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
     
     toast.success(`Exported as ${format.toUpperCase()}`);
-  }, [data]);
+  }, [data, activeSchema]);
 
   return (
     <div className="h-full flex flex-col bg-gray-900">
@@ -359,24 +536,47 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
           <div className="flex gap-2">
             <button
               onClick={handleUndo}
-              disabled={currentHistoryIndex < 0}
+              disabled={!undoEntry}
               className="p-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              title="Undo"
+              title={undoEntry ? `Undo: ${undoEntry.label} (Ctrl+Z)` : 'Undo'}
             >
               <Undo className="w-4 h-4" />
             </button>
             
             <button
               onClick={handleRedo}
-              disabled={currentHistoryIndex >= editHistory.length - 1}
+              disabled={!redoEntry}
               className="p-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              title="Redo"
+              title={redoEntry ? `Redo: ${redoEntry.label} (Ctrl+Shift+Z)` : 'Redo'}
             >
               <Redo className="w-4 h-4" />
             </button>
 
             <div className="w-px h-8 bg-gray-600"></div>
 
+            <button
+              onClick={() => setShowComputed(show => !show)}
+              className={`p-2 text-white rounded-lg transition-colors ${showComputed ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+              title="Computed Columns"
+            >
+              <Sigma className="w-4 h-4" />
+            </button>
+
+            <button
+              onClick={() => {
+                if (showProfile) {
+                  handleCloseProfile();
+                } else {
+                  setShowProfile(true);
+                  if (columnKeys) handleProfileColumn(columnKeys.split('\u0000')[0]);
+                }
+              }}
+              className={`p-2 text-white rounded-lg transition-colors ${showProfile ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+              title="Column Profile"
+            >
+              <BarChart3 className="w-4 h-4" />
+            </button>
+
             <button
               onClick={handleAddRow}
               className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -405,6 +605,74 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
           </div>
         </div>
 
+        {showComputed && (
+          <div className="mt-4 p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
+            <div className="flex items-center gap-2 mb-2">
+              <Sigma className="w-4 h-4 text-purple-400" />
+              <span className="text-sm font-medium text-white">Computed Columns</span>
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={computedName}
+                onChange={(e) => setComputedName(e.target.value)}
+                placeholder="total"
+                className="w-40 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <span className="self-center text-gray-400">=</span>
+              <input
+                type="text"
+                value={computedExpression}
+                onChange={(e) => {
+                  setComputedExpression(e.target.value);
+                  setComputedError(null);
+                }}
+                placeholder={'quantity * unit_price, or if(age < 18, "minor", "adult")'}
+                className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                onKeyPress={(e) => e.key === 'Enter' && handleAddComputedColumn()}
+              />
+              <button
+                onClick={handleAddComputedColumn}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                {isComputedField(activeSchema?.[computedName.trim()]) ? 'Update' : 'Add'}
+              </button>
+            </div>
+            {computedError && <p className="mt-2 text-xs text-red-400">{computedError}</p>}
+            <p className="mt-2 text-xs text-gray-400">
+              Use + - * / % ^, &amp; to join text, comparisons with and/or/not, and [brackets] for names with spaces.
+              Functions: {EXPRESSION_FUNCTIONS.join(', ')}.
+            </p>
+
+            {activeSchema && Object.keys(activeSchema).some(name => isComputedField(activeSchema[name])) && (
+              <ul className="mt-3 space-y-1">
+                {Object.entries(activeSchema).filter(([, field]) => isComputedField(field)).map(([name, field]) => (
+                  <li key={name} className="flex items-center gap-2 text-sm">
+                    <button
+                      onClick={() => {
+                        setComputedName(name);
+                        setComputedExpression(field.expression ?? '');
+                      }}
+                      className="flex-1 min-w-0 text-left truncate font-mono text-gray-300 hover:text-white"
+                      title="Edit expression"
+                    >
+                      <span className="text-white">{name}</span> = {field.expression}
+                    </button>
+                    <button
+                      onClick={() => handleStopComputing(name)}
+                      className="px-2 py-1 bg-gray-700 text-white rounded hover:bg-gray-600 transition-colors text-xs"
+                      title="Keep the current values and stop recomputing them"
+                    >
+                      Stop computing
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Natural Language Editor */}
         <div className="mt-4 p-4 bg-gray-800/50 rounded-lg border border-gray-700/50">
           <div className="flex items-center gap-2 mb-2">
@@ -416,7 +684,7 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
               type="text"
               value={nlPrompt}
               onChange={(e) => setNlPrompt(e.target.value)}
-              placeholder="e.g., 'Make ages more realistic', 'Fix email formats', 'Make names more diverse'"
+              placeholder="e.g., 'Cap ages at 85', 'Lowercase every email', 'Remove rows without a country'"
               className="flex-1 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
               onKeyPress={(e) => e.key === 'Enter' && handleNaturalLanguageEdit()}
             />
@@ -430,30 +698,87 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
               ) : (
                 <Wand2 className="w-4 h-4" />
               )}
-              {isProcessingNL ? 'Processing...' : 'Apply'}
+              {isProcessingNL ? 'Planning...' : 'Preview'}
             </button>
           </div>
+          {!modelConfig && (
+            <p className="mt-2 text-xs text-gray-400">Configure an AI model in Settings to edit with natural language.</p>
+          )}
+
+          {pendingEdit && (
+            <div className="mt-4 space-y-3 max-h-96 overflow-y-auto">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-sm text-white">{pendingEdit.plan.summary}</p>
+                  <ul className="mt-1 text-xs text-gray-400 list-disc list-inside">
+                    {pendingEdit.plan.operations.map((op, index) => (
+                      <li key={index}>{describeOperation(op)}</li>
+                    ))}
+                  </ul>
+                  {pendingEdit.plan.skipped.length > 0 && (
+                    <ul className="mt-1 text-xs text-yellow-400">
+                      {pendingEdit.plan.skipped.map(reason => (
+                        <li key={reason}>Skipped {reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => setPendingEdit(null)}
+                    className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm flex items-center gap-1"
+                  >
+                    <X className="w-4 h-4" />
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleApplyEdit}
+                    className="px-3 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all text-sm flex items-center gap-1"
+                  >
+                    <Check className="w-4 h-4" />
+                    Apply
+                  </button>
+                </div>
+              </div>
+              <DatasetDiffView diff={pendingEdit.diff} beforeLabel="current data" afterLabel="edited data" />
+            </div>
+          )}
         </div>
       </div>
 
       {/* Data Grid */}
-      <div className="flex-1 overflow-hidden">
-        <DataGrid
-          columns={columns}
-          rows={filteredData}
-          onRowsChange={handleRowsChange}
-          selectedRows={selectedRows}
-          onSelectedRowsChange={setSelectedRows}
-          className="rdg-dark h-full"
-          style={{
-            '--rdg-color': '#ffffff',
-            '--rdg-background-color': '#1f2937',
-            '--rdg-header-background-color': '#374151',
-            '--rdg-row-hover-background-color': '#4b5563',
-            '--rdg-row-selected-background-color': '#6366f1',
-            '--rdg-border-color': '#4b5563',
-          } as any}
-        />
+      <div className="flex-1 overflow-hidden flex">
+        <div className="flex-1 min-w-0 h-full">
+          <DataGrid
+            columns={columns}
+            rows={filteredData}
+            rowKeyGetter={rowKeyGetter}
+            onRowsChange={handleRowsChange}
+            selectedRows={selectedRows}
+            onSelectedRowsChange={setSelectedRows}
+            onCellClick={({ column }: { column: { key: string } }) => {
+              if (showProfile && column.key !== SelectColumn.key && column.key !== profile?.column) handleProfileColumn(column.key);
+            }}
+            className="rdg-dark h-full"
+            style={{
+              '--rdg-color': '#ffffff',
+              '--rdg-background-color': '#1f2937',
+              '--rdg-header-background-color': '#374151',
+              '--rdg-row-hover-background-color': '#4b5563',
+              '--rdg-row-selected-background-color': '#6366f1',
+              '--rdg-border-color': '#4b5563',
+            } as any}
+          />
+        </div>
+
+        {showProfile && (
+          <ColumnProfilePanel
+            profile={profile}
+            columns={columnKeys ? columnKeys.split('\u0000') : []}
+            onSelect={handleProfileColumn}
+            onClose={handleCloseProfile}
+          />
+        )}
       </div>
 
       {/* Footer */}
@@ -463,9 +788,9 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
             <span className="text-sm text-gray-400">
               {selectedRows.size > 0 && `${selectedRows.size} rows selected`}
             </span>
-            {editHistory.length > 0 && (
+            {history.entries.length > 0 && (
               <span className="text-sm text-gray-400">
-                {editHistory.length} edits made
+                {history.position} of {history.entries.length} edits applied
               </span>
             )}
           </div>
@@ -490,6 +815,18 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
               >
                 Excel
               </button>
+              <button
+                onClick={() => handleExport('parquet')}
+                className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Parquet
+              </button>
+              <button
+                onClick={() => handleExport('arrow')}
+                className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors text-sm"
+              >
+                Arrow
+              </button>
             </div>
 
             <button
@@ -500,14 +837,11 @@ export const DataReviewEditor: React.FC<DataReviewEditorProps> = ({
             </button>
             
             <button
-              onClick={() => onSave?.(data.map(row => {
-                const { id, ...rest } = row;
-                return rest;
-              }))}
+              onClick={() => onSave?.(data.map(rowValues), { ...history, rowKeys: data.map(row => row[ROW_KEY]) })}
               className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all flex items-center gap-2"
             >
               <Save className="w-4 h-4" />
-              Save & Download
+              {saveLabel}
             </button>
           </div>
         </div>
@@ -0,0 +1,67 @@
+import { useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+}
+
+// Edits with the same key this close together (typing into one input) form a single undo step
+const COALESCE_MS = 1000;
+
+export const useUndoHistory = <T>(initial: T | (() => T), limit = 100) => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastAt: 0
+  }));
+
+  const update = useCallback((change: (current: T) => T, coalesceKey?: string) => {
+    setHistory(current => {
+      const next = change(current.present);
+      if (Object.is(next, current.present)) return current;
+      const now = Date.now();
+      const merge = coalesceKey !== undefined && coalesceKey === current.lastKey && now - current.lastAt < COALESCE_MS;
+      return {
+        past: merge ? current.past : [...current.past, current.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKey: coalesceKey ?? null,
+        lastAt: now
+      };
+    });
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    setHistory(current => current.past.length === 0 ? current : {
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present, ...current.future],
+      lastKey: null,
+      lastAt: 0
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(current => current.future.length === 0 ? current : {
+      past: [...current.past, current.present],
+      present: current.future[0],
+      future: current.future.slice(1),
+      lastKey: null,
+      lastAt: 0
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    update,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
@@ -76,11 +76,12 @@ export class ApiService {
     config: any;
     description?: string;
     sourceData?: any[];
-  }): Promise<any> {
+  }, signal?: AbortSignal): Promise<any> {
     try {
       // Use generate-local with extended timeout for AI processing
       const response = await api.post('/generation/generate-local', data, {
         timeout: 180000, // 3 minutes for complex AI generation
+        signal,
       });
       return response.data;
     } catch (error) {
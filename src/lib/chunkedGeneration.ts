@@ -0,0 +1,223 @@
+/**
+ * Chunked generation pipeline
+ * Splits large row counts into model-sized requests and stitches the results
+ * back together while keeping unique fields and ID sequences consistent.
+ * Completed chunks can be checkpointed so an interrupted run resumes where it
+ * stopped instead of starting over.
+ */
+
+import type { DatasetSchema } from './schema';
+
+// Largest batch the AI providers reliably return in a single response
+export const MAX_ROWS_PER_CHUNK = 100;
+
+// How many consecutive chunks may come back without a usable row before giving up
+const MAX_EMPTY_CHUNKS = 3;
+
+// Failed chunk requests are retried this many times, waiting a little longer each time
+const DEFAULT_CHUNK_RETRIES = 2;
+const RETRY_DELAY_MS = 1500;
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface ChunkRequest {
+  chunkIndex: number;
+  rowCount: number;
+  startIndex: number;
+}
+
+export interface ChunkProgress {
+  chunkIndex: number;
+  totalChunks: number;
+  rowsGenerated: number;
+  totalRows: number;
+  progress: number;
+}
+
+/**
+ * Rows accepted by an earlier run plus a hook that persists each newly
+ * completed chunk; the run continues after the restored rows.
+ */
+export interface ChunkCheckpoint<T> {
+  rows: T[];
+  chunks: number;
+  save: (rows: T[], chunkIndex: number) => Promise<void>;
+}
+
+// Checkpoints for the independently generated parts of a run, one per table
+export interface CheckpointStore {
+  forPart: (part: string) => ChunkCheckpoint<Record<string, unknown>>;
+}
+
+export interface ChunkedGenerationOptions<T> {
+  totalRows: number;
+  schema?: DatasetSchema;
+  chunkSize?: number;
+  generateChunk: (request: ChunkRequest) => Promise<T[]>;
+  onProgress?: (progress: ChunkProgress) => void;
+  checkpoint?: ChunkCheckpoint<T>;
+  signal?: AbortSignal;
+  retries?: number;
+}
+
+export interface ChunkedGenerationResult<T> {
+  data: T[];
+  chunks: T[][];
+  droppedDuplicates: number;
+}
+
+const isIdField = (name: string) => /(^id$|_id$|[a-z]Id$)/.test(name);
+
+const SEQUENCE_TYPES = ['number', 'integer', 'string'];
+
+/**
+ * The primary key, whose values must increase monotonically across chunks. Each
+ * chunk is generated independently, so the model restarts its numbering every
+ * time. Foreign keys and other references keep the values they were given.
+ */
+export function detectSequenceFields(schema: DatasetSchema = {}): string[] {
+  const candidates = Object.entries(schema).filter(([, field]) =>
+    SEQUENCE_TYPES.includes(field.type) && !field.reference
+  );
+  const id = candidates.find(([name, field]) => name === 'id' && field.constraints?.unique !== false);
+  const unique = candidates.filter(([, field]) => field.constraints?.unique === true);
+  const key = id ?? unique.find(([name]) => isIdField(name)) ?? unique[0];
+  return key ? [key[0]] : [];
+}
+
+export function detectUniqueFields(schema: DatasetSchema = {}): string[] {
+  return Object.entries(schema)
+    .filter(([, field]) => field.constraints?.unique === true || field.type === 'uuid')
+    .map(([name]) => name);
+}
+
+/**
+ * Renumbers an ID while keeping its shape: 7 -> 1042, "0007" -> "1042",
+ * "CUST-0007" -> "CUST-1042". Other strings, like "john42", are left alone.
+ */
+function resequence(value: unknown, sequence: number): unknown {
+  if (typeof value === 'number') return sequence;
+  if (typeof value === 'string') {
+    const match = value.match(/^((?:[A-Za-z]+[-_#/:.])*)(\d+)$/);
+    if (match) {
+      return `${match[1]}${String(sequence).padStart(match[2].length, '0')}`;
+    }
+    if (/^\s*$/.test(value)) return String(sequence);
+  }
+  return value;
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    }, { once: true });
+  });
+
+async function requestChunk<T>(
+  generateChunk: (request: ChunkRequest) => Promise<T[]>,
+  request: ChunkRequest,
+  retries: number,
+  signal?: AbortSignal
+): Promise<T[]> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new GenerationCancelledError();
+    try {
+      return await generateChunk(request);
+    } catch (error) {
+      if (signal?.aborted || error instanceof GenerationCancelledError) throw new GenerationCancelledError();
+      if (attempt >= retries) throw error;
+      console.warn(`Chunk ${request.chunkIndex + 1} failed, retrying (${attempt + 1}/${retries}):`, error);
+      await wait(RETRY_DELAY_MS * (attempt + 1), signal);
+    }
+  }
+}
+
+export async function generateInChunks<T extends Record<string, unknown>>(
+  options: ChunkedGenerationOptions<T>
+): Promise<ChunkedGenerationResult<T>> {
+  const { totalRows, schema = {}, generateChunk, onProgress, checkpoint, signal } = options;
+  const chunkSize = Math.max(1, Math.min(options.chunkSize || MAX_ROWS_PER_CHUNK, MAX_ROWS_PER_CHUNK));
+  const retries = options.retries ?? DEFAULT_CHUNK_RETRIES;
+
+  const sequenceFields = detectSequenceFields(schema);
+  const uniqueFields = detectUniqueFields(schema).filter(field => !sequenceFields.includes(field));
+  const seen = new Map<string, Set<string>>(uniqueFields.map(field => [field, new Set<string>()]));
+
+  // Restored rows were already deduplicated and resequenced when first accepted
+  const data: T[] = checkpoint ? checkpoint.rows.slice(0, totalRows) : [];
+  data.forEach(row => uniqueFields.forEach(field => {
+    if (row[field] !== undefined && row[field] !== null) seen.get(field)!.add(String(row[field]));
+  }));
+  const chunks: T[][] = data.length ? [data.slice()] : [];
+  let droppedDuplicates = 0;
+  let emptyChunks = 0;
+  let chunkIndex = checkpoint?.chunks ?? 0;
+
+  while (data.length < totalRows) {
+    const rowCount = Math.min(chunkSize, totalRows - data.length);
+    const batch = await requestChunk(generateChunk, { chunkIndex, rowCount, startIndex: data.length }, retries, signal);
+
+    if (!Array.isArray(batch)) {
+      throw new Error(`Chunk ${chunkIndex + 1} returned an invalid data format`);
+    }
+
+    const accepted: T[] = [];
+    for (const original of batch.slice(0, rowCount)) {
+      const isDuplicate = uniqueFields.some(field => {
+        const value = original?.[field];
+        return value !== undefined && value !== null && seen.get(field)!.has(String(value));
+      });
+      if (isDuplicate) {
+        droppedDuplicates++;
+        continue;
+      }
+
+      const row: Record<string, unknown> = { ...original };
+      sequenceFields.forEach(field => {
+        row[field] = resequence(row[field], data.length + 1);
+      });
+      uniqueFields.forEach(field => {
+        if (row[field] !== undefined && row[field] !== null) {
+          seen.get(field)!.add(String(row[field]));
+        }
+      });
+
+      data.push(row as T);
+      accepted.push(row as T);
+    }
+
+    chunks.push(accepted);
+    if (signal?.aborted) throw new GenerationCancelledError();
+    await checkpoint?.save(accepted, chunkIndex);
+
+    if (accepted.length === 0) {
+      emptyChunks++;
+      if (emptyChunks >= MAX_EMPTY_CHUNKS) {
+        throw new Error(
+          `Generation stalled after ${data.length} of ${totalRows} rows: ${MAX_EMPTY_CHUNKS} consecutive chunks produced no unique rows`
+        );
+      }
+    } else {
+      emptyChunks = 0;
+    }
+
+    chunkIndex++;
+    onProgress?.({
+      chunkIndex,
+      totalChunks: chunkIndex + Math.ceil((totalRows - data.length) / chunkSize),
+      rowsGenerated: data.length,
+      totalRows,
+      progress: Math.round((data.length / totalRows) * 100)
+    });
+  }
+
+  return { data, chunks, droppedDuplicates };
+}
@@ -0,0 +1,323 @@
+/**
+ * Column profiling
+ * Summary statistics for one column of the review grid: nulls, distinct and
+ * top values, a histogram, range and mean, schema conformance, value shapes
+ * and IQR outliers. The profiler keeps a count per distinct value, so an edit
+ * adjusts the counts of the values it replaced instead of rescanning the rows.
+ */
+
+import { validateValue, type ViolationRule } from './dataValidation';
+import type { EditCommand } from './editHistory';
+import type { SchemaField } from './schema';
+
+export type ProfileKind = 'numeric' | 'date' | 'boolean' | 'text';
+
+export interface ValueCount {
+  value: unknown;
+  count: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export interface ConformanceIssue {
+  rule: ViolationRule;
+  count: number;
+  examples: unknown[];
+}
+
+export interface ColumnProfile {
+  column: string;
+  kind: ProfileKind;
+  rows: number;
+  nulls: number;
+  distinct: number;
+  // Numbers and dates describe the values, text its length
+  measure: 'value' | 'length';
+  min?: number | string;
+  max?: number | string;
+  mean?: number | string;
+  std?: number;
+  // Bins over the range for numbers and dates, most common values otherwise
+  histogram: HistogramBin[];
+  topValues: ValueCount[];
+  // Non-null values checked against the field definition, and what failed
+  conformance?: { checked: number; passing: number; issues: ConformanceIssue[] };
+  // Most common character shapes of text values, e.g. "AAA-9999"
+  shapes: { shape: string; count: number }[];
+  outliers?: { count: number; low: number | string; high: number | string; examples: unknown[] };
+}
+
+const TOP_VALUES = 10;
+const HISTOGRAM_BINS = 12;
+const MAX_EXAMPLES = 5;
+// Shapes are only worth showing for short, structured text
+const MAX_SHAPE_LENGTH = 40;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Distinct values are keyed by type and content, so 1 and "1" stay apart
+const valueKey = (value: unknown) =>
+  `${typeof value}:${typeof value === 'object' ? JSON.stringify(value) : String(value)}`;
+
+const toTime = (value: unknown) =>
+  typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+
+const shapeOf = (value: unknown) =>
+  String(value).replace(/[A-Z]/g, 'A').replace(/[a-z]/g, 'a').replace(/\d/g, '9');
+
+function profileKind(field: SchemaField | undefined, values: ValueCount[]): ProfileKind {
+  switch (field?.type) {
+    case 'number':
+    case 'integer':
+      return 'numeric';
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'boolean':
+      return 'boolean';
+    case undefined:
+      if (values.length > 0 && values.every(({ value }) => typeof value === 'number')) return 'numeric';
+      if (values.length > 0 && values.every(({ value }) => typeof value === 'boolean')) return 'boolean';
+      return 'text';
+    default:
+      return 'text';
+  }
+}
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export class ColumnProfiler {
+  readonly column: string;
+  private counts = new Map<string, ValueCount>();
+  private nulls = 0;
+  private rows = 0;
+  // Conformance per distinct value, valid while the field definition is unchanged
+  private checks = new Map<string, ViolationRule[]>();
+  private checkedField?: SchemaField;
+
+  constructor(column: string, rows: Record<string, unknown>[]) {
+    this.column = column;
+    rows.forEach(row => this.add(row[column]));
+  }
+
+  private add(value: unknown) {
+    this.rows++;
+    if (isBlank(value)) {
+      this.nulls++;
+      return;
+    }
+    const key = valueKey(value);
+    const entry = this.counts.get(key);
+    if (entry) entry.count++;
+    else this.counts.set(key, { value, count: 1 });
+  }
+
+  private remove(value: unknown) {
+    this.rows--;
+    if (isBlank(value)) {
+      this.nulls--;
+      return;
+    }
+    const key = valueKey(value);
+    const entry = this.counts.get(key);
+    if (!entry) return;
+    if (--entry.count === 0) this.counts.delete(key);
+  }
+
+  // Replays an editor command on the counts; undo passes the inverted command
+  apply(command: EditCommand) {
+    switch (command.type) {
+      case 'update_cells':
+        command.updates
+          .filter(update => update.column === this.column)
+          .forEach(({ before, after }) => {
+            this.remove(before);
+            this.add(after);
+          });
+        break;
+      case 'delete_rows':
+        command.rows.forEach(({ row }) => this.remove(row[this.column]));
+        break;
+      case 'insert_rows':
+        command.rows.forEach(({ row }) => this.add(row[this.column]));
+        break;
+      case 'batch':
+        command.commands.forEach(part => this.apply(part));
+        break;
+    }
+  }
+
+  private violations(field: SchemaField, key: string, value: unknown): ViolationRule[] {
+    if (field !== this.checkedField) {
+      this.checks.clear();
+      this.checkedField = field;
+    }
+    let rules = this.checks.get(key);
+    if (!rules) {
+      rules = [...new Set(validateValue(this.column, field, value).map(violation => violation.rule))];
+      this.checks.set(key, rules);
+    }
+    return rules;
+  }
+
+  profile(field?: SchemaField): ColumnProfile {
+    const entries = [...this.counts.values()];
+    const kind = profileKind(field, entries);
+    const byCount = [...entries].sort((a, b) => b.count - a.count);
+
+    const profile: ColumnProfile = {
+      column: this.column,
+      kind,
+      rows: this.rows,
+      nulls: this.nulls,
+      distinct: entries.length,
+      measure: kind === 'text' ? 'length' : 'value',
+      histogram: [],
+      topValues: byCount.slice(0, TOP_VALUES).map(({ value, count }) => ({ value, count })),
+      shapes: []
+    };
+
+    if (kind === 'numeric' || kind === 'date') {
+      Object.assign(profile, this.rangeStats(entries, kind));
+    } else {
+      Object.assign(profile, kind === 'text' ? this.lengthStats(entries) : {});
+      profile.histogram = profile.topValues.map(({ value, count }) => ({ label: String(value), count }));
+      const shown = profile.topValues.reduce((sum, { count }) => sum + count, 0);
+      const rest = this.rows - this.nulls - shown;
+      if (rest > 0) profile.histogram.push({ label: 'Other', count: rest });
+    }
+
+    if (kind === 'text' && field?.type !== 'text') {
+      const shapes = new Map<string, number>();
+      entries.forEach(({ value, count }) => {
+        const text = String(value);
+        if (text.length > MAX_SHAPE_LENGTH) return;
+        const shape = shapeOf(text);
+        shapes.set(shape, (shapes.get(shape) ?? 0) + count);
+      });
+      profile.shapes = [...shapes.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_EXAMPLES)
+        .map(([shape, count]) => ({ shape, count }));
+    }
+
+    if (field) profile.conformance = this.conformance(field, entries);
+    return profile;
+  }
+
+  private conformance(field: SchemaField, entries: ValueCount[]): ColumnProfile['conformance'] {
+    const issues = new Map<ViolationRule, ConformanceIssue>();
+    const record = (rule: ViolationRule, count: number, value: unknown) => {
+      const issue = issues.get(rule) ?? { rule, count: 0, examples: [] };
+      issue.count += count;
+      if (issue.examples.length < MAX_EXAMPLES) issue.examples.push(value);
+      issues.set(rule, issue);
+    };
+
+    let failing = 0;
+    entries.forEach(({ value, count }) => {
+      const rules = this.violations(field, valueKey(value), value);
+      if (rules.length > 0) failing += count;
+      rules.forEach(rule => record(rule, count, value));
+      // Every repeat of a unique value beyond the first is a violation
+      if (field.constraints?.unique && count > 1) {
+        record('unique', count - 1, value);
+        if (rules.length === 0) failing += count - 1;
+      }
+    });
+    if (this.nulls > 0 && validateValue(this.column, field, null).length > 0) record('required', this.nulls, null);
+
+    const checked = this.rows - this.nulls;
+    return {
+      checked,
+      passing: checked - failing,
+      issues: [...issues.values()].sort((a, b) => b.count - a.count)
+    };
+  }
+
+  private lengthStats(entries: ValueCount[]): Partial<ColumnProfile> {
+    if (entries.length === 0) return {};
+    let min = Infinity;
+    let max = -Infinity;
+    let total = 0;
+    let count = 0;
+    entries.forEach(entry => {
+      const length = String(entry.value).length;
+      min = Math.min(min, length);
+      max = Math.max(max, length);
+      total += length * entry.count;
+      count += entry.count;
+    });
+    return { min, max, mean: total / count };
+  }
+
+  // Moments, histogram and IQR outliers, over epoch milliseconds for dates
+  private rangeStats(entries: ValueCount[], kind: 'numeric' | 'date'): Partial<ColumnProfile> {
+    const points = entries
+      .map(({ value, count }) => ({ value, count, n: kind === 'date' ? toTime(value) : typeof value === 'number' ? value : NaN }))
+      .filter(point => Number.isFinite(point.n))
+      .sort((a, b) => a.n - b.n);
+    if (points.length === 0) return {};
+
+    const total = points.reduce((sum, point) => sum + point.count, 0);
+    const mean = points.reduce((sum, point) => sum + point.n * point.count, 0) / total;
+    const variance = points.reduce((sum, point) => sum + point.count * (point.n - mean) ** 2, 0) / total;
+
+    const quantile = (p: number) => {
+      const target = p * (total - 1);
+      let seen = 0;
+      for (const point of points) {
+        seen += point.count;
+        if (seen > target) return point.n;
+      }
+      return points[points.length - 1].n;
+    };
+
+    // Dates are shown as dates, without the time when every value is a plain date
+    const dateOnly = kind === 'date' && points.every(({ value }) => typeof value === 'string' && value.length <= 10);
+    const display = (n: number) =>
+      kind === 'numeric' ? n : dateOnly ? new Date(n).toISOString().slice(0, 10) : new Date(n).toISOString();
+    const label = (n: number) => (kind === 'numeric' ? formatNumber(n) : String(display(n)));
+
+    const min = points[0].n;
+    const max = points[points.length - 1].n;
+    const binCount = min === max ? 1 : Math.min(HISTOGRAM_BINS, points.length);
+    const width = (max - min) / binCount;
+    const histogram = Array.from({ length: binCount }, (_, index) => ({
+      label: binCount === 1 ? label(min) : `${label(min + index * width)} – ${label(min + (index + 1) * width)}`,
+      count: 0
+    }));
+    points.forEach(point => {
+      const index = width === 0 ? 0 : Math.min(binCount - 1, Math.floor((point.n - min) / width));
+      histogram[index].count += point.count;
+    });
+
+    const q1 = quantile(0.25);
+    const q3 = quantile(0.75);
+    const low = q1 - 1.5 * (q3 - q1);
+    const high = q3 + 1.5 * (q3 - q1);
+    const outlying = points.filter(point => point.n < low || point.n > high);
+
+    return {
+      min: display(min),
+      max: display(max),
+      mean: kind === 'numeric' ? mean : display(Math.round(mean)),
+      std: kind === 'numeric' ? Math.sqrt(variance) : undefined,
+      histogram,
+      outliers: {
+        count: outlying.reduce((sum, point) => sum + point.count, 0),
+        low: display(low),
+        high: display(high),
+        // Furthest from the middle first
+        examples: outlying
+          .sort((a, b) => Math.abs(b.n - (q1 + q3) / 2) - Math.abs(a.n - (q1 + q3) / 2))
+          .slice(0, MAX_EXAMPLES)
+          .map(point => point.value)
+      }
+    };
+  }
+}
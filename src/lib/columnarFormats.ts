@@ -0,0 +1,212 @@
+/**
+ * Parquet and Arrow IPC
+ * Writes datasets with column types taken from the dataset schema (so DuckDB and
+ * Spark load integers, dates and timestamps as such) and reads both formats back
+ * into plain rows for upload.
+ */
+
+import {
+  Bool,
+  DataType,
+  DateDay,
+  Float64,
+  Int64,
+  Table,
+  TimestampMillisecond,
+  Utf8,
+  tableFromIPC,
+  tableToIPC,
+  vectorFromArray,
+  type Vector
+} from 'apache-arrow';
+import { parquetReadObjects } from 'hyparquet';
+import { parquetWriteBuffer, type ColumnSource, type SchemaElement } from 'hyparquet-writer';
+import type { DatasetSchema, SchemaField } from './schema';
+import { inferDatasetSchema } from './typeInference';
+
+export type ColumnarFormat = 'parquet' | 'arrow';
+
+export const COLUMNAR_EXTENSIONS: Record<string, ColumnarFormat> = {
+  parquet: 'parquet',
+  arrow: 'arrow',
+  feather: 'arrow',
+  ipc: 'arrow'
+};
+
+export const COLUMNAR_MIME_TYPES: Record<ColumnarFormat, string> = {
+  parquet: 'application/vnd.apache.parquet',
+  arrow: 'application/vnd.apache.arrow.file'
+};
+
+type ColumnKind = 'int64' | 'float64' | 'boolean' | 'date' | 'timestamp' | 'uuid' | 'string';
+
+type Row = Record<string, unknown>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DAY_MS = 86400000;
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+// Fields without a usable type (references, columns missing from the schema) are typed from their values
+function kindFromValues(values: unknown[]): ColumnKind {
+  const present = values.filter(value => !isMissing(value));
+  if (present.length === 0) return 'string';
+  if (present.every(value => typeof value === 'boolean')) return 'boolean';
+  if (present.every(value => typeof value === 'number' && Number.isInteger(value))) return 'int64';
+  if (present.every(value => typeof value === 'number')) return 'float64';
+  return 'string';
+}
+
+function columnKind(field: SchemaField | undefined, values: unknown[]): ColumnKind {
+  switch (field?.type) {
+    case 'integer': return 'int64';
+    case 'number': return 'float64';
+    case 'boolean': return 'boolean';
+    case 'date': return 'date';
+    case 'datetime': return 'timestamp';
+    case 'uuid':
+      return values.every(value => isMissing(value) || UUID_PATTERN.test(String(value))) ? 'uuid' : 'string';
+    case 'reference':
+    case undefined:
+      return kindFromValues(values);
+    default:
+      return 'string';
+  }
+}
+
+const toTimestamp = (value: unknown): number | null => {
+  if (isMissing(value)) return null;
+  const time = value instanceof Date ? value.getTime() : typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(time) ? time : null;
+};
+
+/**
+ * Converts a value to what the column kind stores; anything that does not fit
+ * becomes null rather than failing the whole export.
+ */
+function convertValue(kind: ColumnKind, value: unknown): unknown {
+  if (isMissing(value)) return null;
+
+  switch (kind) {
+    case 'int64': {
+      const number = Number(value);
+      return Number.isFinite(number) ? BigInt(Math.trunc(number)) : null;
+    }
+    case 'float64': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (String(value).toLowerCase() === 'true') return true;
+      if (String(value).toLowerCase() === 'false') return false;
+      return null;
+    case 'date':
+    case 'timestamp': {
+      const time = toTimestamp(value);
+      return time === null ? null : new Date(time);
+    }
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+// Without a schema (e.g. edited data) the column types are inferred from the rows
+function typedColumns(rows: Row[], schema: DatasetSchema = inferDatasetSchema(rows).schema) {
+  const names = Array.from(new Set([...Object.keys(schema), ...rows.flatMap(row => Object.keys(row))]));
+  return names.map(name => {
+    const raw = rows.map(row => row[name]);
+    const kind = columnKind(schema[name], raw);
+    const values = raw.map(value => convertValue(kind, value));
+    return { name, kind, values, nullable: values.some(value => value === null) };
+  });
+}
+
+const PARQUET_TYPES: Record<ColumnKind, Omit<SchemaElement, 'name'>> = {
+  int64: { type: 'INT64' },
+  float64: { type: 'DOUBLE' },
+  boolean: { type: 'BOOLEAN' },
+  date: { type: 'INT32', converted_type: 'DATE' },
+  timestamp: { type: 'INT64', converted_type: 'TIMESTAMP_MILLIS' },
+  uuid: { type: 'FIXED_LEN_BYTE_ARRAY', type_length: 16, logical_type: { type: 'UUID' } },
+  string: { type: 'BYTE_ARRAY', converted_type: 'UTF8' }
+};
+
+export function writeParquet(rows: Row[], schema?: DatasetSchema): Uint8Array {
+  const columns = typedColumns(rows, schema);
+  const columnData: ColumnSource[] = columns.map(column => ({ name: column.name, data: column.values }));
+  const parquetSchema: SchemaElement[] = [
+    { name: 'root', num_children: columns.length },
+    ...columns.map(column => ({
+      name: column.name,
+      ...PARQUET_TYPES[column.kind],
+      repetition_type: column.nullable ? 'OPTIONAL' as const : 'REQUIRED' as const
+    }))
+  ];
+
+  return new Uint8Array(parquetWriteBuffer({ columnData, schema: parquetSchema }));
+}
+
+const ARROW_TYPES: Record<ColumnKind, () => DataType> = {
+  int64: () => new Int64(),
+  float64: () => new Float64(),
+  boolean: () => new Bool(),
+  date: () => new DateDay(),
+  timestamp: () => new TimestampMillisecond(),
+  // Arrow has no portable UUID type, so UUIDs stay strings
+  uuid: () => new Utf8(),
+  string: () => new Utf8()
+};
+
+export function writeArrow(rows: Row[], schema?: DatasetSchema): Uint8Array {
+  const vectors: Record<string, Vector> = {};
+  for (const column of typedColumns(rows, schema)) {
+    const values = column.kind === 'timestamp'
+      ? column.values.map(value => (value instanceof Date ? value.getTime() : null))
+      : column.values;
+    vectors[column.name] = vectorFromArray(values, ARROW_TYPES[column.kind]());
+  }
+  return tableToIPC(new Table(vectors), 'file');
+}
+
+const isoDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Back to the plain values the rest of the app works with
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    if (!Number.isFinite(time)) return null;
+    return time % DAY_MS === 0 ? isoDate(time) : value.toISOString();
+  }
+  if (typeof value === 'object') return JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? item.toString() : item));
+  return value;
+}
+
+export async function readParquet(buffer: ArrayBuffer): Promise<Row[]> {
+  const rows = await parquetReadObjects({ file: buffer });
+  return rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, normalizeValue(value)])));
+}
+
+export function readArrow(buffer: ArrayBuffer): Row[] {
+  const table = tableFromIPC(new Uint8Array(buffer));
+  // Dates and timestamps come back as epoch milliseconds
+  const temporal = new Map(table.schema.fields.map(field => [
+    field.name,
+    DataType.isDate(field.type) ? 'date' : DataType.isTimestamp(field.type) ? 'timestamp' : null
+  ]));
+
+  return table.toArray().map((row: { toJSON(): Row }) => Object.fromEntries(
+    Object.entries(row.toJSON()).map(([key, value]) => {
+      const kind = temporal.get(key);
+      if (kind && typeof value === 'number') {
+        return [key, kind === 'date' ? isoDate(value) : new Date(value).toISOString()];
+      }
+      return [key, normalizeValue(value)];
+    })
+  ));
+}
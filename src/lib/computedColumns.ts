@@ -0,0 +1,108 @@
+/**
+ * Computed columns
+ * Schema fields with an `expression` are derived from the other columns of
+ * the row instead of being generated. Generation leaves them out and fills
+ * them in afterwards, and the review editor recomputes them as cells change.
+ */
+
+import { compileExpression, ExpressionError, type CompiledExpression } from './expressions';
+import type { DatasetSchema, SchemaField } from './schema';
+
+// Own keys only, so names like "constructor" are not found on the prototype
+const hasColumn = (record: object, column: string) => Object.prototype.hasOwnProperty.call(record, column);
+
+export interface ComputedColumn {
+  name: string;
+  expression: CompiledExpression;
+}
+
+export const isComputedField = (field: SchemaField | undefined): field is SchemaField & { expression: string } =>
+  typeof field?.expression === 'string' && field.expression.trim() !== '';
+
+export const hasComputedFields = (schema: DatasetSchema | undefined) =>
+  !!schema && Object.values(schema).some(isComputedField);
+
+// The fields a generator has to produce
+export function withoutComputedFields(schema: DatasetSchema): DatasetSchema {
+  return Object.fromEntries(Object.entries(schema).filter(([, field]) => !isComputedField(field)));
+}
+
+/**
+ * Compiles the schema's expressions, ordered so a column computed from other
+ * computed columns comes after them. Throws an ExpressionError naming the
+ * column for syntax errors, unknown columns and circular definitions.
+ */
+export function compileComputedColumns(schema: DatasetSchema | undefined): ComputedColumn[] {
+  if (!schema) return [];
+
+  const compiled = new Map<string, CompiledExpression>();
+  for (const [name, field] of Object.entries(schema)) {
+    if (!isComputedField(field)) continue;
+    try {
+      const expression = compileExpression(field.expression);
+      const unknown = expression.columns.find(column => !hasColumn(schema, column));
+      if (unknown) throw new ExpressionError(`unknown column "${unknown}"`);
+      compiled.set(name, expression);
+    } catch (error) {
+      throw new ExpressionError(`${name}: ${(error as Error).message}`);
+    }
+  }
+
+  const ordered: ComputedColumn[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (name: string, path: string[]) => {
+    const expression = compiled.get(name);
+    if (!expression || state.get(name) === 'done') return;
+    if (state.get(name) === 'visiting') {
+      throw new ExpressionError(`Circular computed columns: ${[...path, name].join(' -> ')}`);
+    }
+    state.set(name, 'visiting');
+    expression.columns.forEach(column => visit(column, [...path, name]));
+    state.set(name, 'done');
+    ordered.push({ name, expression });
+  };
+  compiled.forEach((_, name) => visit(name, []));
+
+  return ordered;
+}
+
+/**
+ * The computed values for one row. A row whose values do not fit an
+ * expression (text in arithmetic, an unparseable date) gets null there.
+ */
+export function computeRow(row: Record<string, unknown>, columns: ComputedColumn[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  const current = { ...row };
+  for (const { name, expression } of columns) {
+    let value: unknown;
+    try {
+      value = expression.evaluate(current);
+    } catch {
+      value = null;
+    }
+    values[name] = value;
+    current[name] = value;
+  }
+  return values;
+}
+
+// Rows with every computed column filled in, in the schema's field order
+export function applyComputedColumns<T extends Record<string, unknown>>(rows: T[], schema: DatasetSchema | undefined): T[] {
+  const columns = compileComputedColumns(schema);
+  if (columns.length === 0 || !schema) return rows;
+  const fieldOrder = Object.keys(schema);
+
+  return rows.map(row => {
+    const computed = computeRow(row, columns);
+    const ordered: Record<string, unknown> = {};
+    fieldOrder.forEach(name => {
+      if (hasColumn(computed, name)) ordered[name] = computed[name];
+      else if (hasColumn(row, name)) ordered[name] = row[name];
+    });
+    // Columns outside the schema keep their place after it
+    Object.keys(row).forEach(name => {
+      if (!hasColumn(ordered, name)) ordered[name] = row[name];
+    });
+    return ordered as T;
+  });
+}
@@ -0,0 +1,268 @@
+/**
+ * RFC 4180 CSV parsing
+ * Wraps papaparse with encoding and delimiter sniffing, and reports rows whose
+ * field count does not match the header (with their line numbers) instead of
+ * silently dropping them.
+ */
+
+import Papa from 'papaparse';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvIssueCode = 'field_count' | 'quotes' | 'parse';
+
+export interface CsvIssue {
+  // 1-based line in the file where the record starts
+  line: number;
+  code: CsvIssueCode;
+  message: string;
+  fields: string[];
+}
+
+export interface CsvParseResult {
+  headers: string[];
+  rows: Record<string, string>[];
+  delimiter: string;
+  encoding: string;
+  issues: CsvIssue[];
+}
+
+export interface CsvParseOptions {
+  // Skips sniffing when the delimiter is known
+  delimiter?: string;
+  encoding?: string;
+}
+
+/**
+ * Decodes file bytes, honouring UTF-8/UTF-16 byte order marks and falling back to
+ * Windows-1252 for legacy exports that are not valid UTF-8.
+ */
+export function decodeText(buffer: ArrayBuffer): { text: string; encoding: string } {
+  const bytes = new Uint8Array(buffer);
+
+  let encoding = 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+
+  try {
+    // TextDecoder strips the BOM itself
+    return { text: new TextDecoder(encoding, { fatal: true }).decode(bytes), encoding };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+}
+
+// Blank, missing or repeated header names would otherwise overwrite each other
+export const uniqueHeaders = (fields: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return fields.map((field, index) => {
+    const base = field.trim() || `column_${index + 1}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return count === 0 ? base : `${base}_${count + 1}`;
+  });
+};
+
+const isBlank = (fields: string[]) => fields.every(field => field.trim() === '');
+
+const countNewlines = (fields: string[]) =>
+  fields.reduce((count, field) => count + (field.match(/\n/g)?.length ?? 0), 0);
+
+/**
+ * Turns papaparse step results into header + rows. Line numbers are counted from
+ * the records themselves (one line each plus any quoted newlines), so they stay
+ * correct when the input arrives in chunks.
+ */
+function createRecordReader(onRow: (row: Record<string, string>) => void) {
+  let headers: string[] | null = null;
+  let delimiter = ',';
+  let line = 1;
+  const issues: CsvIssue[] = [];
+
+  const step = (results: Papa.ParseStepResult<string[]>) => {
+    const fields = results.data;
+    const startLine = line;
+    line += 1 + countNewlines(fields);
+    delimiter = results.meta.delimiter;
+
+    if (isBlank(fields)) return;
+
+    // A failed delimiter guess (e.g. a single-column file) is not a problem with the row
+    const error = results.errors.find(candidate => candidate.type !== 'Delimiter');
+    if (error) {
+      issues.push({
+        line: startLine,
+        code: error.type === 'Quotes' ? 'quotes' : error.type === 'FieldMismatch' ? 'field_count' : 'parse',
+        message: error.message,
+        fields
+      });
+      return;
+    }
+
+    if (!headers) {
+      // Streamed files keep their byte order mark on the first field
+      headers = uniqueHeaders(fields.map((field, index) => (index === 0 ? field.replace(/^\ufeff/, '') : field)));
+      return;
+    }
+
+    if (fields.length !== headers.length) {
+      issues.push({
+        line: startLine,
+        code: 'field_count',
+        message: `Expected ${headers.length} fields but found ${fields.length}`,
+        fields
+      });
+      return;
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index];
+    });
+    onRow(row);
+  };
+
+  const result = () => {
+    if (!headers) {
+      throw new Error('CSV file is empty');
+    }
+    return { headers, delimiter, issues };
+  };
+
+  return { step, result };
+}
+
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const rows: Record<string, string>[] = [];
+  const reader = createRecordReader(row => rows.push(row));
+
+  Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: false,
+    delimiter: options.delimiter || '',
+    delimitersToGuess: [...CSV_DELIMITERS],
+    step: reader.step
+  });
+
+  return { ...reader.result(), rows, encoding: options.encoding || 'utf-8' };
+}
+
+export async function parseCsvFile(file: File, options: Omit<CsvParseOptions, 'encoding'> = {}): Promise<CsvParseResult> {
+  const { text, encoding } = decodeText(await file.arrayBuffer());
+  return parseCsv(text, { ...options, encoding });
+}
+
+// Bytes read up front to pick the encoding of a streamed file
+const ENCODING_SNIFF_BYTES = 64 * 1024;
+
+const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Picks the encoding from the start of the file only: byte order marks first, then
+ * whether the bytes are valid UTF-8 (a multi-byte character cut off at the end of
+ * the sample is allowed).
+ */
+export async function sniffEncoding(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.slice(0, ENCODING_SNIFF_BYTES).arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+type StreamEvent = 'data' | 'end' | 'error';
+
+/**
+ * Just enough of a Node readable stream for papaparse's stream reader. Bytes are
+ * decoded incrementally, so a multi-byte character split across two chunks
+ * arrives intact (papaparse's own File reader decodes each slice on its own).
+ */
+class DecodedFileStream {
+  readonly readable = true;
+  private listeners: Partial<Record<StreamEvent, ((value?: unknown) => void)[]>> = {};
+
+  constructor(
+    private file: Blob,
+    private encoding: string,
+    private onBytesRead?: (bytes: number) => void
+  ) {}
+
+  read() {
+    return null;
+  }
+
+  // Chunks are parsed synchronously as they are emitted, so there is never a backlog to pause
+  pause() {}
+
+  resume() {}
+
+  on(event: StreamEvent, listener: (value?: unknown) => void) {
+    (this.listeners[event] ??= []).push(listener);
+    return this;
+  }
+
+  removeListener(event: StreamEvent, listener: (value?: unknown) => void) {
+    this.listeners[event] = this.listeners[event]?.filter(item => item !== listener);
+    return this;
+  }
+
+  private emit(event: StreamEvent, value?: unknown) {
+    [...(this.listeners[event] || [])].forEach(listener => listener(value));
+  }
+
+  async start() {
+    const decoder = new TextDecoder(this.encoding);
+    try {
+      for (let start = 0; start < this.file.size; start += STREAM_CHUNK_SIZE) {
+        const end = Math.min(this.file.size, start + STREAM_CHUNK_SIZE);
+        const bytes = await this.file.slice(start, end).arrayBuffer();
+        const text = decoder.decode(bytes, { stream: end < this.file.size });
+        if (text) this.emit('data', text);
+        this.onBytesRead?.(end);
+      }
+      this.emit('end');
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+}
+
+export interface CsvStreamOptions extends Omit<CsvParseOptions, 'encoding'> {
+  onRow: (row: Record<string, string>) => void;
+  // Fraction of the file read so far, between 0 and 1
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Parses a file in chunks without holding its text in memory; rows are handed to
+ * `onRow` as they are read.
+ */
+export async function streamCsv(file: File, options: CsvStreamOptions): Promise<Omit<CsvParseResult, 'rows'> & { rowCount: number }> {
+  const encoding = await sniffEncoding(file);
+  let rowCount = 0;
+  const reader = createRecordReader(row => {
+    rowCount++;
+    options.onRow(row);
+  });
+  const source = new DecodedFileStream(file, encoding, bytes => options.onProgress?.(bytes / Math.max(1, file.size)));
+
+  await new Promise<void>((resolve, reject) => {
+    Papa.parse<string[]>(source as unknown as Papa.LocalFile, {
+      header: false,
+      skipEmptyLines: false,
+      delimiter: options.delimiter || '',
+      delimitersToGuess: [...CSV_DELIMITERS],
+      step: reader.step,
+      complete: () => resolve(),
+      error: (error) => reject(error)
+    });
+    source.start();
+  });
+
+  return { ...reader.result(), encoding, rowCount };
+}
@@ -1,11 +1,43 @@
 import { ApiService } from './api';
+import {
+  detectSequenceFields,
+  generateInChunks,
+  GenerationCancelledError,
+  MAX_ROWS_PER_CHUNK,
+  type CheckpointStore,
+  type ChunkProgress
+} from './chunkedGeneration';
+import type { SheetSummary, SpreadsheetOptions } from './fileParser';
+import {
+  inspectWorkbook,
+  processUpload,
+  type ProcessedUpload,
+  type UploadProgress,
+  type UploadWorkerMessage,
+  type UploadWorkerRequest
+} from './uploadProcessor';
+import { validateRows } from './dataValidation';
+import { LocalDataGenerator } from './localGenerator';
+import { parseSchema, parseRelationalSchema, splitQualifiedSchema, type DatasetSchema, type RelationalSchema } from './schema';
+import { TimeSeriesGenerator, type TimeSeriesConfig } from './timeSeriesGenerator';
+import { LLMClient, type LLMConfig } from './llmClient';
+import { writeArrow, writeParquet } from './columnarFormats';
+import { TextCorpusGenerator, toJSONL, type TextCorpusConfig, type TextCorpusProgress } from './textGenerator';
+import { checkReferentialIntegrity, generateRelationalDataset, type TableProgress } from './relationalGenerator';
+import {
+  applyComputedColumns,
+  compileComputedColumns,
+  computeRow,
+  hasComputedFields,
+  withoutComputedFields
+} from './computedColumns';
 
 // Enhanced interfaces with comprehensive options
 export interface DataGenerationOptions {
   domain: string;
   numRows: number;
   format: 'json' | 'csv';
-  schema: Record<string, { type: string; constraints?: any }>;
+  schema: DatasetSchema;
 }
 
 export interface GenerationResult {
@@ -22,67 +54,80 @@ export interface DatasetGenerationOptions {
   domain: string;
   data_type: string;
   sourceData?: any[];
-  schema?: any;
+  schema?: DatasetSchema;
   description?: string;
   isGuest?: boolean;
   rowCount?: number;
   quality_level?: string;
   privacy_level?: string;
+  chunkSize?: number;
+  onProgress?: (progress: ChunkProgress) => void;
+  // 'local' skips the AI providers and uses the seeded rule-based engine
+  engine?: 'ai' | 'local';
+  seed?: string;
+  // Aborting stops after the chunk in flight; checkpoints let a later run resume
+  signal?: AbortSignal;
+  checkpoints?: CheckpointStore;
+  // Which checkpoint part this call fills: a table name, or "data" for single tables
+  checkpointPart?: string;
 }
 
 export class DataGeneratorService {
   
-  async processUploadedData(file: File): Promise<any> {
+  /**
+   * Sends one request to a fresh upload worker; falls back to the main thread
+   * where workers are unavailable.
+   */
+  private runUploadWorker(
+    request: UploadWorkerRequest,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<UploadWorkerMessage> {
+    if (typeof Worker === 'undefined') {
+      return request.type === 'inspect'
+        ? inspectWorkbook(request.file).then(sheets => ({ type: 'sheets' as const, sheets }))
+        : processUpload(request.file, request.options, onProgress).then(result => ({ type: 'result' as const, result }));
+    }
+
     return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (event) => {
-        try {
-          const text = event.target?.result as string;
-          let data: any[] = [];
-          
-          if (file.name.endsWith('.json')) {
-            data = JSON.parse(text);
-          } else if (file.name.endsWith('.csv')) {
-            data = this.parseCSV(text);
-          } else {
-            throw new Error('Unsupported file format');
-          }
-          
-          // Better validation for different data formats
-          if (!data) {
-            throw new Error('File contains no data');
-          }
-          
-          // Handle single object (convert to array)
-          if (typeof data === 'object' && !Array.isArray(data)) {
-            data = [data];
-          }
-          
-          // Final validation
-          if (!Array.isArray(data) || data.length === 0) {
-            throw new Error('File contains no valid tabular data');
-          }
-          
-          const schema = this.inferSchema(data);
-          const stats = this.calculateStats(data);
-          
-          resolve({
-            data: data.slice(0, 1000), // Limit for analysis
-            schema,
-            stats,
-            totalRows: data.length
-          });
-        } catch (error) {
-          reject(error);
+      const worker = new Worker(new URL('./upload.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<UploadWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.progress);
+          return;
+        }
+        worker.terminate();
+        if (message.type === 'error') {
+          reject(new Error(message.message));
+        } else {
+          resolve(message);
         }
       };
-      
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || 'Upload worker failed'));
+      };
+      worker.postMessage(request);
     });
   }
 
+  async inspectSpreadsheet(file: File): Promise<SheetSummary[]> {
+    const message = await this.runUploadWorker({ type: 'inspect', file });
+    return message.type === 'sheets' ? message.sheets : [];
+  }
+
+  async processUploadedData(
+    file: File,
+    options: SpreadsheetOptions = {},
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<ProcessedUpload> {
+    const message = await this.runUploadWorker({ type: 'process', file, options }, onProgress);
+    if (message.type !== 'result') {
+      throw new Error('Upload worker returned no result');
+    }
+    return message.result;
+  }
+
   async generateSchemaFromDescription(description: string, domain: string, dataType: string): Promise<any> {
     try {
       // Use the enhanced API service - NO FALLBACKS
@@ -97,17 +142,107 @@ export class DataGeneratorService {
         throw new Error('Invalid schema received from backend');
       }
       
-      return result;
+      return { ...result, schema: parseSchema(result.schema) };
     } catch (error) {
       console.error('Schema generation failed:', error);
       throw new Error(`Schema generation failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please check your API configuration.`);
     }
   }
 
+  async generateRelationalSchemaFromDescription(description: string, domain: string, dataType: string): Promise<any> {
+    // The endpoint returns one flat schema, so tables are encoded in the field names
+    const relationalInstructions = `
+
+Model this as several related tables. Prefix every field name with its table name, for example "customers.id" and "orders.customer_id". Give each table an integer "id" field with a unique constraint. For foreign keys use type "reference" with "reference": { "table": "<referenced table>", "field": "id", "cardinality": { "min": <fewest rows per referenced row>, "max": <most rows per referenced row> } }.`;
+
+    const result = await this.generateSchemaFromDescription(`${description}${relationalInstructions}`, domain, dataType);
+
+    try {
+      const relationalSchema = parseRelationalSchema(splitQualifiedSchema(result.schema, domain || 'records'));
+      return { ...result, relationalSchema };
+    } catch (error) {
+      console.error('Relational schema generation failed:', error);
+      throw new Error(`Schema generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async generateRelationalDataset(
+    relationalSchema: RelationalSchema,
+    options: DatasetGenerationOptions & {
+      onTableProgress?: (progress: TableProgress) => void;
+      // Uploaded rows per table, used as examples for that table
+      sourceTables?: Record<string, any[]>;
+    }
+  ): Promise<any> {
+    const { tables, order } = await generateRelationalDataset({
+      schema: relationalSchema,
+      rowCount: Math.max(1, options.rowCount || 100),
+      seed: options.seed,
+      onTableProgress: options.onTableProgress,
+      generateTable: async (table, fields, rowCount) => {
+        const result = await this.generateSyntheticDataset({
+          ...options,
+          schema: fields,
+          sourceData: options.sourceTables?.[table] ?? options.sourceData,
+          rowCount,
+          checkpointPart: table,
+          seed: options.seed ? `${options.seed}:${table}` : undefined,
+          description: `${options.description || ''}\nGenerate rows for the "${table}" table only.`.trim()
+        });
+        return result.data;
+      }
+    });
+
+    const referenceIssues = checkReferentialIntegrity(tables, relationalSchema);
+    const totalRows = Object.values(tables).reduce((sum, rows) => sum + rows.length, 0);
+
+    const tableValidation = Object.fromEntries(
+      order.map(table => [table, validateRows(tables[table], relationalSchema[table].fields)])
+    );
+    const primaryTable = order[0];
+
+    return {
+      // The first table in dependency order doubles as the single-table view of the result
+      data: tables[primaryTable],
+      schema: relationalSchema[primaryTable].fields,
+      validation: tableValidation[primaryTable],
+      tables,
+      order,
+      relationalSchema,
+      tableValidation,
+      referenceIssues,
+      metadata: {
+        rowsGenerated: totalRows,
+        columnsGenerated: Object.keys(relationalSchema[primaryTable].fields).length,
+        tablesGenerated: order.length,
+        generationTime: new Date().toISOString(),
+        generationMethod: options.engine === 'local' ? 'local_seeded' : 'ai_real_time'
+      }
+    };
+  }
+
   async generateSyntheticDataset(options: DatasetGenerationOptions): Promise<any> {
+    // Computed columns are filled in from the generated ones, so no engine has to produce them
+    if (options.schema && hasComputedFields(options.schema)) {
+      const schema = options.schema;
+      const result = await this.generateSyntheticDataset({ ...options, schema: withoutComputedFields(schema) });
+      const data = applyComputedColumns(result.data, schema);
+      return {
+        ...result,
+        data,
+        schema,
+        validation: validateRows(data, schema),
+        metadata: { ...result.metadata, columnsGenerated: Object.keys(schema).length }
+      };
+    }
+
+    if (options.engine === 'local') {
+      return this.generateLocalDataset(options);
+    }
+
     try {
-      // Set default row count to 100 and cap at 100
-      const rowCount = Math.min(options.rowCount || 100, 100);
+      const rowCount = Math.max(1, options.rowCount || 100);
+      const chunkSize = Math.min(options.chunkSize || MAX_ROWS_PER_CHUNK, MAX_ROWS_PER_CHUNK);
       
       // Enhanced payload with proper validation
       const payload = {
@@ -128,90 +263,253 @@ export class DataGeneratorService {
         throw new Error('Domain and data type are required');
       }
 
-      console.log(`🚀 Generating ${rowCount} rows of synthetic data for ${payload.config.domain} domain...`);
+      console.log(`🚀 Generating ${rowCount} rows of synthetic data for ${payload.config.domain} domain in chunks of ${chunkSize}...`);
 
-      const result = await ApiService.generateSyntheticData(payload);
-      
-      // Enhanced validation of backend response
-      if (!result || !result.data || !Array.isArray(result.data)) {
-        throw new Error('Invalid data format received from backend');
+      const chunkResults: Record<string, any>[] = [];
+      const { data, droppedDuplicates } = await generateInChunks({
+        totalRows: rowCount,
+        schema: payload.schema,
+        chunkSize,
+        onProgress: options.onProgress,
+        signal: options.signal,
+        checkpoint: options.checkpoints?.forPart(options.checkpointPart ?? 'data'),
+        generateChunk: async ({ chunkIndex, rowCount: chunkRows, startIndex }) => {
+          const result = await ApiService.generateSyntheticData({
+            ...payload,
+            config: { ...payload.config, rowCount: chunkRows, chunk_index: chunkIndex, start_index: startIndex }
+          }, options.signal);
+
+          // Enhanced validation of backend response
+          if (!result || !result.data || !Array.isArray(result.data)) {
+            throw new Error('Invalid data format received from backend');
+          }
+
+          chunkResults.push(result);
+          return result.data;
+        }
+      });
+
+      console.log(`✅ Successfully generated ${data.length} realistic records across ${chunkResults.length} chunks`);
+      if (droppedDuplicates > 0) {
+        console.log(`♻️ Replaced ${droppedDuplicates} rows that repeated unique values from earlier chunks`);
       }
 
-      console.log(`✅ Successfully generated ${result.data.length} realistic records`);
+      const first = chunkResults[0] || {};
+      const averageScore = (...keys: string[]) => {
+        const scores = chunkResults
+          .map(result => keys.map(key => result[key]).find(value => typeof value === 'number'))
+          .filter((value): value is number => typeof value === 'number');
+        return scores.length ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0;
+      };
 
       return {
-        data: result.data,
+        data,
+        schema: payload.schema,
+        validation: validateRows(data, payload.schema),
         metadata: {
-          rowsGenerated: result.data.length,
-          columnsGenerated: result.data.length > 0 ? Object.keys(result.data[0]).length : 0,
-          generationTime: result.metadata?.generation_time || new Date().toISOString(),
+          rowsGenerated: data.length,
+          columnsGenerated: data.length > 0 ? Object.keys(data[0]).length : 0,
+          generationTime: first.metadata?.generation_time || new Date().toISOString(),
           config: payload.config,
-          generationMethod: result.metadata?.generation_method || 'ai_real_time',
-          aiProvider: result.metadata?.ai_provider || 'gemini_2_flash',
-          qualityScore: result.quality_score || result.qualityScore || 0,
-          privacyScore: result.privacy_score || result.privacyScore || 0,
-          biasScore: result.bias_score || result.biasScore || 0,
-          agentInsights: result.agent_insights || null
+          chunksGenerated: chunkResults.length,
+          generationMethod: first.metadata?.generation_method || 'ai_real_time',
+          aiProvider: first.metadata?.ai_provider || 'gemini_2_flash',
+          qualityScore: averageScore('quality_score', 'qualityScore'),
+          privacyScore: averageScore('privacy_score', 'privacyScore'),
+          biasScore: averageScore('bias_score', 'biasScore'),
+          agentInsights: first.agent_insights || null
         }
       };
     } catch (error) {
+      if (error instanceof GenerationCancelledError) throw error;
       console.error('Synthetic data generation failed:', error);
       throw new Error(`Data generation failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please check your API configuration or try again later.`);
     }
   }
 
-  private parseCSV(text: string): any[] {
-    const lines = text.trim().split('\n');
-    if (lines.length < 2) throw new Error('CSV must have header and data rows');
-    
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const data: any[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      if (values.length === headers.length) {
-        const row: any = {};
-        headers.forEach((header, index) => {
-          row[header] = values[index];
-        });
-        data.push(row);
-      }
+  generateLocalDataset(options: DatasetGenerationOptions): any {
+    const rowCount = Math.max(1, options.rowCount || 100);
+    const seed = options.seed || 'datagenesis';
+
+    if (!options.schema || Object.keys(options.schema).length === 0) {
+      throw new Error('Local generation requires a schema');
     }
-    
-    return data;
+
+    const startTime = Date.now();
+    const data = new LocalDataGenerator(options.schema, seed).generate(rowCount);
+
+    options.onProgress?.({
+      chunkIndex: 1,
+      totalChunks: 1,
+      rowsGenerated: data.length,
+      totalRows: rowCount,
+      progress: 100
+    });
+
+    console.log(`✅ Generated ${data.length} records locally with seed "${seed}" in ${Date.now() - startTime}ms`);
+
+    return {
+      data,
+      schema: options.schema,
+      validation: validateRows(data, options.schema),
+      metadata: {
+        rowsGenerated: data.length,
+        columnsGenerated: data.length > 0 ? Object.keys(data[0]).length : 0,
+        generationTime: new Date().toISOString(),
+        config: {
+          rowCount,
+          domain: options.domain,
+          data_type: options.data_type,
+          seed
+        },
+        chunksGenerated: 1,
+        generationMethod: 'local_seeded',
+        aiProvider: 'none',
+        qualityScore: 0,
+        privacyScore: 100,
+        biasScore: 0,
+        agentInsights: null
+      }
+    };
   }
 
-  private inferSchema(data: any[]): any {
-    const schema: any = {};
-    const sample = data[0];
-    
-    Object.keys(sample).forEach(key => {
-      const value = sample[key];
-      let type = 'string';
-      
-      if (typeof value === 'number') type = 'number';
-      else if (typeof value === 'boolean') type = 'boolean';
-      else if (value && !isNaN(Date.parse(value))) type = 'date';
-      
-      schema[key] = { type, description: `Auto-detected ${type} field` };
+  generateTimeSeriesDataset(config: TimeSeriesConfig, options: Partial<Pick<DatasetGenerationOptions, 'domain' | 'onProgress'>> = {}): any {
+    const startTime = Date.now();
+    const generator = new TimeSeriesGenerator(config);
+    const { rows, schema, anomalies } = generator.generate();
+
+    options.onProgress?.({
+      chunkIndex: 1,
+      totalChunks: 1,
+      rowsGenerated: rows.length,
+      totalRows: generator.totalRows,
+      progress: 100
     });
-    
-    return schema;
+
+    console.log(`✅ Generated ${rows.length} time-series points (${anomalies} anomalies) in ${Date.now() - startTime}ms`);
+
+    return {
+      data: rows,
+      schema,
+      validation: validateRows(rows, schema),
+      metadata: {
+        rowsGenerated: rows.length,
+        columnsGenerated: Object.keys(schema).length,
+        generationTime: new Date().toISOString(),
+        config: {
+          rowCount: rows.length,
+          domain: options.domain,
+          data_type: 'timeseries',
+          seed: config.seed
+        },
+        timeSeries: {
+          frequency: config.frequency,
+          steps: generator.totalSteps,
+          entities: config.entityIds.length,
+          anomalies
+        },
+        chunksGenerated: 1,
+        generationMethod: 'time_series',
+        aiProvider: 'none',
+        qualityScore: 0,
+        privacyScore: 100,
+        biasScore: 0,
+        agentInsights: null
+      }
+    };
   }
 
-  private calculateStats(data: any[]): any {
+  async generateTextCorpus(
+    modelConfig: LLMConfig | null,
+    config: TextCorpusConfig,
+    options: { domain?: string; onProgress?: (progress: TextCorpusProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<any> {
+    if (!modelConfig) {
+      throw new Error('Text generation needs an AI model. Configure one in Settings first.');
+    }
+
+    const startTime = Date.now();
+    const client = new LLMClient(modelConfig);
+    const generator = new TextCorpusGenerator(client, config);
+    const schema = generator.schema();
+
+    console.log(`📝 Generating ${config.documentCount} ${config.documentType} documents with ${client.label}...`);
+    const data = await generator.generate(options.onProgress, options.signal);
+    console.log(`✅ Generated ${data.length} labelled documents in ${Date.now() - startTime}ms`);
+
     return {
-      rowCount: data.length,
-      columnCount: Object.keys(data[0] || {}).length,
-      firstRow: data[0],
-      lastRow: data[data.length - 1]
+      data,
+      schema,
+      validation: validateRows(data, schema),
+      metadata: {
+        rowsGenerated: data.length,
+        columnsGenerated: Object.keys(schema).length,
+        generationTime: new Date().toISOString(),
+        config: {
+          rowCount: data.length,
+          domain: options.domain,
+          data_type: 'text',
+          seed: config.seed
+        },
+        labelSets: config.labelSets.map(set => set.name),
+        generationMethod: 'text_corpus',
+        aiProvider: client.label,
+        agentInsights: null
+      }
     };
   }
 
-  async exportData(data: any[], format: string = 'csv'): Promise<string> {
+  /**
+   * Regenerates only the given rows and splices them back in place. Sequential
+   * IDs keep their original values so references to those rows stay valid.
+   */
+  async regenerateRows(
+    data: Record<string, any>[],
+    rowIndexes: number[],
+    options: DatasetGenerationOptions
+  ): Promise<Record<string, any>[]> {
+    if (rowIndexes.length === 0) return data;
+
+    const result = await this.generateSyntheticDataset({
+      ...options,
+      rowCount: rowIndexes.length,
+      // A different seed per pass so the local engine does not reproduce the same rows
+      seed: options.seed ? `${options.seed}:regenerate:${rowIndexes.join(',')}` : undefined,
+      onProgress: undefined
+    });
+    const sequenceFields = detectSequenceFields(options.schema);
+    const computedColumns = compileComputedColumns(options.schema);
+
+    const updated = [...data];
+    rowIndexes.forEach((rowIndex, i) => {
+      const replacement = { ...result.data[i] };
+      sequenceFields.forEach(field => {
+        replacement[field] = data[rowIndex]?.[field];
+      });
+      // Restored IDs may feed computed columns
+      Object.assign(replacement, computeRow(replacement, computedColumns));
+      updated[rowIndex] = replacement;
+    });
+
+    return updated;
+  }
+
+  async exportData(data: any[], format: string = 'csv', schema?: DatasetSchema): Promise<string | Uint8Array> {
+    if (format === 'parquet') {
+      return writeParquet(data, schema);
+    }
+
+    if (format === 'arrow') {
+      return writeArrow(data, schema);
+    }
+
     if (format === 'json') {
       return JSON.stringify(data, null, 2);
     }
+
+    if (format === 'jsonl') {
+      return toJSONL(data);
+    }
     
     if (format === 'csv') {
       if (data.length === 0) return '';
@@ -0,0 +1,293 @@
+/**
+ * Row-level validation of generated data
+ * Checks every row against the dataset schema and builds a per-column violation
+ * report, with an auto-repair pass for the rows that drifted.
+ */
+
+import { LocalDataGenerator } from './localGenerator';
+import type { DatasetSchema, SchemaField, SchemaValue } from './schema';
+
+export type ViolationRule = 'type' | 'required' | 'min' | 'max' | 'length' | 'unique' | 'enum' | 'pattern';
+
+export interface RowViolation {
+  row: number;
+  column: string;
+  rule: ViolationRule;
+  value: unknown;
+  message: string;
+}
+
+export interface ColumnReport {
+  column: string;
+  violations: number;
+  rules: Partial<Record<ViolationRule, number>>;
+  examples: RowViolation[];
+}
+
+export interface ValidationReport {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number[];
+  violations: RowViolation[];
+  columns: ColumnReport[];
+  unexpectedColumns: string[];
+}
+
+export interface RepairResult {
+  data: Record<string, unknown>[];
+  repairedCells: number;
+  report: ValidationReport;
+}
+
+// Violations kept per column for display; the full list stays on the report
+const MAX_COLUMN_EXAMPLES = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const isRequired = (field: SchemaField) => field.constraints?.required === true || field.nullable === false;
+
+const toTime = (value: unknown) =>
+  typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+
+function checkType(field: SchemaField, value: unknown): boolean {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+    case 'datetime':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+    case 'email':
+      return typeof value === 'string' && EMAIL_PATTERN.test(value);
+    case 'phone':
+      return typeof value === 'string' && PHONE_PATTERN.test(value);
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value);
+    case 'enum':
+    case 'reference':
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Checks a single value against its field definition. Uniqueness needs the whole
+ * column and is handled by validateRows.
+ */
+export function validateValue(
+  column: string,
+  field: SchemaField,
+  value: unknown,
+  row = 0
+): RowViolation[] {
+  const violation = (rule: ViolationRule, message: string): RowViolation => ({ row, column, rule, value, message });
+
+  if (isEmpty(value)) {
+    return isRequired(field) ? [violation('required', 'value is required')] : [];
+  }
+
+  if (!checkType(field, value)) {
+    return [violation('type', `expected ${field.type}, got ${typeof value === 'string' ? `"${value}"` : typeof value}`)];
+  }
+
+  const violations: RowViolation[] = [];
+  const { min, max, minLength, maxLength, pattern } = field.constraints || {};
+
+  if (field.type === 'number' || field.type === 'integer') {
+    if (min !== undefined && (value as number) < Number(min)) violations.push(violation('min', `below minimum ${min}`));
+    if (max !== undefined && (value as number) > Number(max)) violations.push(violation('max', `above maximum ${max}`));
+  } else if (field.type === 'date' || field.type === 'datetime') {
+    if (min !== undefined && toTime(value) < toTime(min)) violations.push(violation('min', `before ${min}`));
+    if (max !== undefined && toTime(value) > toTime(max)) violations.push(violation('max', `after ${max}`));
+  }
+
+  if (typeof value === 'string') {
+    if (minLength !== undefined && value.length < minLength) violations.push(violation('length', `shorter than ${minLength} characters`));
+    if (maxLength !== undefined && value.length > maxLength) violations.push(violation('length', `longer than ${maxLength} characters`));
+  }
+
+  const allowed = field.constraints?.enum;
+  if (allowed?.length && !allowed.some(option => option === value)) {
+    violations.push(violation('enum', `not one of ${allowed.join(', ')}`));
+  }
+
+  if (pattern && !new RegExp(pattern).test(String(value))) {
+    violations.push(violation('pattern', `does not match /${pattern}/`));
+  }
+
+  return violations;
+}
+
+export function validateRows(data: Record<string, unknown>[], schema: DatasetSchema): ValidationReport {
+  const violations: RowViolation[] = [];
+  const unexpected = new Set<string>();
+  const fields = Object.entries(schema);
+  const seen = new Map<string, Set<string>>();
+
+  data.forEach((row, index) => {
+    for (const [column, field] of fields) {
+      const value = row?.[column];
+      violations.push(...validateValue(column, field, value, index));
+
+      if (field.constraints?.unique && !isEmpty(value)) {
+        const values = seen.get(column) ?? new Set<string>();
+        seen.set(column, values);
+        const key = String(value);
+        if (values.has(key)) {
+          violations.push({ row: index, column, rule: 'unique', value, message: 'duplicate of an earlier row' });
+        }
+        values.add(key);
+      }
+    }
+
+    Object.keys(row || {}).forEach(column => {
+      if (!(column in schema)) unexpected.add(column);
+    });
+  });
+
+  const columns = new Map<string, ColumnReport>();
+  for (const item of violations) {
+    const report = columns.get(item.column) ?? { column: item.column, violations: 0, rules: {}, examples: [] };
+    report.violations++;
+    report.rules[item.rule] = (report.rules[item.rule] || 0) + 1;
+    if (report.examples.length < MAX_COLUMN_EXAMPLES) report.examples.push(item);
+    columns.set(item.column, report);
+  }
+
+  const invalidRows = Array.from(new Set(violations.map(item => item.row))).sort((a, b) => a - b);
+
+  return {
+    totalRows: data.length,
+    validRows: data.length - invalidRows.length,
+    invalidRows,
+    violations,
+    columns: Array.from(columns.values()).sort((a, b) => b.violations - a.violations),
+    unexpectedColumns: Array.from(unexpected)
+  };
+}
+
+function coerce(field: SchemaField, value: unknown): unknown {
+  if (isEmpty(value)) return value;
+
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(String(value).replace(/[,\s$€£]/g, ''));
+      if (!Number.isFinite(number)) return value;
+      return field.type === 'integer' ? Math.round(number) : number;
+    }
+    case 'boolean': {
+      const text = String(value).trim().toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(text)) return true;
+      if (['false', 'no', 'n', '0'].includes(text)) return false;
+      return value;
+    }
+    case 'date':
+    case 'datetime': {
+      const time = toTime(value);
+      if (Number.isNaN(time)) return value;
+      const iso = new Date(time).toISOString();
+      return field.type === 'date' ? iso.slice(0, 10) : iso;
+    }
+    case 'enum': {
+      const match = field.constraints?.enum?.find(option => String(option).toLowerCase() === String(value).trim().toLowerCase());
+      return match ?? value;
+    }
+    case 'email':
+      return String(value).trim().toLowerCase().replace(/\s/g, '');
+    default:
+      return typeof value === 'string' ? value.trim() : String(value);
+  }
+}
+
+function clamp(field: SchemaField, value: unknown): unknown {
+  const { min, max, maxLength } = field.constraints || {};
+  if (typeof value === 'number') {
+    let result = value;
+    if (min !== undefined) result = Math.max(result, Number(min));
+    if (max !== undefined) result = Math.min(result, Number(max));
+    return result;
+  }
+  if (typeof value === 'string' && (field.type === 'date' || field.type === 'datetime')) {
+    if (min !== undefined && toTime(value) < toTime(min)) return coerce(field, min);
+    if (max !== undefined && toTime(value) > toTime(max)) return coerce(field, max);
+  }
+  if (typeof value === 'string' && maxLength !== undefined) return value.slice(0, maxLength);
+  return value;
+}
+
+/**
+ * Fixes violating cells in place where the intent is obvious (numeric strings,
+ * out-of-range values, enum casing) and replaces the rest with schema-conforming
+ * values from the local engine. Deterministic for a given seed.
+ */
+export function repairRows(
+  data: Record<string, unknown>[],
+  schema: DatasetSchema,
+  report: ValidationReport = validateRows(data, schema),
+  seed = 'datagenesis-repair'
+): RepairResult {
+  const rows = data.map(row => ({ ...row }));
+  let repairedCells = 0;
+
+  const byColumn = new Map<string, RowViolation[]>();
+  report.violations.forEach(item => {
+    const items = byColumn.get(item.column);
+    if (items) items.push(item);
+    else byColumn.set(item.column, [item]);
+  });
+
+  byColumn.forEach((items, column) => {
+    const field = schema[column];
+    if (!field) return;
+
+    const pending = new Set<number>();
+    // Duplicates cannot be fixed in place, so they go straight to regeneration
+    const duplicates = new Set(items.filter(item => item.rule === 'unique').map(item => item.row));
+    for (const row of new Set(items.map(item => item.row))) {
+      if (duplicates.has(row)) {
+        pending.add(row);
+        continue;
+      }
+      const fixed = clamp(field, coerce(field, rows[row][column]));
+      if (validateValue(column, field, fixed, row).length === 0) {
+        rows[row][column] = fixed;
+        repairedCells++;
+      } else {
+        pending.add(row);
+      }
+    }
+
+    if (pending.size === 0) return;
+
+    // Whatever could not be fixed is replaced with freshly generated values
+    const taken = new Set(rows.map((row, index) => (pending.has(index) ? null : String(row[column]))));
+    const candidates = new LocalDataGenerator({ [column]: field }, `${seed}:${column}`)
+      .generate(pending.size * 2 + 10)
+      .map(candidate => candidate[column])
+      .filter(candidate => validateValue(column, field, candidate).length === 0);
+
+    // Candidates are used in order; a skipped one is already taken, so the cursor never goes back
+    let next = 0;
+    for (const row of pending) {
+      while (next < candidates.length && field.constraints?.unique && taken.has(String(candidates[next]))) next++;
+      if (next === candidates.length) break;
+      const replacement = candidates[next++];
+      rows[row][column] = replacement as SchemaValue;
+      taken.add(String(replacement));
+      repairedCells++;
+    }
+  });
+
+  return { data: rows, repairedCells, report: validateRows(rows, schema) };
+}
@@ -0,0 +1,186 @@
+/**
+ * Dataset diffs
+ * Compares two stored dataset versions table by table. Rows are matched on the
+ * primary key when both versions have a usable one, otherwise by position, and
+ * matched rows are compared cell by cell.
+ */
+
+import { guessPrimaryKey, type DatasetSchema, type FieldType, type RelationalSchema } from './schema';
+import type { StoredResult } from './projectRepository';
+
+type Row = Record<string, unknown>;
+
+export interface CellChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RowChange {
+  key: string;
+  changes: CellChange[];
+}
+
+export interface ColumnTypeChange {
+  column: string;
+  before: FieldType;
+  after: FieldType;
+}
+
+export interface TableDiff {
+  // Null when rows were matched by position
+  keyColumn: string | null;
+  addedColumns: string[];
+  removedColumns: string[];
+  retypedColumns: ColumnTypeChange[];
+  addedRows: { key: string; row: Row }[];
+  removedRows: { key: string; row: Row }[];
+  changedRows: RowChange[];
+  unchangedRows: number;
+  changedCellsByColumn: Record<string, number>;
+}
+
+export interface DatasetDiff {
+  tables: Record<string, TableDiff>;
+  addedTables: string[];
+  removedTables: string[];
+}
+
+interface TableVersion {
+  rows: Row[];
+  schema?: DatasetSchema;
+  primaryKey?: string;
+}
+
+// Single-table results are compared under this name
+export const PRIMARY_TABLE = 'data';
+
+function tableVersions(result: StoredResult): Record<string, TableVersion> {
+  const tables = result.tables as Record<string, Row[]> | undefined;
+  const relational = result.relationalSchema as RelationalSchema | undefined;
+  if (!tables) {
+    return { [PRIMARY_TABLE]: { rows: result.data, schema: result.schema } };
+  }
+  return Object.fromEntries(Object.entries(tables).map(([name, rows]) => [
+    name,
+    { rows, schema: relational?.[name]?.fields, primaryKey: relational?.[name]?.primaryKey }
+  ]));
+}
+
+function columnsOf(table: TableVersion): string[] {
+  const columns = new Set(Object.keys(table.schema ?? {}));
+  for (const row of table.rows.slice(0, 100)) {
+    Object.keys(row).forEach(column => columns.add(column));
+  }
+  return [...columns];
+}
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * Edited cells often come back as strings, so 42 and "42" count as the same
+ * value; blanks (null, undefined, '') are also equal to each other.
+ */
+export function sameValue(before: unknown, after: unknown): boolean {
+  if (Object.is(before, after)) return true;
+  if (isBlank(before) || isBlank(after)) return isBlank(before) && isBlank(after);
+  if (typeof before === 'object' || typeof after === 'object') return JSON.stringify(before) === JSON.stringify(after);
+  return String(before) === String(after);
+}
+
+// A key column only works when every row in both versions has a distinct value for it
+function usableKey(column: string | undefined, before: Row[], after: Row[]): column is string {
+  if (!column) return false;
+  return [before, after].every(rows => {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      const value = row[column];
+      if (isBlank(value) || seen.has(String(value))) return false;
+      seen.add(String(value));
+    }
+    return true;
+  });
+}
+
+function diffTable(before: TableVersion, after: TableVersion, keyHint?: string): TableDiff {
+  const beforeColumns = columnsOf(before);
+  const afterColumns = columnsOf(after);
+  const shared = afterColumns.filter(column => beforeColumns.includes(column));
+
+  const retypedColumns = shared.flatMap(column => {
+    const from = before.schema?.[column]?.type;
+    const to = after.schema?.[column]?.type;
+    return from && to && from !== to ? [{ column, before: from, after: to }] : [];
+  });
+
+  const candidate = keyHint ?? after.primaryKey ?? before.primaryKey ??
+    guessPrimaryKey(after.schema ?? {}) ?? guessPrimaryKey(before.schema ?? {}) ??
+    (shared.includes('id') ? 'id' : undefined);
+  const keyColumn = usableKey(candidate, before.rows, after.rows) ? candidate : null;
+  const keyOf = (row: Row, index: number) => (keyColumn ? String(row[keyColumn]) : `#${index + 1}`);
+
+  const beforeRows = new Map(before.rows.map((row, index) => [keyOf(row, index), row]));
+  const afterKeys = new Set<string>();
+  const addedRows: TableDiff['addedRows'] = [];
+  const changedRows: RowChange[] = [];
+  const changedCellsByColumn: Record<string, number> = {};
+  let unchangedRows = 0;
+
+  after.rows.forEach((row, index) => {
+    const key = keyOf(row, index);
+    afterKeys.add(key);
+    const previous = beforeRows.get(key);
+    if (!previous) {
+      addedRows.push({ key, row });
+      return;
+    }
+
+    const changes = shared
+      .filter(column => !sameValue(previous[column], row[column]))
+      .map(column => ({ column, before: previous[column], after: row[column] }));
+    if (changes.length === 0) {
+      unchangedRows++;
+      return;
+    }
+    changes.forEach(change => {
+      changedCellsByColumn[change.column] = (changedCellsByColumn[change.column] ?? 0) + 1;
+    });
+    changedRows.push({ key, changes });
+  });
+
+  const removedRows = [...beforeRows].filter(([key]) => !afterKeys.has(key)).map(([key, row]) => ({ key, row }));
+
+  return {
+    keyColumn,
+    addedColumns: afterColumns.filter(column => !beforeColumns.includes(column)),
+    removedColumns: beforeColumns.filter(column => !afterColumns.includes(column)),
+    retypedColumns,
+    addedRows,
+    removedRows,
+    changedRows,
+    unchangedRows,
+    changedCellsByColumn
+  };
+}
+
+// `keyColumn` overrides primary-key detection, e.g. for rows carrying their own identity column
+export function diffDatasets(before: StoredResult, after: StoredResult, keyColumn?: string): DatasetDiff {
+  const beforeTables = tableVersions(before);
+  const afterTables = tableVersions(after);
+
+  const tables: Record<string, TableDiff> = {};
+  for (const [name, table] of Object.entries(afterTables)) {
+    if (beforeTables[name]) tables[name] = diffTable(beforeTables[name], table, keyColumn);
+  }
+
+  return {
+    tables,
+    addedTables: Object.keys(afterTables).filter(name => !beforeTables[name]),
+    removedTables: Object.keys(beforeTables).filter(name => !afterTables[name])
+  };
+}
+
+export function hasChanges(diff: TableDiff): boolean {
+  return diff.addedRows.length > 0 || diff.removedRows.length > 0 || diff.changedRows.length > 0 ||
+    diff.addedColumns.length > 0 || diff.removedColumns.length > 0 || diff.retypedColumns.length > 0;
+}
@@ -0,0 +1,187 @@
+/**
+ * Editor history
+ * Every change in the data review editor is recorded as a command that can be
+ * applied and inverted: cell updates, row deletions, row insertions, and
+ * batches of those for bulk and natural-language edits. Commands are plain
+ * data, so the history can be saved with a dataset version and restored when
+ * it is reopened.
+ */
+
+// Editor rows are identified by this synthetic key, so a dataset's own `id` column is left alone
+export const ROW_KEY = '__rowKey';
+
+export type EditorRow = Record<string, unknown> & { [ROW_KEY]: string };
+
+export interface CellUpdate {
+  rowKey: string;
+  column: string;
+  // Undefined means the cell did not exist
+  before: unknown;
+  after: unknown;
+}
+
+// Indexes are positions in the larger of the two row lists (with the rows present)
+export interface PositionedRow {
+  index: number;
+  row: EditorRow;
+}
+
+export type EditCommand =
+  | { type: 'update_cells'; updates: CellUpdate[] }
+  | { type: 'delete_rows'; rows: PositionedRow[] }
+  | { type: 'insert_rows'; rows: PositionedRow[] }
+  | { type: 'batch'; commands: EditCommand[] };
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: string;
+  label: string;
+  command: EditCommand;
+}
+
+export interface EditHistoryState {
+  entries: HistoryEntry[];
+  // How many entries are applied; entries after it can be redone
+  position: number;
+}
+
+// What is stored with a dataset version: the history plus the row keys it refers to
+export interface SavedEditHistory extends EditHistoryState {
+  rowKeys: string[];
+}
+
+// Oldest entries are dropped beyond this many
+export const HISTORY_LIMIT = 200;
+
+export const EMPTY_HISTORY: EditHistoryState = { entries: [], position: 0 };
+
+export const createRowKey = () => `row-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function applyCommand<T extends EditorRow>(rows: T[], command: EditCommand): T[] {
+  switch (command.type) {
+    case 'update_cells': {
+      const byRow = new Map<string, CellUpdate[]>();
+      command.updates.forEach(update => byRow.set(update.rowKey, [...(byRow.get(update.rowKey) ?? []), update]));
+      return rows.map(row => {
+        const updates = byRow.get(row[ROW_KEY]);
+        if (!updates) return row;
+        const next: Record<string, unknown> = { ...row };
+        updates.forEach(({ column, after }) => {
+          if (after === undefined) delete next[column];
+          else next[column] = after;
+        });
+        return next as T;
+      });
+    }
+    case 'delete_rows': {
+      const keys = new Set(command.rows.map(({ row }) => row[ROW_KEY]));
+      return rows.filter(row => !keys.has(row[ROW_KEY]));
+    }
+    case 'insert_rows': {
+      const next = rows.slice();
+      [...command.rows]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ index, row }) => next.splice(Math.min(index, next.length), 0, row as T));
+      return next;
+    }
+    case 'batch':
+      return command.commands.reduce((current, part) => applyCommand(current, part), rows);
+  }
+}
+
+export function invertCommand(command: EditCommand): EditCommand {
+  switch (command.type) {
+    case 'update_cells':
+      return {
+        type: 'update_cells',
+        updates: command.updates.map(update => ({ ...update, before: update.after, after: update.before }))
+      };
+    case 'delete_rows':
+      return { type: 'insert_rows', rows: command.rows };
+    case 'insert_rows':
+      return { type: 'delete_rows', rows: command.rows };
+    case 'batch':
+      return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+  }
+}
+
+export function isEmptyCommand(command: EditCommand): boolean {
+  switch (command.type) {
+    case 'update_cells':
+      return command.updates.length === 0;
+    case 'delete_rows':
+    case 'insert_rows':
+      return command.rows.length === 0;
+    case 'batch':
+      return command.commands.every(isEmptyCommand);
+  }
+}
+
+// Rows whose values the command sets: updated and inserted rows
+export function touchedRowKeys(command: EditCommand, keys = new Set<string>()): Set<string> {
+  switch (command.type) {
+    case 'update_cells':
+      command.updates.forEach(update => keys.add(update.rowKey));
+      break;
+    case 'insert_rows':
+      command.rows.forEach(({ row }) => keys.add(row[ROW_KEY]));
+      break;
+    case 'batch':
+      command.commands.forEach(part => touchedRowKeys(part, keys));
+      break;
+  }
+  return keys;
+}
+
+/**
+ * The command that turns `before` into `after`, matching rows on their key.
+ * Rows kept in both lists must stay in the same relative order, which holds
+ * for every edit the editor makes.
+ */
+export function diffToCommand<T extends EditorRow>(before: T[], after: T[]): EditCommand {
+  const beforeByKey = new Map(before.map(row => [row[ROW_KEY], row]));
+  const afterKeys = new Set(after.map(row => row[ROW_KEY]));
+
+  const deleted = before.flatMap((row, index) => (afterKeys.has(row[ROW_KEY]) ? [] : [{ index, row }]));
+  const inserted = after.flatMap((row, index) => (beforeByKey.has(row[ROW_KEY]) ? [] : [{ index, row }]));
+  const updates = after.flatMap(row => {
+    const previous = beforeByKey.get(row[ROW_KEY]);
+    if (!previous || previous === row) return [];
+    const columns = new Set([...Object.keys(previous), ...Object.keys(row)]);
+    columns.delete(ROW_KEY);
+    return [...columns]
+      .filter(column => !Object.is(previous[column], row[column]))
+      .map(column => ({ rowKey: row[ROW_KEY], column, before: previous[column], after: row[column] }));
+  });
+
+  const commands: EditCommand[] = [
+    { type: 'delete_rows', rows: deleted },
+    { type: 'update_cells', updates },
+    { type: 'insert_rows', rows: inserted }
+  ];
+  const parts = commands.filter(command => !isEmptyCommand(command));
+  return parts.length === 1 ? parts[0] : { type: 'batch', commands: parts };
+}
+
+// Records a new entry, discarding anything that could have been redone
+export function pushEntry(history: EditHistoryState, label: string, command: EditCommand): EditHistoryState {
+  const entry: HistoryEntry = {
+    id: `edit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    label,
+    command
+  };
+  const entries = [...history.entries.slice(0, history.position), entry].slice(-HISTORY_LIMIT);
+  return { entries, position: entries.length };
+}
+
+/**
+ * Restores a saved history only when it still describes the rows being
+ * opened; otherwise the editor starts with a fresh history.
+ */
+export function restoreHistory(saved: SavedEditHistory | undefined, rowCount: number): SavedEditHistory | null {
+  if (!saved || !Array.isArray(saved.entries) || !Array.isArray(saved.rowKeys)) return null;
+  if (saved.rowKeys.length !== rowCount) return null;
+  const position = Math.max(0, Math.min(saved.position, saved.entries.length));
+  return { ...saved, position };
+}
@@ -0,0 +1,353 @@
+/**
+ * Natural-language edit plans
+ * The configured LLM turns an edit request into a structured plan (column
+ * transforms, row filters, row additions and value rewrites) from a sample of
+ * the data; the plan is then applied locally to every row, so the model never
+ * has to return the whole dataset and the result can be previewed as a diff.
+ */
+
+import type { LLMClient } from './llmClient';
+import { sameValue } from './datasetDiff';
+import type { DatasetSchema } from './schema';
+
+type Row = Record<string, unknown>;
+
+export type ConditionOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'matches' | 'empty' | 'not_empty';
+
+export interface RowCondition {
+  column: string;
+  operator: ConditionOperator;
+  value?: unknown;
+}
+
+export type ColumnTransform =
+  | { kind: 'set'; value: unknown }
+  | { kind: 'uppercase' | 'lowercase' | 'capitalize' | 'trim' }
+  // `pattern` is a regular expression, replaced globally
+  | { kind: 'replace'; pattern: string; replacement: string }
+  | { kind: 'scale'; factor: number }
+  | { kind: 'offset'; amount: number }
+  | { kind: 'round'; decimals?: number }
+  | { kind: 'clamp'; min?: number; max?: number };
+
+export type EditOperation =
+  | { type: 'transform_column'; column: string; transform: ColumnTransform; where?: RowCondition }
+  // Removes every row matching the condition
+  | { type: 'filter_rows'; where: RowCondition }
+  | { type: 'add_rows'; rows: Row[] }
+  // Exact old value → new value replacements within one column
+  | { type: 'rewrite_values'; column: string; mapping: Record<string, unknown> };
+
+export interface EditPlan {
+  prompt: string;
+  summary: string;
+  operations: EditOperation[];
+  // Operations from the model that were dropped because they were malformed
+  skipped: string[];
+}
+
+// Rows shown to the model; the plan it returns is applied to all of them
+const SAMPLE_ROWS = 15;
+
+const OPERATORS: ConditionOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'matches', 'empty', 'not_empty'];
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function columnTypes(rows: Row[], schema?: DatasetSchema): Record<string, string> {
+  const columns = new Set(Object.keys(schema ?? {}));
+  rows.slice(0, 100).forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  return Object.fromEntries([...columns].map(column => {
+    if (schema?.[column]) return [column, schema[column].type];
+    const sample = rows.find(row => !isBlank(row[column]))?.[column];
+    return [column, sample === undefined ? 'unknown' : typeof sample];
+  }));
+}
+
+function buildPrompt(request: string, rows: Row[], types: Record<string, string>): string {
+  return `You edit tabular datasets. Turn the user's request into an edit plan that will be applied to every row.
+
+Columns (name: type): ${Object.entries(types).map(([column, type]) => `${column}: ${type}`).join(', ')}
+Total rows: ${rows.length}
+Sample rows:
+${JSON.stringify(rows.slice(0, SAMPLE_ROWS), null, 2)}
+
+User request: "${request}"
+
+Reply with JSON only, in this shape:
+{
+  "summary": "<one sentence describing the edit>",
+  "operations": [<operation>, ...]
+}
+
+Operations:
+- {"type": "transform_column", "column": "<column>", "transform": <transform>, "where": <condition, optional>}
+  Transforms: {"kind": "set", "value": <value>}, {"kind": "uppercase"}, {"kind": "lowercase"}, {"kind": "capitalize"},
+  {"kind": "trim"}, {"kind": "replace", "pattern": "<regex>", "replacement": "<text>"}, {"kind": "scale", "factor": <number>},
+  {"kind": "offset", "amount": <number>}, {"kind": "round", "decimals": <number>}, {"kind": "clamp", "min": <number>, "max": <number>}
+- {"type": "filter_rows", "where": <condition>} removes every row matching the condition
+- {"type": "add_rows", "rows": [{<column>: <value>, ...}]} appends complete rows using the existing columns
+- {"type": "rewrite_values", "column": "<column>", "mapping": {"<old value>": <new value>}} replaces exact values
+
+Conditions: {"column": "<column>", "operator": "${OPERATORS.join('" | "')}", "value": <value>}
+
+Use only the listed columns, except that "set" may create a new column. Prefer a few general operations over
+per-row rewrites. If the request cannot be expressed with these operations, return an empty "operations" list and
+explain why in "summary".`;
+}
+
+function parseCondition(raw: unknown, columns: Set<string>): RowCondition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { column, operator, value } = raw as Record<string, unknown>;
+  if (typeof column !== 'string' || !columns.has(column)) return null;
+  if (!OPERATORS.includes(operator as ConditionOperator)) return null;
+  if (operator === 'matches') {
+    try {
+      new RegExp(String(value));
+    } catch {
+      return null;
+    }
+  }
+  return { column, operator: operator as ConditionOperator, value };
+}
+
+function parseTransform(raw: unknown): ColumnTransform | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const transform = raw as Record<string, unknown>;
+  const number = (key: string) => toNumber(transform[key]) ?? undefined;
+
+  switch (transform.kind) {
+    case 'set':
+      return { kind: 'set', value: transform.value ?? null };
+    case 'uppercase':
+    case 'lowercase':
+    case 'capitalize':
+    case 'trim':
+      return { kind: transform.kind };
+    case 'replace':
+      if (typeof transform.pattern !== 'string') return null;
+      try {
+        new RegExp(transform.pattern, 'g');
+      } catch {
+        return null;
+      }
+      return { kind: 'replace', pattern: transform.pattern, replacement: String(transform.replacement ?? '') };
+    case 'scale':
+      return number('factor') === undefined ? null : { kind: 'scale', factor: number('factor')! };
+    case 'offset':
+      return number('amount') === undefined ? null : { kind: 'offset', amount: number('amount')! };
+    case 'round':
+      return { kind: 'round', decimals: Math.max(0, Math.min(10, Math.round(number('decimals') ?? 0))) };
+    case 'clamp': {
+      const min = number('min');
+      const max = number('max');
+      return min === undefined && max === undefined ? null : { kind: 'clamp', min, max };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates a model reply against the dataset's columns. Malformed operations
+ * are dropped and listed in `skipped` rather than failing the whole plan.
+ */
+export function parseEditPlan(prompt: string, reply: unknown, columns: string[]): EditPlan {
+  const known = new Set(columns);
+  const raw = (reply && typeof reply === 'object' ? reply : {}) as { summary?: unknown; operations?: unknown };
+  const operations: EditOperation[] = [];
+  const skipped: string[] = [];
+
+  (Array.isArray(raw.operations) ? raw.operations : []).forEach((candidate, index) => {
+    const op = (candidate && typeof candidate === 'object' ? candidate : {}) as Record<string, unknown>;
+    const skip = (reason: string) => skipped.push(`Operation ${index + 1} (${String(op.type ?? 'unknown')}): ${reason}`);
+
+    switch (op.type) {
+      case 'transform_column': {
+        const transform = parseTransform(op.transform);
+        if (!transform) return skip('unsupported transform');
+        if (typeof op.column !== 'string' || (!known.has(op.column) && transform.kind !== 'set')) return skip('unknown column');
+        const where = op.where === undefined || op.where === null ? undefined : parseCondition(op.where, known);
+        if (where === null) return skip('invalid condition');
+        operations.push({ type: 'transform_column', column: op.column, transform, ...(where && { where }) });
+        return;
+      }
+      case 'filter_rows': {
+        const where = parseCondition(op.where, known);
+        if (!where) return skip('invalid condition');
+        operations.push({ type: 'filter_rows', where });
+        return;
+      }
+      case 'add_rows': {
+        const rows = (Array.isArray(op.rows) ? op.rows : []).filter(
+          (row): row is Row => !!row && typeof row === 'object' && !Array.isArray(row)
+        );
+        if (rows.length === 0) return skip('no rows to add');
+        operations.push({
+          type: 'add_rows',
+          rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? ''])))
+        });
+        return;
+      }
+      case 'rewrite_values': {
+        if (typeof op.column !== 'string' || !known.has(op.column)) return skip('unknown column');
+        if (!op.mapping || typeof op.mapping !== 'object' || Object.keys(op.mapping).length === 0) return skip('empty mapping');
+        operations.push({ type: 'rewrite_values', column: op.column, mapping: op.mapping as Record<string, unknown> });
+        return;
+      }
+      default:
+        skip('unsupported operation');
+    }
+  });
+
+  return {
+    prompt,
+    summary: typeof raw.summary === 'string' && raw.summary.trim() ? raw.summary.trim() : prompt,
+    operations,
+    skipped
+  };
+}
+
+/**
+ * Asks the configured model for an edit plan. Only a sample of the rows is
+ * sent; the columns and row count describe the rest.
+ */
+export async function requestEditPlan(
+  client: LLMClient,
+  prompt: string,
+  rows: Row[],
+  schema?: DatasetSchema
+): Promise<EditPlan> {
+  const types = columnTypes(rows, schema);
+  const reply = await client.completeJSON<unknown>(buildPrompt(prompt, rows, types), { temperature: 0.2 });
+  return parseEditPlan(prompt, reply, Object.keys(types));
+}
+
+export function matchesCondition(row: Row, condition: RowCondition): boolean {
+  const value = row[condition.column];
+  const target = condition.value;
+
+  switch (condition.operator) {
+    case 'empty':
+      return isBlank(value);
+    case 'not_empty':
+      return !isBlank(value);
+    case 'eq':
+      return sameValue(value, target);
+    case 'neq':
+      return !sameValue(value, target);
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(String(target ?? '').toLowerCase());
+    case 'matches':
+      return new RegExp(String(target)).test(String(value ?? ''));
+    default: {
+      // Ordering compares numbers when both sides are numeric, otherwise text
+      const a = toNumber(value);
+      const b = toNumber(target);
+      const order = a !== null && b !== null ? a - b : String(value ?? '').localeCompare(String(target ?? ''));
+      if (isBlank(value)) return false;
+      if (condition.operator === 'gt') return order > 0;
+      if (condition.operator === 'gte') return order >= 0;
+      if (condition.operator === 'lt') return order < 0;
+      return order <= 0;
+    }
+  }
+}
+
+function applyTransform(value: unknown, transform: ColumnTransform): unknown {
+  if (transform.kind === 'set') return transform.value;
+  if (isBlank(value)) return value;
+
+  const number = toNumber(value);
+  switch (transform.kind) {
+    case 'uppercase':
+      return String(value).toUpperCase();
+    case 'lowercase':
+      return String(value).toLowerCase();
+    case 'capitalize':
+      return String(value).toLowerCase().replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+    case 'trim':
+      return String(value).trim().replace(/\s+/g, ' ');
+    case 'replace':
+      return String(value).replace(new RegExp(transform.pattern, 'g'), transform.replacement);
+    case 'scale':
+      return number === null ? value : number * transform.factor;
+    case 'offset':
+      return number === null ? value : number + transform.amount;
+    case 'round': {
+      if (number === null) return value;
+      const factor = 10 ** (transform.decimals ?? 0);
+      return Math.round(number * factor) / factor;
+    }
+    case 'clamp':
+      if (number === null) return value;
+      return Math.min(transform.max ?? Infinity, Math.max(transform.min ?? -Infinity, number));
+  }
+}
+
+/**
+ * Applies a plan's operations in order and returns new rows; the input is not
+ * modified. `createRow` gives added rows whatever bookkeeping fields the
+ * caller needs (such as a row id).
+ */
+export function applyEditPlan<T extends Row>(rows: T[], plan: EditPlan, createRow: (values: Row) => T): T[] {
+  let result = rows;
+
+  for (const op of plan.operations) {
+    switch (op.type) {
+      case 'transform_column':
+        result = result.map(row =>
+          op.where && !matchesCondition(row, op.where) ? row : { ...row, [op.column]: applyTransform(row[op.column], op.transform) }
+        );
+        break;
+      case 'filter_rows':
+        result = result.filter(row => !matchesCondition(row, op.where));
+        break;
+      case 'add_rows':
+        result = [...result, ...op.rows.map(createRow)];
+        break;
+      case 'rewrite_values': {
+        const mapping = Object.entries(op.mapping);
+        result = result.map(row => {
+          const match = mapping.find(([from]) => sameValue(row[op.column], from));
+          return match ? { ...row, [op.column]: match[1] } : row;
+        });
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+const formatCondition = (condition: RowCondition) =>
+  `${condition.column} ${condition.operator.replace('_', ' ')}${condition.value === undefined ? '' : ` ${JSON.stringify(condition.value)}`}`;
+
+export function describeOperation(op: EditOperation): string {
+  switch (op.type) {
+    case 'transform_column': {
+      const { transform } = op;
+      const detail =
+        transform.kind === 'set' ? `set to ${JSON.stringify(transform.value)}` :
+        transform.kind === 'replace' ? `replace /${transform.pattern}/ with "${transform.replacement}"` :
+        transform.kind === 'scale' ? `multiply by ${transform.factor}` :
+        transform.kind === 'offset' ? `add ${transform.amount}` :
+        transform.kind === 'round' ? `round to ${transform.decimals ?? 0} decimals` :
+        transform.kind === 'clamp' ? `clamp to ${transform.min ?? '−∞'}…${transform.max ?? '∞'}` :
+        transform.kind;
+      return `${op.column}: ${detail}${op.where ? ` where ${formatCondition(op.where)}` : ''}`;
+    }
+    case 'filter_rows':
+      return `Remove rows where ${formatCondition(op.where)}`;
+    case 'add_rows':
+      return `Add ${op.rows.length} row${op.rows.length === 1 ? '' : 's'}`;
+    case 'rewrite_values':
+      return `${op.column}: rewrite ${Object.keys(op.mapping).length} value${Object.keys(op.mapping).length === 1 ? '' : 's'}`;
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Column expressions
+ * A small formula language for computed columns, parsed and interpreted here
+ * rather than evaluated as JavaScript, so a schema can never run code.
+ *
+ *   quantity * unit_price
+ *   if(age < 18, "minor", if(age < 65, "adult", "senior"))
+ *   upper(left(country, 2)) & "-" & [order id]
+ *   date_diff(signup_date, today(), "days")
+ *
+ * Columns are referenced by name, or in brackets when the name has spaces.
+ * Null inputs give null results instead of errors, except in `&`, which
+ * treats them as empty text.
+ */
+
+export type ExpressionValue = number | string | boolean | null;
+
+export class ExpressionError extends Error {
+  // Character offset in the source, for parse errors
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position + 1})`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+type Node =
+  | { kind: 'literal'; value: ExpressionValue }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'column' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+export interface CompiledExpression {
+  source: string;
+  // Columns the expression reads, in order of first use
+  columns: string[];
+  evaluate: (row: Record<string, unknown>) => ExpressionValue;
+}
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '<', '>', '=', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+      if (!match) throw new ExpressionError(`Unexpected "${char}"`, start);
+      tokens.push({ type: 'number', text: match[0], position: start });
+      index += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let text = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        // A backslash escapes the quote or another backslash
+        if (source[index] === '\\' && index + 1 < source.length) index++;
+        text += source[index++];
+      }
+      if (index >= source.length) throw new ExpressionError('Unterminated text', start);
+      index++;
+      tokens.push({ type: 'string', text, position: start });
+    } else if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end < 0) throw new ExpressionError('Missing "]" after column name', start);
+      tokens.push({ type: 'column', text: source.slice(index + 1, end), position: start });
+      index = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))![0];
+      tokens.push({ type: 'name', text: name, position: start });
+      index += name.length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, index));
+      if (!operator) throw new ExpressionError(`Unexpected "${char}"`, start);
+      tokens.push({ type: 'operator', text: operator, position: start });
+      index += operator.length;
+    }
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// Operator spellings that mean the same thing
+const OPERATOR_ALIASES: Record<string, string> = { '=': '==', '<>': '!=', '&&': 'and', '||': 'or', '!': 'not' };
+
+/**
+ * Recursive descent parser, loosest binding first:
+ * or, and, not, comparison, + - &, * / %, unary minus, ^
+ */
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const operatorOf = (token: Token) => {
+    if (token.type === 'operator') return OPERATOR_ALIASES[token.text] ?? token.text;
+    if (token.type === 'name' && ['and', 'or', 'not'].includes(token.text.toLowerCase())) return token.text.toLowerCase();
+    return null;
+  };
+  const accept = (...ops: string[]) => {
+    const op = operatorOf(peek());
+    if (op && ops.includes(op)) {
+      current++;
+      return op;
+    }
+    return null;
+  };
+  const expect = (op: string) => {
+    if (!accept(op)) throw new ExpressionError(`Expected "${op}"`, peek().position);
+  };
+
+  const binaryLevel = (ops: string[], next: () => Node) => (): Node => {
+    let left = next();
+    let op: string | null;
+    while ((op = accept(...ops))) {
+      left = { kind: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    switch (token.type) {
+      case 'number':
+        current++;
+        return { kind: 'literal', value: Number(token.text) };
+      case 'string':
+        current++;
+        return { kind: 'literal', value: token.text };
+      case 'column':
+        current++;
+        return { kind: 'column', name: token.text };
+      case 'name': {
+        current++;
+        const lower = token.text.toLowerCase();
+        if (accept('(')) {
+          const args: Node[] = [];
+          if (!accept(')')) {
+            do {
+              args.push(or());
+            } while (accept(','));
+            expect(')');
+          }
+          const spec = FUNCTIONS[lower];
+          if (!spec) throw new ExpressionError(`Unknown function "${token.text}"`, token.position);
+          if (args.length < spec.min || args.length > spec.max) {
+            const expected = spec.min === spec.max ? `${spec.min}` : spec.max === Infinity ? `at least ${spec.min}` : `${spec.min} to ${spec.max}`;
+            throw new ExpressionError(`${lower}() takes ${expected} argument${expected === '1' ? '' : 's'}`, token.position);
+          }
+          return { kind: 'call', name: lower, args };
+        }
+        if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true' };
+        if (lower === 'null') return { kind: 'literal', value: null };
+        return { kind: 'column', name: token.text };
+      }
+      case 'operator':
+        if (accept('(')) {
+          const inner = or();
+          expect(')');
+          return inner;
+        }
+        break;
+    }
+    throw new ExpressionError(token.type === 'end' ? 'Expression ended unexpectedly' : `Unexpected "${token.text}"`, token.position);
+  };
+
+  const power = (): Node => {
+    const base = primary();
+    return accept('^') ? { kind: 'binary', op: '^', left: base, right: unary() } : base;
+  };
+  const unary = (): Node => (accept('-') ? { kind: 'unary', op: '-', operand: unary() } : power());
+  const multiplicative = binaryLevel(['*', '/', '%'], unary);
+  const additive = binaryLevel(['+', '-', '&'], multiplicative);
+  const comparison = (): Node => {
+    const left = additive();
+    const op = accept('==', '!=', '<', '<=', '>', '>=');
+    return op ? { kind: 'binary', op, left, right: additive() } : left;
+  };
+  const not = (): Node => (accept('not') ? { kind: 'unary', op: 'not', operand: not() } : comparison());
+  const and = binaryLevel(['and'], not);
+  const or = binaryLevel(['or'], and);
+
+  if (!source.trim()) throw new ExpressionError('Expression is empty');
+  const node = or();
+  if (peek().type !== 'end') throw new ExpressionError(`Unexpected "${peek().text}"`, peek().position);
+  return node;
+}
+
+const isNull = (value: ExpressionValue): value is null => value === null;
+
+const truthy = (value: ExpressionValue) => value !== null && value !== false && value !== 0 && value !== '';
+
+function toNumber(value: ExpressionValue): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  throw new ExpressionError(`"${value}" is not a number`);
+}
+
+const toText = (value: ExpressionValue) => (value === null ? '' : String(value));
+
+// Finite numbers only; overflow and 0/0 become null like any other missing value
+const finite = (value: number) => (Number.isFinite(value) ? value : null);
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function toDate(value: ExpressionValue): Date | null {
+  if (value === null || value === '') return null;
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new ExpressionError(`"${value}" is not a date`);
+  return date;
+}
+
+// Dates keep the form they came in: "2024-05-01" stays a date, anything else becomes a full timestamp
+const dateResult = (date: Date, like: ExpressionValue) =>
+  typeof like === 'string' && DATE_ONLY.test(like) ? date.toISOString().slice(0, 10) : date.toISOString();
+
+const DAY_MS = 86_400_000;
+
+const DATE_UNITS: Record<string, number> = {
+  second: 1000,
+  minute: 60_000,
+  hour: 3_600_000,
+  day: DAY_MS,
+  week: 7 * DAY_MS
+};
+
+function dateUnit(value: ExpressionValue): string {
+  const unit = toText(value).toLowerCase().replace(/s$/, '');
+  if (!(unit in DATE_UNITS) && unit !== 'month' && unit !== 'year') {
+    throw new ExpressionError(`Unknown date unit "${toText(value)}", expected days, weeks, months, years, hours, minutes or seconds`);
+  }
+  return unit;
+}
+
+function compare(op: string, left: ExpressionValue, right: ExpressionValue): boolean | null {
+  if (op === '==' || op === '!=') {
+    // Numbers written as text still equal the number
+    const equal = left === right || (!isNull(left) && !isNull(right) && typeof left !== typeof right && String(left) === String(right));
+    return op === '==' ? equal : !equal;
+  }
+  if (isNull(left) || isNull(right)) return null;
+  const bothNumeric = typeof left !== 'string' || typeof right !== 'string';
+  const a = bothNumeric ? toNumber(left)! : left;
+  const b = bothNumeric ? toNumber(right)! : right;
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+function arithmetic(op: string, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+  if (op === '&') return toText(left) + toText(right);
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+  switch (op) {
+    case '+': return finite(a + b);
+    case '-': return finite(a - b);
+    case '*': return finite(a * b);
+    case '/': return b === 0 ? null : finite(a / b);
+    case '%': return b === 0 ? null : finite(a % b);
+    default: return finite(a ** b);
+  }
+}
+
+interface FunctionSpec {
+  min: number;
+  max: number;
+  // Lazy functions get unevaluated arguments so untaken branches never run
+  lazy?: (args: Node[], evaluate: (node: Node) => ExpressionValue) => ExpressionValue;
+  call?: (args: ExpressionValue[]) => ExpressionValue;
+}
+
+// One-argument helpers that pass null through
+const numeric = (fn: (value: number) => number): FunctionSpec => ({
+  min: 1,
+  max: 1,
+  call: ([value]) => {
+    const number = toNumber(value);
+    return number === null ? null : finite(fn(number));
+  }
+});
+
+const textual = (fn: (value: string) => ExpressionValue, extra = 0): FunctionSpec => ({
+  min: 1 + extra,
+  max: 1 + extra,
+  call: ([value]) => (isNull(value) ? null : fn(String(value)))
+});
+
+const datePart = (fn: (date: Date) => number): FunctionSpec => ({
+  min: 1,
+  max: 1,
+  call: ([value]) => {
+    const date = toDate(value);
+    return date ? fn(date) : null;
+  }
+});
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  // Arithmetic
+  abs: numeric(Math.abs),
+  floor: numeric(Math.floor),
+  ceil: numeric(Math.ceil),
+  sqrt: numeric(Math.sqrt),
+  round: {
+    min: 1,
+    max: 2,
+    call: ([value, digits]) => {
+      const number = toNumber(value);
+      if (number === null) return null;
+      const factor = 10 ** (toNumber(digits ?? 0) ?? 0);
+      return finite(Math.round(number * factor) / factor);
+    }
+  },
+  pow: { min: 2, max: 2, call: ([base, exponent]) => arithmetic('^', base, exponent) },
+  min: {
+    min: 1,
+    max: Infinity,
+    call: (args) => {
+      const numbers = args.map(toNumber).filter((value): value is number => value !== null);
+      return numbers.length ? Math.min(...numbers) : null;
+    }
+  },
+  max: {
+    min: 1,
+    max: Infinity,
+    call: (args) => {
+      const numbers = args.map(toNumber).filter((value): value is number => value !== null);
+      return numbers.length ? Math.max(...numbers) : null;
+    }
+  },
+  number: { min: 1, max: 1, call: ([value]) => toNumber(value) },
+
+  // Text
+  text: { min: 1, max: 1, call: ([value]) => (isNull(value) ? null : String(value)) },
+  upper: textual(text => text.toUpperCase()),
+  lower: textual(text => text.toLowerCase()),
+  trim: textual(text => text.trim()),
+  length: textual(text => text.length),
+  concat: { min: 1, max: Infinity, call: (args) => args.map(toText).join('') },
+  left: {
+    min: 2,
+    max: 2,
+    call: ([value, count]) => (isNull(value) ? null : String(value).slice(0, Math.max(0, toNumber(count) ?? 0)))
+  },
+  right: {
+    min: 2,
+    max: 2,
+    call: ([value, count]) => {
+      if (isNull(value)) return null;
+      const n = Math.max(0, toNumber(count) ?? 0);
+      return n === 0 ? '' : String(value).slice(-n);
+    }
+  },
+  // Start is 1-based, as in spreadsheets
+  substr: {
+    min: 2,
+    max: 3,
+    call: ([value, start, count]) => {
+      if (isNull(value)) return null;
+      const from = Math.max(0, (toNumber(start) ?? 1) - 1);
+      return count === undefined ? String(value).slice(from) : String(value).slice(from, from + Math.max(0, toNumber(count) ?? 0));
+    }
+  },
+  replace: {
+    min: 3,
+    max: 3,
+    call: ([value, find, replacement]) => (isNull(value) ? null : String(value).split(toText(find)).join(toText(replacement)))
+  },
+  contains: { min: 2, max: 2, call: ([value, part]) => (isNull(value) ? null : String(value).includes(toText(part))) },
+  starts_with: { min: 2, max: 2, call: ([value, part]) => (isNull(value) ? null : String(value).startsWith(toText(part))) },
+  ends_with: { min: 2, max: 2, call: ([value, part]) => (isNull(value) ? null : String(value).endsWith(toText(part))) },
+
+  // Dates, read and written as ISO text in UTC
+  today: { min: 0, max: 0, call: () => new Date().toISOString().slice(0, 10) },
+  now: { min: 0, max: 0, call: () => new Date().toISOString() },
+  date: {
+    min: 3,
+    max: 3,
+    call: (args) => {
+      const [year, month, day] = args.map(toNumber);
+      if (year === null || month === null || day === null) return null;
+      return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+    }
+  },
+  year: datePart(date => date.getUTCFullYear()),
+  month: datePart(date => date.getUTCMonth() + 1),
+  day: datePart(date => date.getUTCDate()),
+  // 1 = Monday ... 7 = Sunday
+  weekday: datePart(date => date.getUTCDay() || 7),
+  date_add: {
+    min: 3,
+    max: 3,
+    call: ([value, amount, unitName]) => {
+      const date = toDate(value);
+      const count = toNumber(amount);
+      if (!date || count === null) return null;
+      const unit = dateUnit(unitName);
+      if (unit === 'month' || unit === 'year') {
+        // Month ends are clamped, so Jan 31 plus a month is the last day of February
+        const day = date.getUTCDate();
+        date.setUTCDate(1);
+        date.setUTCMonth(date.getUTCMonth() + Math.trunc(count) * (unit === 'year' ? 12 : 1));
+        const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+        date.setUTCDate(Math.min(day, lastDay));
+      } else {
+        date.setTime(date.getTime() + count * DATE_UNITS[unit]);
+      }
+      return dateResult(date, value);
+    }
+  },
+  // Whole units from start to end, negative when end is earlier
+  date_diff: {
+    min: 3,
+    max: 3,
+    call: ([startValue, endValue, unitName]) => {
+      const start = toDate(startValue);
+      const end = toDate(endValue);
+      if (!start || !end) return null;
+      const unit = dateUnit(unitName);
+      if (unit === 'month' || unit === 'year') {
+        let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+        // A month only counts once its day is reached
+        const partial = end.getUTCDate() * DAY_MS + (end.getTime() % DAY_MS) - (start.getUTCDate() * DAY_MS + (start.getTime() % DAY_MS));
+        if (months > 0 && partial < 0) months--;
+        if (months < 0 && partial > 0) months++;
+        return unit === 'year' ? Math.trunc(months / 12) : months;
+      }
+      return Math.trunc((end.getTime() - start.getTime()) / DATE_UNITS[unit]);
+    }
+  },
+
+  // Conditionals
+  if: {
+    min: 2,
+    max: 3,
+    lazy: ([condition, then, otherwise], evaluate) =>
+      truthy(evaluate(condition)) ? evaluate(then) : otherwise ? evaluate(otherwise) : null
+  },
+  // case(condition1, value1, condition2, value2, ..., default)
+  case: {
+    min: 2,
+    max: Infinity,
+    lazy: (args, evaluate) => {
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        if (truthy(evaluate(args[i]))) return evaluate(args[i + 1]);
+      }
+      return args.length % 2 === 1 ? evaluate(args[args.length - 1]) : null;
+    }
+  },
+  coalesce: {
+    min: 1,
+    max: Infinity,
+    lazy: (args, evaluate) => {
+      for (const arg of args) {
+        const value = evaluate(arg);
+        if (!isNull(value) && value !== '') return value;
+      }
+      return null;
+    }
+  },
+  is_null: { min: 1, max: 1, call: ([value]) => isNull(value) || value === '' },
+  between: {
+    min: 3,
+    max: 3,
+    call: ([value, low, high]) => {
+      const above = compare('>=', value, low);
+      const below = compare('<=', value, high);
+      return above === null || below === null ? null : above && below;
+    }
+  }
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// Row cells as expression values; objects are compared and concatenated as their JSON
+function cellValue(value: unknown): ExpressionValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+function collectColumns(node: Node, columns: Set<string>) {
+  switch (node.kind) {
+    case 'column':
+      columns.add(node.name);
+      break;
+    case 'unary':
+      collectColumns(node.operand, columns);
+      break;
+    case 'binary':
+      collectColumns(node.left, columns);
+      collectColumns(node.right, columns);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectColumns(arg, columns));
+      break;
+  }
+}
+
+/**
+ * Parses an expression once so it can be evaluated against many rows. Syntax
+ * errors, unknown functions and wrong argument counts throw an ExpressionError
+ * here; evaluation throws one for values of the wrong kind, like text in
+ * arithmetic.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const root = parse(source);
+  const columns = new Set<string>();
+  collectColumns(root, columns);
+
+  const evaluate = (row: Record<string, unknown>) => {
+    const visit = (node: Node): ExpressionValue => {
+      switch (node.kind) {
+        case 'literal':
+          return node.value;
+        case 'column':
+          return Object.prototype.hasOwnProperty.call(row, node.name) ? cellValue(row[node.name]) : null;
+        case 'unary': {
+          const operand = visit(node.operand);
+          if (node.op === 'not') return isNull(operand) ? null : !truthy(operand);
+          const number = toNumber(operand);
+          return number === null ? null : -number;
+        }
+        case 'binary': {
+          if (node.op === 'and') return truthy(visit(node.left)) && truthy(visit(node.right));
+          if (node.op === 'or') return truthy(visit(node.left)) || truthy(visit(node.right));
+          const left = visit(node.left);
+          const right = visit(node.right);
+          return ['==', '!=', '<', '<=', '>', '>='].includes(node.op)
+            ? compare(node.op, left, right)
+            : arithmetic(node.op, left, right);
+        }
+        case 'call': {
+          const spec = FUNCTIONS[node.name];
+          return spec.lazy ? spec.lazy(node.args, visit) : spec.call!(node.args.map(visit));
+        }
+      }
+    };
+    return visit(root);
+  };
+
+  return { source, columns: [...columns], evaluate };
+}
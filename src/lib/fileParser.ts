@@ -0,0 +1,215 @@
+/**
+ * Upload parsing
+ * One entry point for every accepted upload format. CSV goes through the RFC 4180
+ * parser; spreadsheets (xlsx, xls, ods) are read sheet by sheet with merged cells
+ * filled in and the header row detected below any title rows; Parquet and Arrow
+ * keep the types stored in the file.
+ */
+
+import * as XLSX from 'xlsx';
+import { COLUMNAR_EXTENSIONS, readArrow, readParquet } from './columnarFormats';
+import { decodeText, parseCsv, uniqueHeaders, type CsvIssue } from './csvParser';
+
+export type UploadFormat = 'csv' | 'json' | 'spreadsheet' | 'parquet' | 'arrow';
+
+export type UploadRow = Record<string, unknown>;
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  // 1-based worksheet row holding the column names
+  headerRow: number;
+  headers: string[];
+  mergedRanges: number;
+}
+
+export interface ParsedTable {
+  name: string;
+  headers: string[];
+  rows: UploadRow[];
+}
+
+export interface ParsedUpload {
+  format: UploadFormat;
+  tables: ParsedTable[];
+  sheets?: SheetSummary[];
+  csv?: { delimiter: string; encoding: string; issues: CsvIssue[] };
+}
+
+export interface SpreadsheetOptions {
+  // Sheets to import; defaults to the first one
+  sheets?: string[];
+  // Overrides for the detected header row, keyed by sheet name (1-based)
+  headerRows?: Record<string, number>;
+}
+
+export const CSV_EXTENSIONS = ['csv', 'tsv', 'txt'];
+export const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'ods'];
+
+// Rows scanned for the header; title blocks above a table are rarely longer
+const HEADER_SCAN_ROWS = 20;
+
+type Cell = string | number | boolean | Date | null;
+
+export const fileExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isSpreadsheet = (file: File) => SPREADSHEET_EXTENSIONS.includes(fileExtension(file));
+
+const isEmptyCell = (cell: Cell) => cell === null || (typeof cell === 'string' && cell.trim() === '');
+
+// Spreadsheet dates come back as local-time Date objects; keep whole days as plain dates
+const normalizeCell = (cell: Cell): unknown => {
+  if (!(cell instanceof Date)) return typeof cell === 'string' ? cell.trim() : cell;
+  if (Number.isNaN(cell.getTime())) return null;
+  const wholeDay = cell.getHours() === 0 && cell.getMinutes() === 0 && cell.getSeconds() === 0;
+  if (!wholeDay) return cell.toISOString();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${cell.getFullYear()}-${pad(cell.getMonth() + 1)}-${pad(cell.getDate())}`;
+};
+
+/**
+ * Copies the value of each merged range's top-left cell into every cell it covers,
+ * so merged labels repeat on every row instead of appearing once.
+ */
+function fillMergedCells(sheet: XLSX.WorkSheet): number {
+  const merges = sheet['!merges'] || [];
+  for (const range of merges) {
+    const source = sheet[XLSX.utils.encode_cell(range.s)];
+    if (!source) continue;
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        if (r === range.s.r && c === range.s.c) continue;
+        sheet[XLSX.utils.encode_cell({ r, c })] = { ...source };
+      }
+    }
+  }
+  return merges.length;
+}
+
+/**
+ * Index of the first row that looks like column names: distinct, non-numeric
+ * labels filling at least half of the table's width.
+ */
+export function detectHeaderRow(rows: Cell[][]): number {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const filled = scanned.map(row => row.filter(cell => !isEmptyCell(cell)));
+  const width = filled.reduce((widest, cells) => Math.max(widest, cells.length), 0);
+  const wideEnough = (cells: Cell[]) => cells.length > 0 && cells.length >= Math.ceil(width / 2);
+
+  const labelRow = filled.findIndex(cells =>
+    wideEnough(cells) &&
+    cells.every(cell => typeof cell === 'string' && Number.isNaN(Number(cell))) &&
+    new Set(cells.map(String)).size === cells.length
+  );
+  if (labelRow >= 0) return labelRow;
+
+  const firstWide = filled.findIndex(wideEnough);
+  return firstWide >= 0 ? firstWide : 0;
+}
+
+function readSheetGrid(workbook: XLSX.WorkBook, name: string): { grid: Cell[][]; firstRow: number; mergedRanges: number } {
+  const sheet = workbook.Sheets[name];
+  if (!sheet) throw new Error(`Sheet "${name}" not found`);
+
+  const mergedRanges = fillMergedCells(sheet);
+  const grid = XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, defval: null, blankrows: true, raw: true });
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+  return { grid, firstRow, mergedRanges };
+}
+
+function tableFromGrid(name: string, grid: Cell[][], headerIndex: number): ParsedTable {
+  const headerCells = grid[headerIndex] || [];
+  const body = grid.slice(headerIndex + 1).filter(row => row.some(cell => !isEmptyCell(cell)));
+
+  // Drop trailing columns that have neither a name nor any value
+  const width = body.reduce((widest, row) => Math.max(widest, row.length), headerCells.length);
+  const columns = Array.from({ length: width }, (_, index) => index).filter(index =>
+    !isEmptyCell(headerCells[index] ?? null) || body.some(row => !isEmptyCell(row[index] ?? null))
+  );
+
+  const headers = uniqueHeaders(columns.map(index => String(normalizeCell(headerCells[index] ?? null) ?? '')));
+  const rows = body.map(row => {
+    const record: UploadRow = {};
+    columns.forEach((index, position) => {
+      record[headers[position]] = normalizeCell(row[index] ?? null);
+    });
+    return record;
+  });
+
+  return { name, headers, rows };
+}
+
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(buffer, { type: 'array', cellDates: true });
+}
+
+// Parses one sheet into a table and the summary shown in the sheet picker
+function readSheet(workbook: XLSX.WorkBook, name: string, headerRow?: number): { table: ParsedTable; summary: SheetSummary } {
+  const { grid, firstRow, mergedRanges } = readSheetGrid(workbook, name);
+  const headerIndex = headerRow !== undefined ? Math.max(0, headerRow - 1 - firstRow) : detectHeaderRow(grid);
+  const table = tableFromGrid(name, grid, headerIndex);
+  return {
+    table,
+    summary: {
+      name,
+      rowCount: table.rows.length,
+      columnCount: table.headers.length,
+      headerRow: firstRow + headerIndex + 1,
+      headers: table.headers,
+      mergedRanges
+    }
+  };
+}
+
+export function summarizeSheets(workbook: XLSX.WorkBook): SheetSummary[] {
+  return workbook.SheetNames.map(name => readSheet(workbook, name).summary);
+}
+
+export async function parseUploadFile(file: File, options: SpreadsheetOptions = {}): Promise<ParsedUpload> {
+  const extension = fileExtension(file);
+  const buffer = await file.arrayBuffer();
+  const tableName = file.name.replace(/\.[^.]+$/, '');
+
+  if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+    const workbook = readWorkbook(buffer);
+    // Each sheet is read once; the selected ones also become tables
+    const selected = options.sheets?.length ? options.sheets : workbook.SheetNames.slice(0, 1);
+    const read = new Map(workbook.SheetNames.map(name => [name, readSheet(workbook, name, options.headerRows?.[name])]));
+    const tables = selected.map(name => {
+      const sheet = read.get(name);
+      if (!sheet) throw new Error(`Sheet "${name}" not found`);
+      return sheet.table;
+    });
+    return { format: 'spreadsheet', tables, sheets: [...read.values()].map(sheet => sheet.summary) };
+  }
+
+  const columnar = COLUMNAR_EXTENSIONS[extension];
+  if (columnar) {
+    const rows = columnar === 'parquet' ? await readParquet(buffer) : readArrow(buffer);
+    return { format: columnar, tables: [{ name: tableName, headers: Object.keys(rows[0] || {}), rows }] };
+  }
+
+  const { text, encoding } = decodeText(buffer);
+
+  if (extension === 'json') {
+    const parsed = JSON.parse(text);
+    // Handle single object (convert to array)
+    const rows: UploadRow[] = Array.isArray(parsed) ? parsed : [parsed];
+    return { format: 'json', tables: [{ name: tableName, headers: Object.keys(rows[0] || {}), rows }] };
+  }
+
+  if (CSV_EXTENSIONS.includes(extension)) {
+    const parsed = parseCsv(text, { encoding });
+    if (parsed.issues.length > 0) {
+      console.warn(`⚠️ ${parsed.issues.length} malformed lines in ${file.name}:`, parsed.issues.slice(0, 10));
+    }
+    return {
+      format: 'csv',
+      tables: [{ name: tableName, headers: parsed.headers, rows: parsed.rows }],
+      csv: { delimiter: parsed.delimiter, encoding: parsed.encoding, issues: parsed.issues }
+    };
+  }
+
+  throw new Error('Unsupported file format. Please use CSV, Excel, OpenDocument, JSON, Parquet or Arrow files.');
+}
@@ -1,5 +1,7 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { generateInChunks, type ChunkProgress } from './chunkedGeneration';
+import { parseSchema, type DatasetSchema } from './schema';
 
 const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
 
@@ -40,6 +42,13 @@ if (isGeminiConfigured && apiKey) {
   }
 }
 
+// Generation settings sent with one chunk; rowCount and startIndex locate it in the run
+interface SchemaChunkConfig {
+  rowCount: number;
+  startIndex: number;
+  [setting: string]: unknown;
+}
+
 export class GeminiService {
   private model = genAI?.getGenerativeModel({ model: 'gemini-2.0-flash-exp' }) || null;
 
@@ -190,8 +199,8 @@ export class GeminiService {
       Please analyze the description and create a comprehensive schema that includes:
       
       1. Field names that match the described data
-      2. Appropriate data types (string, number, boolean, date, email, phone, etc.)
-      3. Constraints where applicable (min/max values, required fields)
+      2. Appropriate data types (string, number, integer, boolean, date, email, phone, enum, etc.)
+      3. Constraints where applicable (min/max values, required fields, allowed enum values, regex patterns)
       4. Sample values or examples for each field
       5. Relationships between fields if applicable
       6. Domain-specific field suggestions
@@ -200,14 +209,18 @@ export class GeminiService {
       {
         "schema": {
           "field_name": {
-            "type": "string|number|boolean|date|datetime|email|phone|uuid|text",
+            "type": "string|number|integer|boolean|date|datetime|email|phone|uuid|text|enum|reference",
             "description": "Clear description of the field",
+            "nullable": boolean,
             "constraints": {
               "min": number,
               "max": number,
               "required": boolean,
-              "unique": boolean
+              "unique": boolean,
+              "pattern": "optional regex",
+              "enum": ["allowed values, required for enum fields"]
             },
+            "reference": { "table": "target table, required for reference fields", "field": "target field" },
             "examples": ["example1", "example2", "example3"]
           }
         },
@@ -243,7 +256,7 @@ export class GeminiService {
       }
       
       return {
-        schema: parsed.schema,
+        schema: parseSchema(parsed.schema),
         detectedDomain: parsed.detectedDomain || domain,
         estimatedRows: parsed.estimatedRows || 100,
         relationships: parsed.relationships || [],
@@ -259,21 +272,38 @@ export class GeminiService {
   async generateSyntheticDataFromSchema(
     schema: any, 
     config: any, 
-    description: string = ""
+    description: string = "",
+    onProgress?: (progress: ChunkProgress) => void
   ): Promise<any[]> {
     if (!this.model) {
       throw new Error('Gemini AI not configured. Please set up your API key to use AI features.');
     }
 
-    // Cap row count at 100 for quota management
-    const rowCount = Math.min(config.rowCount || 100, 100);
+    // Large requests are split into quota-sized chunks
+    const { data } = await generateInChunks({
+      totalRows: Math.max(1, config.rowCount || 100),
+      schema,
+      onProgress,
+      generateChunk: ({ rowCount, startIndex }) =>
+        this.generateSchemaChunk(schema, { ...config, rowCount, startIndex }, description)
+    });
+
+    return data;
+  }
+
+  private async generateSchemaChunk(
+    schema: DatasetSchema,
+    config: SchemaChunkConfig,
+    description: string
+  ): Promise<Record<string, unknown>[]> {
+    const rowCount = config.rowCount;
 
     const prompt = `
       Generate ${rowCount} rows of realistic synthetic data based on this schema:
       
       Schema: ${JSON.stringify(schema, null, 2)}
       Original Description: "${description}"
-      Configuration: ${JSON.stringify({...config, rowCount}, null, 2)}
+      Configuration: ${JSON.stringify(config, null, 2)}
       
       Generate data that:
       1. Follows the exact schema structure
@@ -282,12 +312,14 @@ export class GeminiService {
       4. Ensures variety and realistic distribution
       5. Follows domain-specific patterns when applicable
       6. NO placeholder text like "Sample X" or generic patterns
+      7. Numbers any sequential IDs starting after ${config.startIndex}
+      8. Follows each field's "distribution" when present (quantiles, mean/std, value frequencies, null rate)
       
       Return as a JSON array of ${rowCount} objects.
     `;
 
     try {
-      const result = await this.model.generateContent(prompt);
+      const result = await this.model!.generateContent(prompt);
       const response = await result.response;
       
       let text = response.text();
@@ -300,7 +332,7 @@ export class GeminiService {
       }
       
       text = text.trim();
-      const data = JSON.parse(text);
+      const data: unknown = JSON.parse(text);
       
       if (Array.isArray(data) && data.length > 0) {
         return data.slice(0, rowCount);
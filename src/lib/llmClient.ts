@@ -0,0 +1,129 @@
+/**
+ * Provider-agnostic LLM client
+ * Sends prompts straight from the browser to whichever provider is configured in
+ * the model store, so features can use the user's own model and key.
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { ModelConfig } from '../store/modelStore';
+
+export type LLMConfig = Pick<ModelConfig, 'provider' | 'model' | 'apiKey' | 'endpoint'>;
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1';
+const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434';
+
+export class LLMClient {
+  constructor(private config: LLMConfig) {
+    if (config.provider !== 'ollama' && !config.apiKey) {
+      throw new Error(`No API key configured for ${config.provider}`);
+    }
+  }
+
+  get label(): string {
+    return `${this.config.provider} ${this.config.model}`;
+  }
+
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    const { temperature = 0.7, maxTokens = 4096 } = options;
+    const { provider, model, apiKey, endpoint } = this.config;
+
+    switch (provider) {
+      case 'gemini': {
+        const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+          model,
+          generationConfig: { temperature, maxOutputTokens: maxTokens }
+        });
+        const result = await generativeModel.generateContent(prompt);
+        return result.response.text();
+      }
+      case 'openai': {
+        const data = await this.post(`${endpoint || DEFAULT_OPENAI_ENDPOINT}/chat/completions`, {
+          Authorization: `Bearer ${apiKey}`
+        }, {
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature,
+          max_tokens: maxTokens
+        });
+        return data.choices?.[0]?.message?.content ?? '';
+      }
+      case 'anthropic': {
+        const data = await this.post(`${endpoint || 'https://api.anthropic.com'}/v1/messages`, {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true'
+        }, {
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: 'user', content: prompt }]
+        });
+        return (data.content || [])
+          .filter((block: { type: string }) => block.type === 'text')
+          .map((block: { text: string }) => block.text)
+          .join('');
+      }
+      case 'ollama': {
+        const data = await this.post(`${endpoint || DEFAULT_OLLAMA_ENDPOINT}/api/generate`, {}, {
+          model,
+          prompt,
+          stream: false,
+          options: { temperature, num_predict: maxTokens }
+        });
+        return data.response ?? '';
+      }
+      default:
+        throw new Error(`Unsupported provider: ${provider as string}`);
+    }
+  }
+
+  /**
+   * Completes a prompt that asks for JSON and parses the reply, tolerating
+   * markdown code fences and prose around the payload.
+   */
+  async completeJSON<T>(prompt: string, options?: CompletionOptions): Promise<T> {
+    const text = await this.complete(prompt, options);
+    return parseJSONReply<T>(text);
+  }
+
+  private async post(url: string, headers: Record<string, string>, body: unknown) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${this.config.provider} request failed (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
+
+export function parseJSONReply<T>(text: string): T {
+  let payload = text.trim();
+
+  const fenced = payload.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    payload = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(payload) as T;
+  } catch {
+    // Fall back to the outermost array or object in the reply
+    const start = payload.search(/[[{]/);
+    const end = Math.max(payload.lastIndexOf(']'), payload.lastIndexOf('}'));
+    if (start >= 0 && end > start) {
+      return JSON.parse(payload.slice(start, end + 1)) as T;
+    }
+    throw new Error('The model did not return valid JSON');
+  }
+}
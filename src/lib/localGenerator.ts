@@ -0,0 +1,305 @@
+/**
+ * Deterministic local data engine
+ * Rule-based generation from a schema and a seed, with no AI provider involved.
+ * The same seed and schema always produce identical rows.
+ */
+
+import type { DatasetSchema, SchemaField, ValueFrequency } from './schema';
+
+export type LocalRow = Record<string, string | number | boolean | null>;
+
+// Fixed window for dates without explicit bounds, so output never depends on "now"
+const DEFAULT_DATE_MIN = Date.UTC(2020, 0, 1);
+const DEFAULT_DATE_MAX = Date.UTC(2024, 11, 31, 23, 59, 59);
+
+// Share of values left empty in nullable, non-required fields
+const NULL_RATE = 0.05;
+
+// Attempts at drawing a fresh value before a unique field is given up on
+const MAX_UNIQUE_ATTEMPTS = 50;
+
+const FIRST_NAMES = [
+  'Amara', 'Liam', 'Sofia', 'Wei', 'Noah', 'Priya', 'Mateo', 'Aisha', 'Lucas', 'Yuki',
+  'Elena', 'Omar', 'Chloe', 'Ravi', 'Hana', 'Diego', 'Maya', 'Kofi', 'Ingrid', 'Tariq'
+];
+const LAST_NAMES = [
+  'Okafor', 'Nguyen', 'Garcia', 'Chen', 'Smith', 'Patel', 'Rossi', 'Hassan', 'Müller', 'Kim',
+  'Silva', 'Johnson', 'Kowalski', 'Tanaka', 'Andersen', 'Mensah', 'Dubois', 'Reyes', 'Novak', 'Ali'
+];
+const CITIES = [
+  'Lisbon', 'Toronto', 'Nairobi', 'Osaka', 'Austin', 'Melbourne', 'Berlin', 'Bogotá', 'Pune', 'Oslo'
+];
+const COUNTRIES = ['Portugal', 'Canada', 'Kenya', 'Japan', 'United States', 'Australia', 'Germany', 'Colombia', 'India', 'Norway'];
+const EMAIL_DOMAINS = ['example.com', 'example.org', 'mail.test', 'inbox.test'];
+const WORDS = [
+  'account', 'balance', 'customer', 'delivery', 'order', 'review', 'service', 'quality', 'update', 'request',
+  'payment', 'schedule', 'report', 'support', 'product', 'feedback', 'issue', 'record', 'status', 'visit'
+];
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: string | number) {
+    this.state = SeededRandom.hash(String(seed));
+  }
+
+  // xmur3 string hash, used to turn arbitrary seeds into a 32-bit state
+  private static hash(seed: string): number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+      h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+      h = (h << 13) | (h >>> 19);
+    }
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^= h >>> 16) >>> 0;
+  }
+
+  // mulberry32
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  float(min: number, max: number, decimals = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round((min + this.next() * (max - min)) * factor) / factor;
+  }
+
+  bool(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toTimestamp = (value: unknown, fallback: number): number => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = typeof value === 'number' ? value : Date.parse(String(value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+export class LocalDataGenerator {
+  private random: SeededRandom;
+
+  constructor(private schema: DatasetSchema, seed: string | number = 'datagenesis') {
+    this.random = new SeededRandom(seed);
+  }
+
+  generate(rowCount: number): LocalRow[] {
+    const fields = Object.entries(this.schema);
+    const used = new Map<string, Set<string>>();
+    // Where the scan for a free number resumes, per field; values below it are taken
+    const cursors = new Map<string, number>();
+    const rows: LocalRow[] = [];
+
+    for (let index = 0; index < rowCount; index++) {
+      const row: LocalRow = {};
+      const person = {
+        first: this.random.pick(FIRST_NAMES),
+        last: this.random.pick(LAST_NAMES)
+      };
+
+      for (const [name, field] of fields) {
+        const nullRate = field.distribution?.nullRate ?? NULL_RATE;
+        if (field.nullable && !field.constraints?.required && !field.constraints?.unique && this.random.bool(nullRate)) {
+          row[name] = null;
+          continue;
+        }
+        if (!field.constraints?.unique) {
+          row[name] = this.generateValue(name, field, index, person);
+          continue;
+        }
+
+        const seen = used.get(name) ?? new Set<string>();
+        used.set(name, seen);
+
+        let value = this.generateValue(name, field, index, person);
+        let attempts = 1;
+        while (seen.has(String(value)) && attempts < MAX_UNIQUE_ATTEMPTS) {
+          value = this.generateValue(name, field, index, person);
+          attempts++;
+        }
+        if (seen.has(String(value))) {
+          value = this.disambiguate(name, field, value, index, seen, cursors);
+        }
+        seen.add(String(value));
+        row[name] = value;
+      }
+
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private generateValue(
+    name: string,
+    field: SchemaField,
+    index: number,
+    person: { first: string; last: string }
+  ): string | number | boolean {
+    const type = field.type;
+    const key = name.toLowerCase();
+    const { min, max } = field.constraints || {};
+    const examples = (field.examples || []).filter(example => example !== null && example !== undefined);
+    const { quantiles, frequencies } = field.distribution || {};
+
+    // Observed value frequencies (enums, booleans, categorical strings) take precedence
+    if (frequencies?.length && type !== 'reference') {
+      return this.weightedPick(frequencies);
+    }
+
+    switch (type) {
+      case 'integer':
+      case 'number': {
+        if (key === 'id' || (field.constraints?.unique && key.endsWith('_id'))) return index + 1;
+        if (quantiles?.length) {
+          const value = this.fromQuantiles(quantiles);
+          return type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+        }
+        const defaults = key.includes('age') ? [18, 90] : key.includes('quantity') ? [1, 20] : [0, 1000];
+        const low = toNumber(min, defaults[0]);
+        const high = Math.max(low, toNumber(max, defaults[1]));
+        const integral = type === 'integer' || key.includes('age') || key.includes('count') || key.includes('quantity');
+        return integral ? this.random.int(Math.ceil(low), Math.floor(high)) : this.random.float(low, high);
+      }
+      case 'boolean':
+        return this.random.bool();
+      case 'date':
+      case 'datetime': {
+        const low = toTimestamp(min, DEFAULT_DATE_MIN);
+        const high = Math.max(low, toTimestamp(max, DEFAULT_DATE_MAX));
+        const time = quantiles?.length ? this.fromQuantiles(quantiles) : low + Math.floor(this.random.next() * (high - low));
+        const iso = new Date(time).toISOString();
+        return type === 'date' ? iso.slice(0, 10) : `${iso.slice(0, 19)}Z`;
+      }
+      case 'email': {
+        const local = `${person.first}.${person.last}`.toLowerCase().normalize('NFD').replace(/[^a-z.]/g, '');
+        return `${local}${this.random.int(1, 999)}@${this.random.pick(EMAIL_DOMAINS)}`;
+      }
+      case 'phone':
+        return `+1-555-${pad(this.random.int(0, 999), 3)}-${pad(this.random.int(0, 9999), 4)}`;
+      case 'uuid':
+        return this.uuid();
+      case 'text':
+        return this.sentence(this.random.int(8, 20));
+      case 'enum':
+        return this.random.pick(field.constraints?.enum?.length ? field.constraints.enum : examples.length ? examples : ['']);
+      case 'reference':
+        // Without the referenced table at hand, point at a plausible row of it
+        return examples.length > 0 ? this.random.pick(examples) : this.random.int(1, Math.max(1, index + 1));
+      default:
+        break;
+    }
+
+    if (examples.length > 0) return this.fitLength(String(this.random.pick(examples)), field);
+    if (key.includes('first') && key.includes('name')) return person.first;
+    if (key.includes('last') && key.includes('name')) return person.last;
+    if (key.includes('name')) return `${person.first} ${person.last}`;
+    if (key.includes('city')) return this.random.pick(CITIES);
+    if (key.includes('country')) return this.random.pick(COUNTRIES);
+    if (/(^id$|_id$)/.test(key)) return `${name.replace(/_?id$/i, '').toUpperCase() || 'ID'}-${pad(index + 1, 6)}`;
+
+    return this.fitLength(this.sentence(this.random.int(1, 3)), field);
+  }
+
+  // Inverse-CDF sampling over evenly spaced quantiles, interpolating inside each bucket
+  private fromQuantiles(quantiles: number[]): number {
+    if (quantiles.length === 1) return quantiles[0];
+    const position = this.random.next() * (quantiles.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, quantiles.length - 1);
+    return quantiles[lower] + (quantiles[upper] - quantiles[lower]) * (position - lower);
+  }
+
+  private weightedPick(frequencies: ValueFrequency[]): string | number | boolean {
+    const total = frequencies.reduce((sum, item) => sum + item.weight, 0);
+    let target = this.random.next() * total;
+    for (const item of frequencies) {
+      target -= item.weight;
+      if (target < 0) return item.value;
+    }
+    return frequencies[frequencies.length - 1].value;
+  }
+
+  private fitLength(value: string, field: SchemaField): string {
+    const { minLength, maxLength } = field.constraints || {};
+    let result = value;
+    while (minLength !== undefined && result.length < minLength) {
+      result = `${result} ${this.random.pick(WORDS)}`;
+    }
+    return maxLength !== undefined ? result.slice(0, maxLength) : result;
+  }
+
+  private disambiguate(
+    name: string,
+    field: SchemaField,
+    value: string | number | boolean,
+    index: number,
+    seen: Set<string>,
+    cursors: Map<string, number>
+  ): string | number | boolean {
+    const type = field.type;
+    if (type === 'number' || type === 'integer') {
+      const low = toNumber(field.constraints?.min, 0);
+      const high = toNumber(field.constraints?.max, Number.MAX_SAFE_INTEGER);
+      for (let candidate = cursors.get(name) ?? Math.ceil(low); candidate <= high; candidate++) {
+        if (seen.has(String(candidate))) continue;
+        cursors.set(name, candidate + 1);
+        return candidate;
+      }
+      throw new Error(`Cannot generate unique values for "${name}": range ${low}-${high} is exhausted`);
+    }
+    if (type === 'datetime') {
+      // Step a second at a time from the drawn value, wrapping round to the start of the range
+      const low = Math.ceil(toTimestamp(field.constraints?.min, DEFAULT_DATE_MIN) / 1000) * 1000;
+      const high = Math.max(low, toTimestamp(field.constraints?.max, DEFAULT_DATE_MAX));
+      const start = Math.min(Math.max(Date.parse(String(value)), low), high);
+      const span = Math.floor((high - low) / 1000) + 1;
+      for (let step = 1; step < span; step++) {
+        const time = low + ((start - low + step * 1000) % (span * 1000));
+        const candidate = `${new Date(time).toISOString().slice(0, 19)}Z`;
+        if (!seen.has(candidate)) return candidate;
+      }
+    }
+    if (type === 'boolean' || type === 'date' || type === 'datetime' || type === 'enum') {
+      throw new Error(`Cannot generate ${index + 1} unique values for ${type} field "${name}"`);
+    }
+    if (type === 'email') {
+      const [local, domain] = String(value).split('@');
+      return `${local}.${index + 1}@${domain}`;
+    }
+    return `${value}-${index + 1}`;
+  }
+
+  private uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.random.int(0, 15).toString(16));
+    hex[12] = '4';
+    hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+    const s = hex.join('');
+    return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+  }
+
+  private sentence(wordCount: number): string {
+    const words = Array.from({ length: Math.max(1, wordCount) }, () => this.random.pick(WORDS));
+    const text = words.join(' ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
@@ -0,0 +1,579 @@
+/**
+ * Project repository
+ * Reads and writes the projects, generation_jobs and datasets tables, and keeps
+ * generated data files in the private "datasets" storage bucket. Files live
+ * under `<user id>/<project id>/`, which is what the bucket policies check, and
+ * `datasets.file_url` holds that storage path rather than a public URL.
+ */
+
+import { supabase, type Dataset, type GenerationJob, type Project } from './supabase';
+import type { DatasetSchema } from './schema';
+import type { CheckpointStore } from './chunkedGeneration';
+
+const BUCKET = 'datasets';
+
+// Progress is written in steps of this many percent so long runs do not flood the table
+const PROGRESS_STEP = 5;
+
+// A running job whose client has not written a heartbeat for this long was interrupted
+const HEARTBEAT_TIMEOUT_MS = 90 * 1000;
+
+// Job subscriptions also poll, in case realtime is unavailable or the socket drops
+const JOB_POLL_INTERVAL_MS = 5000;
+
+export interface NewProject {
+  name: string;
+  description?: string;
+  domain: string;
+  data_type: Project['data_type'];
+  status?: Project['status'];
+  config: Record<string, unknown>;
+}
+
+// A generation result as kept in storage; reopening it restores every field
+export interface StoredResult {
+  data: Record<string, unknown>[];
+  schema?: DatasetSchema;
+  metadata?: { rowsGenerated?: number; columnsGenerated?: number };
+  qualityScore?: number;
+  privacyScore?: number;
+  biasScore?: number;
+  [key: string]: unknown;
+}
+
+export type NewDataset = Omit<Dataset, 'id' | 'created_at' | 'version'>;
+
+export interface VersionDetails {
+  source: Dataset['source'];
+  parentId?: string | null;
+  notes?: string;
+}
+
+export interface SavedDataset extends Dataset {
+  project: Pick<Project, 'id' | 'name' | 'domain' | 'data_type'>;
+}
+
+export interface ProjectSummary extends Project {
+  dataset_count: number;
+  job_count: number;
+}
+
+export type JobCheckpoint = NonNullable<GenerationJob['checkpoint']>;
+
+export interface SavedJob extends GenerationJob {
+  project: Pick<Project, 'id' | 'name' | 'domain' | 'data_type'>;
+}
+
+export interface GenerationRecord {
+  userId: string;
+  project: Project;
+  job: GenerationJob;
+  checkpoint: JobCheckpoint;
+  // Rows of completed chunks per part, loaded when resuming
+  restored: Record<string, Record<string, unknown>[]>;
+  reportedProgress: number;
+  // Job updates are chained so a late progress write cannot land after completion
+  writes: Promise<void>;
+}
+
+type JobChanges = Partial<Pick<GenerationJob,
+  'status' | 'progress' | 'checkpoint' | 'result_dataset_id' | 'error_message' | 'started_at' | 'completed_at' | 'heartbeat_at'
+>>;
+
+// Postgres unique_violation, raised when two saves race for the same version number
+const UNIQUE_VIOLATION = '23505';
+
+const fail = (action: string, error: { message: string }) => new Error(`Failed to ${action}: ${error.message}`);
+
+export function isInterrupted(job: GenerationJob, now = Date.now()): boolean {
+  if (job.status !== 'running' && job.status !== 'pending') return false;
+  const lastSeen = job.heartbeat_at ?? job.started_at ?? job.created_at;
+  return now - new Date(lastSeen).getTime() > HEARTBEAT_TIMEOUT_MS;
+}
+
+export const canResume = (job: GenerationJob) =>
+  job.status === 'failed' || job.status === 'cancelled' || isInterrupted(job);
+
+export const checkpointRows = (checkpoint: JobCheckpoint = {}) =>
+  Object.values(checkpoint).reduce((sum, part) => sum + part.rows, 0);
+
+const dataFileName = (name: string) => `${name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'dataset'}.json`;
+
+export class ProjectRepository {
+  async createProject(userId: string, project: NewProject): Promise<Project> {
+    const { data, error } = await supabase
+      .from('projects')
+      .insert({ status: 'draft', ...project, description: project.description ?? '', user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw fail('create project', error);
+    return data as Project;
+  }
+
+  /**
+   * Projects of the signed-in user, most recently updated first, with the
+   * number of datasets and jobs each one has.
+   */
+  async listProjects(): Promise<ProjectSummary[]> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*, datasets(count), generation_jobs(count)')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw fail('load projects', error);
+    return (data ?? []).map(({ datasets, generation_jobs, ...project }) => ({
+      ...(project as Project),
+      dataset_count: datasets?.[0]?.count ?? 0,
+      job_count: generation_jobs?.[0]?.count ?? 0
+    }));
+  }
+
+  async getProject(id: string): Promise<Project> {
+    const { data, error } = await supabase.from('projects').select('*').eq('id', id).single();
+    if (error) throw fail('load project', error);
+    return data as Project;
+  }
+
+  async cloneProject(userId: string, project: Project): Promise<Project> {
+    return this.createProject(userId, {
+      name: `${project.name} (copy)`,
+      description: project.description,
+      domain: project.domain,
+      data_type: project.data_type,
+      config: project.config ?? {}
+    });
+  }
+
+  /**
+   * Deleting a project cascades to its datasets and jobs in the database; the
+   * stored data files and unfinished jobs' chunk files are removed first since
+   * storage does not cascade.
+   */
+  async deleteProject(id: string): Promise<void> {
+    const { data: datasets, error: listError } = await supabase.from('datasets').select('file_url').eq('project_id', id);
+    if (listError) throw fail('load project datasets', listError);
+    const jobs = await this.listJobs(id);
+
+    // Rollbacks share their target's file, so paths can repeat
+    const datasetFiles = (datasets ?? []).map(dataset => dataset.file_url as string | null);
+    const chunkFiles = jobs.flatMap(job => Object.values(job.checkpoint ?? {}).flatMap(part => part.files));
+    const paths = [...new Set([...datasetFiles, ...chunkFiles])].filter((path): path is string => !!path);
+    if (paths.length) {
+      const { error } = await supabase.storage.from(BUCKET).remove(paths);
+      if (error) throw fail('delete project files', error);
+    }
+
+    const { error } = await supabase.from('projects').delete().eq('id', id);
+    if (error) throw fail('delete project', error);
+  }
+
+  async updateProject(id: string, changes: Partial<Pick<Project, 'name' | 'description' | 'status' | 'config'>>): Promise<void> {
+    const { error } = await supabase
+      .from('projects')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw fail('update project', error);
+  }
+
+  /**
+   * Writes a schema changed after generation (new computed columns, say) back
+   * into the project config, so regenerating the project uses it. For
+   * multi-table projects it replaces the fields of the given table.
+   */
+  async updateProjectSchema(projectId: string, schema: DatasetSchema, table?: string): Promise<void> {
+    const project = await this.getProject(projectId);
+    const config = project.config ?? {};
+    const relational = config.relational_schema;
+    await this.updateProject(projectId, {
+      config: relational && table && relational[table]
+        ? { ...config, relational_schema: { ...relational, [table]: { ...relational[table], fields: schema } } }
+        : { ...config, schema }
+    });
+  }
+
+  async createJob(projectId: string, config: Record<string, unknown>, changes: JobChanges = {}): Promise<GenerationJob> {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .insert({ project_id: projectId, config, status: 'pending', progress: 0, ...changes })
+      .select()
+      .single();
+
+    if (error) throw fail('create generation job', error);
+    return data as GenerationJob;
+  }
+
+  async listJobs(projectId: string): Promise<GenerationJob[]> {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw fail('load generation jobs', error);
+    return (data ?? []) as GenerationJob[];
+  }
+
+  async updateJob(id: string, changes: JobChanges): Promise<void> {
+    const { error } = await supabase.from('generation_jobs').update(changes).eq('id', id);
+    if (error) throw fail('update generation job', error);
+  }
+
+  async getJob(id: string): Promise<SavedJob> {
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*, project:projects!inner(id, name, domain, data_type)')
+      .eq('id', id)
+      .single();
+
+    if (error) throw fail('load generation job', error);
+    return data as SavedJob;
+  }
+
+  // Jobs from the last week that have not completed, newest first
+  async listUnfinishedJobs(limit = 5): Promise<SavedJob[]> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('generation_jobs')
+      .select('*, project:projects!inner(id, name, domain, data_type)')
+      .in('status', ['pending', 'running', 'failed', 'cancelled'])
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw fail('load unfinished jobs', error);
+    return (data ?? []) as SavedJob[];
+  }
+
+  /**
+   * Calls back with the job record whenever it changes, through realtime
+   * updates with polling as a fallback. Returns the unsubscribe function.
+   */
+  subscribeToJob(jobId: string, onChange: (job: GenerationJob) => void): () => void {
+    const channel = supabase
+      .channel(`generation-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'generation_jobs', filter: `id=eq.${jobId}` },
+        payload => onChange(payload.new as GenerationJob)
+      )
+      .subscribe();
+
+    const poll = setInterval(async () => {
+      const { data } = await supabase.from('generation_jobs').select('*').eq('id', jobId).maybeSingle();
+      if (data) onChange(data as GenerationJob);
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(poll);
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Marks a job cancelled. A client still running it sees the change through
+   * its subscription and stops after the chunk in flight.
+   */
+  async cancelJob(job: Pick<GenerationJob, 'id' | 'project_id'>): Promise<void> {
+    await this.updateJob(job.id, { status: 'cancelled', completed_at: new Date().toISOString() });
+    const latest = await this.latestDataset(job.project_id);
+    await this.updateProject(job.project_id, { status: latest ? 'completed' : 'draft' });
+  }
+
+  async uploadDatasetFile(userId: string, projectId: string, name: string, result: StoredResult): Promise<{ path: string; size: number }> {
+    const blob = new Blob([JSON.stringify(result)], { type: 'application/json' });
+    const path = `${userId}/${projectId}/${Date.now()}-${dataFileName(name)}`;
+
+    const { error } = await supabase.storage.from(BUCKET).upload(path, blob, { contentType: 'application/json' });
+    if (error) throw fail('upload dataset file', error);
+    return { path, size: blob.size };
+  }
+
+  async latestDataset(projectId: string): Promise<Dataset | null> {
+    const { data, error } = await supabase
+      .from('datasets')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw fail('load latest dataset', error);
+    return data as Dataset | null;
+  }
+
+  /**
+   * Adds the dataset as the project's next version. Versions are never
+   * updated afterwards; a concurrent save taking the same number is retried.
+   */
+  async createDataset(dataset: NewDataset): Promise<Dataset> {
+    for (let attempt = 0; ; attempt++) {
+      const latest = await this.latestDataset(dataset.project_id);
+      const { data, error } = await supabase
+        .from('datasets')
+        .insert({ ...dataset, version: (latest?.version ?? 0) + 1 })
+        .select()
+        .single();
+
+      if (!error) return data as Dataset;
+      if (error.code !== UNIQUE_VIOLATION || attempt >= 2) throw fail('save dataset', error);
+    }
+  }
+
+  async saveVersion(userId: string, projectId: string, name: string, result: StoredResult, details: VersionDetails): Promise<Dataset> {
+    const { path, size } = await this.uploadDatasetFile(userId, projectId, name, result);
+    return this.createDataset({
+      project_id: projectId,
+      name,
+      file_url: path,
+      file_size: size,
+      rows_count: result.metadata?.rowsGenerated ?? result.data.length,
+      columns_count: result.metadata?.columnsGenerated ?? Object.keys(result.schema ?? {}).length,
+      schema: result.schema ?? {},
+      quality_score: result.qualityScore ?? 0,
+      privacy_score: result.privacyScore ?? 0,
+      bias_score: result.biasScore ?? 0,
+      source: details.source,
+      parent_dataset_id: details.parentId ?? null,
+      notes: details.notes ?? null
+    });
+  }
+
+  // Saved edits become a new version derived from the one that was edited
+  async saveEditedVersion(userId: string, parent: Dataset, result: StoredResult, notes?: string): Promise<Dataset> {
+    return this.saveVersion(userId, parent.project_id, parent.name, result, {
+      source: 'edit',
+      parentId: parent.id,
+      notes: notes ?? `Edited v${parent.version}`
+    });
+  }
+
+  /**
+   * Rolling back adds a new latest version with the target's contents, so the
+   * history stays intact. The immutable data file is shared, not copied.
+   */
+  async rollbackTo(target: Dataset): Promise<Dataset> {
+    return this.createDataset({
+      project_id: target.project_id,
+      name: target.name,
+      file_url: target.file_url,
+      file_size: target.file_size,
+      rows_count: target.rows_count,
+      columns_count: target.columns_count,
+      schema: target.schema,
+      quality_score: target.quality_score,
+      privacy_score: target.privacy_score,
+      bias_score: target.bias_score,
+      source: 'rollback',
+      parent_dataset_id: target.id,
+      notes: `Rolled back to v${target.version}`
+    });
+  }
+
+  /**
+   * Datasets of the signed-in user, newest first. Row level security limits
+   * the query to datasets whose project belongs to them.
+   */
+  async listDatasets(limit = 20): Promise<SavedDataset[]> {
+    const { data, error } = await supabase
+      .from('datasets')
+      .select('*, project:projects!inner(id, name, domain, data_type)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw fail('load datasets', error);
+    return (data ?? []) as SavedDataset[];
+  }
+
+  // Every version of a project's dataset, newest first
+  async listProjectDatasets(projectId: string): Promise<Dataset[]> {
+    const { data, error } = await supabase
+      .from('datasets')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false });
+
+    if (error) throw fail('load project datasets', error);
+    return (data ?? []) as Dataset[];
+  }
+
+  async getDataset(id: string): Promise<SavedDataset> {
+    const { data, error } = await supabase
+      .from('datasets')
+      .select('*, project:projects!inner(id, name, domain, data_type)')
+      .eq('id', id)
+      .single();
+
+    if (error) throw fail('load dataset', error);
+    return data as SavedDataset;
+  }
+
+  async loadDatasetFile(dataset: Pick<Dataset, 'file_url'>): Promise<StoredResult> {
+    const { data, error } = await supabase.storage.from(BUCKET).download(dataset.file_url);
+    if (error) throw fail('download dataset file', error);
+
+    const result = JSON.parse(await data.text()) as StoredResult;
+    if (!Array.isArray(result?.data)) throw new Error('Dataset file does not contain any rows');
+    return result;
+  }
+
+  // The bucket is private, so downloads go through a short-lived signed link
+  async getDownloadUrl(dataset: Pick<Dataset, 'file_url' | 'name'>, expiresIn = 60): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(dataset.file_url, expiresIn, { download: dataFileName(dataset.name) });
+
+    if (error) throw fail('create download link', error);
+    return data.signedUrl;
+  }
+
+  /**
+   * Records a generation before it starts: a project in "generating" state and
+   * a running job that progress and the outcome are reported against. Passing
+   * an existing project regenerates it, adding a new job and dataset to it.
+   */
+  async startGeneration(userId: string, project: NewProject, existing?: Project): Promise<GenerationRecord> {
+    let target: Project;
+    if (existing) {
+      await this.updateProject(existing.id, { status: 'generating', config: project.config });
+      target = { ...existing, status: 'generating', config: project.config };
+    } else {
+      target = await this.createProject(userId, { ...project, status: 'generating' });
+    }
+    const now = new Date().toISOString();
+    const job = await this.createJob(target.id, project.config, { status: 'running', started_at: now, heartbeat_at: now });
+
+    return {
+      userId,
+      project: target,
+      job,
+      checkpoint: {},
+      restored: {},
+      reportedProgress: 0,
+      writes: Promise.resolve()
+    };
+  }
+
+  /**
+   * Picks a failed, cancelled or interrupted job back up: its checkpointed
+   * chunks are downloaded so generation continues after the last one.
+   */
+  async resumeGeneration(userId: string, jobId: string): Promise<GenerationRecord> {
+    const { project: summary, ...job } = await this.getJob(jobId);
+    if (!canResume(job)) throw new Error(`A ${job.status} job cannot be resumed`);
+
+    const project = await this.getProject(summary.id);
+    const checkpoint = job.checkpoint ?? {};
+    const restored: GenerationRecord['restored'] = {};
+    for (const [part, saved] of Object.entries(checkpoint)) {
+      restored[part] = [];
+      for (const path of saved.files) {
+        const { data, error } = await supabase.storage.from(BUCKET).download(path);
+        if (error) throw fail('download checkpoint', error);
+        restored[part].push(...(JSON.parse(await data.text()) as Record<string, unknown>[]));
+      }
+    }
+
+    const now = new Date().toISOString();
+    await this.updateJob(job.id, { status: 'running', error_message: null, completed_at: null, heartbeat_at: now });
+    await this.updateProject(project.id, { status: 'generating' });
+
+    return {
+      userId,
+      project: { ...project, status: 'generating' },
+      job: { ...job, status: 'running', error_message: null, completed_at: null, heartbeat_at: now },
+      checkpoint,
+      restored,
+      reportedProgress: job.progress,
+      writes: Promise.resolve()
+    };
+  }
+
+  /**
+   * Checkpoints for a run: every completed chunk is written to storage and
+   * recorded on the job before the next one starts.
+   */
+  checkpointStore(record: GenerationRecord): CheckpointStore {
+    return {
+      forPart: part => ({
+        rows: record.restored[part] ?? [],
+        chunks: record.checkpoint[part]?.chunks ?? 0,
+        save: async (rows, chunkIndex) => {
+          const saved = record.checkpoint[part] ?? { chunks: 0, rows: 0, files: [] };
+          let files = saved.files;
+          if (rows.length > 0) {
+            const path = `${record.userId}/${record.project.id}/jobs/${record.job.id}/${part}/${String(chunkIndex).padStart(5, '0')}.json`;
+            const { error } = await supabase.storage
+              .from(BUCKET)
+              .upload(path, new Blob([JSON.stringify(rows)], { type: 'application/json' }), { contentType: 'application/json' });
+            if (error) throw fail('save checkpoint', error);
+            files = [...files, path];
+          }
+
+          record.checkpoint = { ...record.checkpoint, [part]: { chunks: chunkIndex + 1, rows: saved.rows + rows.length, files } };
+          const checkpoint = record.checkpoint;
+          const write = record.writes.then(() =>
+            this.updateJob(record.job.id, { checkpoint, heartbeat_at: new Date().toISOString() }));
+          // The failure is thrown from here; the shared chain stays usable for failGeneration
+          record.writes = write.catch(() => undefined);
+          await write;
+        }
+      })
+    };
+  }
+
+  heartbeat(record: GenerationRecord): void {
+    record.writes = record.writes
+      .then(() => this.updateJob(record.job.id, { heartbeat_at: new Date().toISOString() }))
+      .catch(error => console.warn('Could not record generation heartbeat:', error));
+  }
+
+  reportProgress(record: GenerationRecord, progress: number): void {
+    const rounded = Math.min(99, Math.floor(progress / PROGRESS_STEP) * PROGRESS_STEP);
+    if (rounded <= record.reportedProgress) return;
+
+    record.reportedProgress = rounded;
+    record.writes = record.writes
+      .then(() => this.updateJob(record.job.id, { progress: rounded }))
+      .catch(error => console.warn('Could not record generation progress:', error));
+  }
+
+  async completeGeneration(record: GenerationRecord, name: string, result: StoredResult): Promise<Dataset> {
+    await record.writes;
+    // A regeneration follows on from whatever version was latest before it
+    const previous = await this.latestDataset(record.project.id);
+    const dataset = await this.saveVersion(record.userId, record.project.id, name, result, {
+      source: 'generation',
+      parentId: previous?.id,
+      notes: previous ? `Regenerated after v${previous.version}` : 'Initial generation'
+    });
+
+    await this.updateJob(record.job.id, {
+      status: 'completed',
+      progress: 100,
+      checkpoint: {},
+      result_dataset_id: dataset.id,
+      completed_at: new Date().toISOString()
+    });
+    await this.updateProject(record.project.id, { status: 'completed' });
+
+    // Chunk files are only needed for resuming; the dataset file now holds every row
+    const chunkFiles = Object.values(record.checkpoint).flatMap(part => part.files);
+    if (chunkFiles.length) {
+      const { error } = await supabase.storage.from(BUCKET).remove(chunkFiles);
+      if (error) console.warn('Could not remove checkpoint files:', error);
+    }
+    return dataset;
+  }
+
+  async failGeneration(record: GenerationRecord, message: string): Promise<void> {
+    await record.writes;
+    await this.updateJob(record.job.id, {
+      status: 'failed',
+      error_message: message,
+      completed_at: new Date().toISOString()
+    });
+    await this.updateProject(record.project.id, { status: 'failed' });
+  }
+}
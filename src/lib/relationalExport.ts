@@ -0,0 +1,63 @@
+/**
+ * Bundle export for multi-table datasets
+ * Packs every generated table, plus the schema that relates them, into one download.
+ */
+
+import JSZip from 'jszip';
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { RelationalSchema } from './schema';
+import type { TableRows } from './relationalGenerator';
+
+export type BundleFormat = 'zip' | 'excel' | 'json';
+
+const MAX_SHEET_NAME = 31;
+
+/**
+ * Excel rejects sheet names longer than 31 characters or containing []:*?/\, and
+ * names that match another sheet ignoring case; truncated names that collide get
+ * a numeric suffix.
+ */
+function toSheetName(table: string, taken: Set<string>): string {
+  const cleaned = table.replace(/[[\]:*?/\\]/g, '_');
+  let name = cleaned.slice(0, MAX_SHEET_NAME);
+  for (let suffix = 2; taken.has(name.toLowerCase()); suffix++) {
+    name = `${cleaned.slice(0, MAX_SHEET_NAME - String(suffix).length - 1)}_${suffix}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+export async function exportRelationalBundle(
+  tables: Record<string, TableRows>,
+  schema: RelationalSchema,
+  format: BundleFormat
+): Promise<{ blob: Blob; extension: string }> {
+  switch (format) {
+    case 'zip': {
+      const zip = new JSZip();
+      Object.entries(tables).forEach(([table, rows]) => {
+        zip.file(`${table}.csv`, Papa.unparse(rows, { columns: Object.keys(schema[table]?.fields || rows[0] || {}) }));
+      });
+      zip.file('schema.json', JSON.stringify(schema, null, 2));
+      return { blob: await zip.generateAsync({ type: 'blob' }), extension: 'zip' };
+    }
+    case 'excel': {
+      const workbook = XLSX.utils.book_new();
+      const sheetNames = new Set<string>();
+      Object.entries(tables).forEach(([table, rows]) => {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), toSheetName(table, sheetNames));
+      });
+      const buffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+      return {
+        blob: new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+        extension: 'xlsx'
+      };
+    }
+    case 'json':
+      return {
+        blob: new Blob([JSON.stringify({ schema, tables }, null, 2)], { type: 'application/json' }),
+        extension: 'json'
+      };
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Multi-table relational generation
+ * Generates related tables parent-first, then rewrites primary and foreign keys so
+ * every reference resolves and child counts follow the declared cardinalities.
+ */
+
+import { SeededRandom } from './localGenerator';
+import { applyComputedColumns } from './computedColumns';
+import { orderEntities, type DatasetSchema, type RelationalSchema } from './schema';
+
+export type TableRows = Record<string, unknown>[];
+
+export interface TableProgress {
+  table: string;
+  tableIndex: number;
+  totalTables: number;
+  rowCount: number;
+}
+
+export interface RelationalGenerationOptions {
+  schema: RelationalSchema;
+  // Row count for tables that are not sized by a parent's cardinality
+  rowCount: number;
+  seed?: string;
+  generateTable: (table: string, fields: DatasetSchema, rowCount: number) => Promise<TableRows>;
+  onTableProgress?: (progress: TableProgress) => void;
+}
+
+export interface ReferenceIssue {
+  table: string;
+  field: string;
+  target: string;
+  orphans: number;
+}
+
+const isSequential = (fields: DatasetSchema, key: string) =>
+  fields[key]?.type === 'integer' || fields[key]?.type === 'number';
+
+export async function generateRelationalDataset(
+  options: RelationalGenerationOptions
+): Promise<{ tables: Record<string, TableRows>; order: string[] }> {
+  const { schema, generateTable, onTableProgress } = options;
+  const random = new SeededRandom(options.seed || 'datagenesis-relations');
+  const order = orderEntities(schema);
+  const tables: Record<string, TableRows> = {};
+
+  for (const [tableIndex, table] of order.entries()) {
+    const entity = schema[table];
+    const references = Object.entries(entity.fields).filter(([, field]) => field.reference);
+    const parentKeys = (target: string, field: string) => (tables[target] || []).map(row => row[field]);
+
+    // The first reference with a cardinality decides how many rows this table gets
+    const driver = references.find(([, field]) => field.reference!.cardinality && field.reference!.table !== table);
+    let driverKeys: unknown[] | null = null;
+    let rowCount = entity.rowCount ?? options.rowCount;
+
+    if (driver) {
+      const { table: target, field, cardinality } = driver[1].reference!;
+      driverKeys = parentKeys(target, field).flatMap(key =>
+        Array.from({ length: random.int(cardinality!.min, cardinality!.max) }, () => key)
+      );
+      rowCount = driverKeys.length;
+    }
+
+    onTableProgress?.({ table, tableIndex, totalTables: order.length, rowCount });
+
+    if (rowCount === 0) {
+      tables[table] = [];
+      continue;
+    }
+
+    const generated = await generateTable(table, entity.fields, rowCount);
+    if (generated.length < rowCount) {
+      throw new Error(`Table "${table}" returned ${generated.length} of ${rowCount} rows`);
+    }
+
+    const rows = generated.slice(0, rowCount).map(row => ({ ...row }));
+    const primaryKey = entity.primaryKey;
+
+    if (primaryKey) {
+      const seen = new Set<string>();
+      rows.forEach((row, index) => {
+        if (isSequential(entity.fields, primaryKey)) {
+          row[primaryKey] = index + 1;
+        } else if (row[primaryKey] === undefined || row[primaryKey] === null || seen.has(String(row[primaryKey]))) {
+          row[primaryKey] = `${table}-${index + 1}`;
+        }
+        seen.add(String(row[primaryKey]));
+      });
+    }
+
+    for (const [name, field] of references) {
+      const { table: target, field: targetField } = field.reference!;
+
+      if (driver && name === driver[0]) {
+        rows.forEach((row, index) => {
+          row[name] = driverKeys![index];
+        });
+      } else if (target === table) {
+        // Self references point at an earlier row so hierarchies stay acyclic
+        rows.forEach((row, index) => {
+          row[name] = index === 0 ? null : rows[random.int(0, index - 1)][targetField];
+        });
+      } else {
+        const keys = parentKeys(target, targetField);
+        rows.forEach(row => {
+          row[name] = keys.length > 0 ? random.pick(keys) : null;
+        });
+      }
+    }
+
+    // Keys are assigned after generation, so columns computed from them are refreshed
+    tables[table] = applyComputedColumns(rows, entity.fields);
+  }
+
+  return { tables, order };
+}
+
+/**
+ * Counts foreign key values that do not resolve to a row of the referenced table.
+ */
+export function checkReferentialIntegrity(
+  tables: Record<string, TableRows>,
+  schema: RelationalSchema
+): ReferenceIssue[] {
+  const issues: ReferenceIssue[] = [];
+
+  for (const [table, entity] of Object.entries(schema)) {
+    for (const [name, field] of Object.entries(entity.fields)) {
+      if (!field.reference) continue;
+      const { table: target, field: targetField } = field.reference;
+      const keys = new Set((tables[target] || []).map(row => String(row[targetField])));
+      const orphans = (tables[table] || []).filter(row =>
+        row[name] !== null && row[name] !== undefined && !keys.has(String(row[name]))
+      ).length;
+      if (orphans > 0) {
+        issues.push({ table, field: name, target: `${target}.${targetField}`, orphans });
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,52 @@
+/**
+ * Reservoir sampling (Algorithm R)
+ * Keeps a uniform random sample of a stream of unknown length in fixed memory,
+ * so every row of a large file has the same chance of being in the sample.
+ */
+
+import type { SeededRandom } from './localGenerator';
+
+export class ReservoirSampler<T> {
+  private slots: { index: number; item: T }[] = [];
+  private count = 0;
+
+  constructor(private capacity: number, private random: SeededRandom) {}
+
+  // Number of items offered so far
+  get seen(): number {
+    return this.count;
+  }
+
+  add(item: T): void {
+    if (this.slots.length < this.capacity) {
+      this.slots.push({ index: this.count, item });
+    } else {
+      const slot = this.random.int(0, this.count);
+      if (slot < this.capacity) {
+        this.slots[slot] = { index: this.count, item };
+      }
+    }
+    this.count++;
+  }
+
+  /**
+   * The sample in stream order, optionally reduced to a smaller uniform subsample.
+   */
+  items(limit = this.capacity): T[] {
+    const slots = [...this.slots];
+    const size = Math.min(limit, slots.length);
+
+    // Partial Fisher-Yates: the first `size` slots end up a uniform subset
+    if (size < slots.length) {
+      for (let i = 0; i < size; i++) {
+        const j = this.random.int(i, slots.length - 1);
+        [slots[i], slots[j]] = [slots[j], slots[i]];
+      }
+    }
+
+    return slots
+      .slice(0, size)
+      .sort((a, b) => a.index - b.index)
+      .map(slot => slot.item);
+  }
+}
@@ -0,0 +1,564 @@
+/**
+ * Dataset schema model
+ * Typed description of a generated table plus a validator that rejects malformed
+ * schemas (usually LLM responses) with field-level errors before generation starts.
+ */
+
+import { compileComputedColumns } from './computedColumns';
+import { compileExpression } from './expressions';
+
+export const FIELD_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'date',
+  'datetime',
+  'email',
+  'phone',
+  'uuid',
+  'text',
+  'enum',
+  'reference'
+] as const;
+
+export type FieldType = typeof FIELD_TYPES[number];
+
+export type SchemaValue = string | number | boolean;
+
+export interface FieldConstraints {
+  min?: number | string;
+  max?: number | string;
+  minLength?: number;
+  maxLength?: number;
+  required?: boolean;
+  unique?: boolean;
+  pattern?: string;
+  enum?: SchemaValue[];
+}
+
+export interface Cardinality {
+  min: number;
+  max: number;
+}
+
+export interface FieldReference {
+  table: string;
+  field: string;
+  // Rows of this table per referenced row, e.g. 1-20 orders per customer
+  cardinality?: Cardinality;
+}
+
+export interface ValueFrequency {
+  value: SchemaValue;
+  weight: number;
+}
+
+// Observed shape of a column (usually from an uploaded file) that generation should reproduce
+export interface FieldDistribution {
+  nullRate?: number;
+  mean?: number;
+  std?: number;
+  // Evenly spaced quantiles from p0 to p100; dates are epoch milliseconds
+  quantiles?: number[];
+  // Relative frequency of categorical values
+  frequencies?: ValueFrequency[];
+}
+
+export interface SchemaField {
+  type: FieldType;
+  description?: string;
+  nullable?: boolean;
+  constraints?: FieldConstraints;
+  examples?: SchemaValue[];
+  reference?: FieldReference;
+  distribution?: FieldDistribution;
+  // Formula over the row's other columns; computed instead of generated (see expressions.ts)
+  expression?: string;
+}
+
+export type DatasetSchema = Record<string, SchemaField>;
+
+export interface EntitySchema {
+  fields: DatasetSchema;
+  primaryKey?: string;
+  description?: string;
+  rowCount?: number;
+}
+
+export type RelationalSchema = Record<string, EntitySchema>;
+
+export interface SchemaIssue {
+  field: string;
+  path: string;
+  message: string;
+}
+
+export class SchemaValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    const summary = issues
+      .slice(0, 3)
+      .map(issue => `${issue.path}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Invalid schema - ${summary}${more}`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+// Spellings the models and uploaded files commonly use for the canonical types
+const TYPE_ALIASES: Record<string, FieldType> = {
+  str: 'string',
+  varchar: 'string',
+  char: 'string',
+  float: 'number',
+  double: 'number',
+  decimal: 'number',
+  numeric: 'number',
+  int: 'integer',
+  bigint: 'integer',
+  bool: 'boolean',
+  timestamp: 'datetime',
+  time: 'datetime',
+  categorical: 'enum',
+  category: 'enum',
+  foreign_key: 'reference',
+  fk: 'reference',
+  guid: 'uuid'
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSchemaValue = (value: unknown): value is SchemaValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+export function normalizeFieldType(type: unknown): FieldType | null {
+  if (typeof type !== 'string') return null;
+  const key = type.trim().toLowerCase();
+  if ((FIELD_TYPES as readonly string[]).includes(key)) return key as FieldType;
+  return TYPE_ALIASES[key] ?? null;
+}
+
+function validateBound(
+  value: unknown,
+  type: FieldType,
+  path: string,
+  field: string,
+  issues: SchemaIssue[]
+): number | string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (type === 'date' || type === 'datetime') {
+    if ((typeof value === 'string' || typeof value === 'number') && !Number.isNaN(new Date(value).getTime())) {
+      return value;
+    }
+    issues.push({ field, path, message: 'must be a valid date' });
+    return undefined;
+  }
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    issues.push({ field, path, message: 'must be a number' });
+    return undefined;
+  }
+  return number;
+}
+
+function validateDistribution(
+  input: unknown,
+  path: string,
+  field: string,
+  issues: SchemaIssue[]
+): FieldDistribution | null {
+  if (!isRecord(input)) {
+    issues.push({ field, path, message: 'must be an object' });
+    return null;
+  }
+
+  const distribution: FieldDistribution = {};
+  const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (input.nullRate !== undefined) {
+    if (isFiniteNumber(input.nullRate) && input.nullRate >= 0 && input.nullRate <= 1) {
+      distribution.nullRate = input.nullRate;
+    } else {
+      issues.push({ field, path: `${path}.nullRate`, message: 'must be a number between 0 and 1' });
+    }
+  }
+
+  (['mean', 'std'] as const).forEach(key => {
+    if (input[key] === undefined) return;
+    if (isFiniteNumber(input[key])) {
+      distribution[key] = input[key] as number;
+    } else {
+      issues.push({ field, path: `${path}.${key}`, message: 'must be a number' });
+    }
+  });
+
+  if (input.quantiles !== undefined) {
+    const quantiles = input.quantiles;
+    if (Array.isArray(quantiles) && quantiles.length >= 2 && quantiles.every(isFiniteNumber) &&
+        quantiles.every((value, index) => index === 0 || value >= quantiles[index - 1])) {
+      distribution.quantiles = quantiles;
+    } else {
+      issues.push({ field, path: `${path}.quantiles`, message: 'must be at least two ascending numbers' });
+    }
+  }
+
+  if (input.frequencies !== undefined) {
+    const frequencies = input.frequencies;
+    if (Array.isArray(frequencies) && frequencies.every(item =>
+      isRecord(item) && isSchemaValue(item.value) && isFiniteNumber(item.weight) && item.weight >= 0
+    )) {
+      distribution.frequencies = frequencies as ValueFrequency[];
+    } else {
+      issues.push({ field, path: `${path}.frequencies`, message: 'must be an array of { value, weight } with non-negative weights' });
+    }
+  }
+
+  return distribution;
+}
+
+function validateField(name: string, input: unknown, issues: SchemaIssue[]): SchemaField | null {
+  if (!isRecord(input)) {
+    issues.push({ field: name, path: name, message: 'field definition must be an object' });
+    return null;
+  }
+
+  const type = normalizeFieldType(input.type);
+  if (!type) {
+    issues.push({
+      field: name,
+      path: `${name}.type`,
+      message: `unknown type "${String(input.type)}", expected one of ${FIELD_TYPES.join(', ')}`
+    });
+    return null;
+  }
+
+  const field: SchemaField = { type };
+  const startingIssues = issues.length;
+
+  if (input.description !== undefined) {
+    if (typeof input.description === 'string') {
+      field.description = input.description;
+    } else {
+      issues.push({ field: name, path: `${name}.description`, message: 'must be a string' });
+    }
+  }
+
+  if (input.nullable !== undefined) {
+    if (typeof input.nullable === 'boolean') {
+      field.nullable = input.nullable;
+    } else {
+      issues.push({ field: name, path: `${name}.nullable`, message: 'must be a boolean' });
+    }
+  }
+
+  if (input.examples !== undefined) {
+    if (Array.isArray(input.examples)) {
+      field.examples = input.examples.filter(isSchemaValue);
+    } else {
+      issues.push({ field: name, path: `${name}.examples`, message: 'must be an array' });
+    }
+  }
+
+  if (input.constraints !== undefined && input.constraints !== null) {
+    if (!isRecord(input.constraints)) {
+      issues.push({ field: name, path: `${name}.constraints`, message: 'must be an object' });
+    } else {
+      const raw = input.constraints;
+      const constraints: FieldConstraints = {};
+      const path = `${name}.constraints`;
+
+      const min = validateBound(raw.min, type, `${path}.min`, name, issues);
+      const max = validateBound(raw.max, type, `${path}.max`, name, issues);
+      if (min !== undefined) constraints.min = min;
+      if (max !== undefined) constraints.max = max;
+      if (min !== undefined && max !== undefined) {
+        const low = typeof min === 'number' ? min : new Date(min).getTime();
+        const high = typeof max === 'number' ? max : new Date(max).getTime();
+        if (low > high) {
+          issues.push({ field: name, path, message: `min (${min}) is greater than max (${max})` });
+        }
+      }
+
+      (['minLength', 'maxLength'] as const).forEach(key => {
+        if (raw[key] === undefined || raw[key] === null) return;
+        const value = raw[key];
+        if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+          constraints[key] = value;
+        } else {
+          issues.push({ field: name, path: `${path}.${key}`, message: 'must be a non-negative integer' });
+        }
+      });
+
+      (['required', 'unique'] as const).forEach(key => {
+        if (raw[key] === undefined || raw[key] === null) return;
+        if (typeof raw[key] === 'boolean') {
+          constraints[key] = raw[key] as boolean;
+        } else {
+          issues.push({ field: name, path: `${path}.${key}`, message: 'must be a boolean' });
+        }
+      });
+
+      if (raw.pattern !== undefined && raw.pattern !== null) {
+        try {
+          new RegExp(String(raw.pattern));
+          constraints.pattern = String(raw.pattern);
+        } catch {
+          issues.push({ field: name, path: `${path}.pattern`, message: 'is not a valid regular expression' });
+        }
+      }
+
+      if (raw.enum !== undefined && raw.enum !== null) {
+        if (Array.isArray(raw.enum) && raw.enum.every(isSchemaValue)) {
+          constraints.enum = raw.enum;
+        } else {
+          issues.push({ field: name, path: `${path}.enum`, message: 'must be an array of strings, numbers or booleans' });
+        }
+      }
+
+      if (Object.keys(constraints).length > 0) field.constraints = constraints;
+    }
+  }
+
+  if (type === 'enum') {
+    // Models often list the allowed values only as examples
+    if (!field.constraints?.enum?.length && field.examples?.length) {
+      field.constraints = { ...field.constraints, enum: Array.from(new Set(field.examples)) };
+    }
+    if (!field.constraints?.enum?.length) {
+      issues.push({ field: name, path: `${name}.constraints.enum`, message: 'enum fields need at least one allowed value' });
+    }
+  }
+
+  if (input.expression !== undefined && input.expression !== null && input.expression !== '') {
+    if (typeof input.expression !== 'string') {
+      issues.push({ field: name, path: `${name}.expression`, message: 'must be a string' });
+    } else {
+      try {
+        compileExpression(input.expression);
+        field.expression = input.expression;
+      } catch (error) {
+        issues.push({ field: name, path: `${name}.expression`, message: (error as Error).message });
+      }
+    }
+  }
+
+  if (input.distribution !== undefined && input.distribution !== null) {
+    const distribution = validateDistribution(input.distribution, `${name}.distribution`, name, issues);
+    if (distribution) field.distribution = distribution;
+  }
+
+  // Foreign keys may keep their storage type (integer, uuid, ...) and still carry a reference
+  if (type === 'reference' || input.reference !== undefined) {
+    const reference = input.reference;
+    if (isRecord(reference) && typeof reference.table === 'string' && reference.table && typeof reference.field === 'string' && reference.field) {
+      field.reference = { table: reference.table, field: reference.field };
+      const cardinality = reference.cardinality;
+      if (cardinality !== undefined && cardinality !== null) {
+        const valid = isRecord(cardinality) &&
+          Number.isInteger(cardinality.min) && Number.isInteger(cardinality.max) &&
+          (cardinality.min as number) >= 0 && (cardinality.min as number) <= (cardinality.max as number);
+        if (valid) {
+          field.reference.cardinality = { min: cardinality.min as number, max: cardinality.max as number };
+        } else {
+          issues.push({ field: name, path: `${name}.reference.cardinality`, message: 'must be { min, max } integers with 0 <= min <= max' });
+        }
+      }
+    } else {
+      issues.push({ field: name, path: `${name}.reference`, message: 'reference fields need a target { table, field }' });
+    }
+  }
+
+  return issues.length === startingIssues ? field : null;
+}
+
+export function validateSchema(
+  input: unknown
+): { valid: true; schema: DatasetSchema } | { valid: false; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+
+  if (!isRecord(input)) {
+    return { valid: false, issues: [{ field: '', path: '', message: 'schema must be an object of field definitions' }] };
+  }
+
+  const entries = Object.entries(input);
+  if (entries.length === 0) {
+    return { valid: false, issues: [{ field: '', path: '', message: 'schema has no fields' }] };
+  }
+
+  const schema: DatasetSchema = {};
+  for (const [name, definition] of entries) {
+    if (!name.trim()) {
+      issues.push({ field: name, path: name, message: 'field name cannot be empty' });
+      continue;
+    }
+    const field = validateField(name, definition, issues);
+    if (field) schema[name] = field;
+  }
+
+  for (const [name, field] of Object.entries(schema)) {
+    if (!field.expression) continue;
+    compileExpression(field.expression).columns
+      .filter(column => !Object.prototype.hasOwnProperty.call(input, column))
+      .forEach(column => issues.push({ field: name, path: `${name}.expression`, message: `unknown column "${column}"` }));
+  }
+
+  if (issues.length === 0) {
+    try {
+      compileComputedColumns(schema);
+    } catch (error) {
+      issues.push({ field: '', path: '', message: (error as Error).message });
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, schema };
+}
+
+/**
+ * Validates and normalizes an untrusted schema, throwing a SchemaValidationError
+ * that lists every offending field.
+ */
+export function parseSchema(input: unknown): DatasetSchema {
+  const result = validateSchema(input);
+  if (!result.valid) {
+    throw new SchemaValidationError(result.issues);
+  }
+  return result.schema;
+}
+
+/**
+ * Validates a multi-table schema: every entity on its own, plus primary keys and
+ * references that must point at existing tables and fields without cycles.
+ */
+export function validateRelationalSchema(
+  input: unknown
+): { valid: true; schema: RelationalSchema } | { valid: false; issues: SchemaIssue[] } {
+  if (!isRecord(input) || Object.keys(input).length === 0) {
+    return { valid: false, issues: [{ field: '', path: '', message: 'relational schema must contain at least one table' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const schema: RelationalSchema = {};
+
+  for (const [table, definition] of Object.entries(input)) {
+    if (!isRecord(definition)) {
+      issues.push({ field: table, path: table, message: 'table definition must be an object' });
+      continue;
+    }
+
+    const result = validateSchema(definition.fields);
+    if (!result.valid) {
+      issues.push(...result.issues.map(issue => ({
+        field: issue.field ? `${table}.${issue.field}` : table,
+        path: issue.path ? `${table}.${issue.path}` : table,
+        message: issue.message
+      })));
+      continue;
+    }
+
+    const entity: EntitySchema = { fields: result.schema };
+    if (typeof definition.description === 'string') entity.description = definition.description;
+    if (typeof definition.rowCount === 'number' && definition.rowCount > 0) entity.rowCount = Math.floor(definition.rowCount);
+
+    if (definition.primaryKey !== undefined) {
+      if (typeof definition.primaryKey === 'string' && definition.primaryKey in result.schema) {
+        entity.primaryKey = definition.primaryKey;
+      } else {
+        issues.push({ field: table, path: `${table}.primaryKey`, message: `"${String(definition.primaryKey)}" is not a field of ${table}` });
+      }
+    }
+
+    schema[table] = entity;
+  }
+
+  for (const [table, entity] of Object.entries(schema)) {
+    for (const [name, field] of Object.entries(entity.fields)) {
+      if (!field.reference) continue;
+      const target = schema[field.reference.table];
+      if (!target && !(field.reference.table in input)) {
+        issues.push({ field: `${table}.${name}`, path: `${table}.${name}.reference.table`, message: `unknown table "${field.reference.table}"` });
+      } else if (target && !(field.reference.field in target.fields)) {
+        issues.push({ field: `${table}.${name}`, path: `${table}.${name}.reference.field`, message: `"${field.reference.field}" is not a field of ${field.reference.table}` });
+      }
+    }
+  }
+
+  if (issues.length === 0) {
+    try {
+      orderEntities(schema);
+    } catch (error) {
+      issues.push({ field: '', path: '', message: (error as Error).message });
+    }
+  }
+
+  return issues.length > 0 ? { valid: false, issues } : { valid: true, schema };
+}
+
+export function parseRelationalSchema(input: unknown): RelationalSchema {
+  const result = validateRelationalSchema(input);
+  if (!result.valid) {
+    throw new SchemaValidationError(result.issues);
+  }
+  return result.schema;
+}
+
+/**
+ * Tables ordered so every referenced table comes before the tables pointing at
+ * it. Self-references are allowed; longer cycles cannot be generated.
+ */
+export function orderEntities(schema: RelationalSchema): string[] {
+  const ordered: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (table: string, path: string[]) => {
+    if (state.get(table) === 'done') return;
+    if (state.get(table) === 'visiting') {
+      throw new Error(`Circular reference between tables: ${[...path, table].join(' -> ')}`);
+    }
+    state.set(table, 'visiting');
+    Object.values(schema[table]?.fields || {}).forEach(field => {
+      const target = field.reference?.table;
+      if (target && target !== table && schema[target]) visit(target, [...path, table]);
+    });
+    state.set(table, 'done');
+    ordered.push(table);
+  };
+
+  Object.keys(schema).forEach(table => visit(table, []));
+  return ordered;
+}
+
+/**
+ * Groups a flat schema with "table.field" keys into one entity per table, which
+ * is how the schema-from-description endpoint returns multi-table schemas.
+ * Unqualified fields belong to the fallback table.
+ */
+export function splitQualifiedSchema(schema: DatasetSchema, fallbackTable = 'records'): RelationalSchema {
+  const relational: RelationalSchema = {};
+
+  for (const [key, field] of Object.entries(schema)) {
+    const dot = key.indexOf('.');
+    const table = dot > 0 ? key.slice(0, dot) : fallbackTable;
+    const name = dot > 0 ? key.slice(dot + 1) : key;
+    relational[table] = relational[table] ?? { fields: {} };
+    relational[table].fields[name] = field;
+  }
+
+  for (const entity of Object.values(relational)) {
+    entity.primaryKey = guessPrimaryKey(entity.fields);
+  }
+
+  return relational;
+}
+
+// "id", else a unique *_id field, else the first uuid field
+export function guessPrimaryKey(fields: DatasetSchema): string | undefined {
+  const keys = Object.keys(fields);
+  return keys.find(name => name === 'id') ??
+    keys.find(name => fields[name].constraints?.unique && /(^id$|_id$)/i.test(name)) ??
+    keys.find(name => fields[name].type === 'uuid');
+}
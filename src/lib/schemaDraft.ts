@@ -0,0 +1,220 @@
+/**
+ * Editable schema drafts
+ * Form-friendly copy of a relational schema for the schema editor: every input is
+ * kept as typed (so half-written values survive), fields keep a stable id for
+ * reordering, and validation maps schema issues back to the field they belong to.
+ */
+
+import {
+  validateRelationalSchema,
+  type FieldDistribution,
+  type FieldType,
+  type RelationalSchema,
+  type SchemaField,
+  type SchemaValue
+} from './schema';
+
+export interface DraftField {
+  id: string;
+  name: string;
+  type: FieldType;
+  description: string;
+  nullable: boolean;
+  required: boolean;
+  unique: boolean;
+  min: string;
+  max: string;
+  minLength: string;
+  maxLength: string;
+  pattern: string;
+  // Comma-separated lists
+  enumValues: string;
+  examples: string;
+  referenceTable: string;
+  referenceField: string;
+  cardinalityMin: string;
+  cardinalityMax: string;
+  // Formula for computed fields, empty for generated ones
+  expression: string;
+  // Observed distributions only still apply while the type is unchanged
+  distribution?: FieldDistribution;
+  originalType?: FieldType;
+}
+
+export interface DraftTable {
+  name: string;
+  description?: string;
+  rowCount?: number;
+  primaryKey: string;
+  fields: DraftField[];
+}
+
+export type SchemaDraft = DraftTable[];
+
+export interface DraftValidation {
+  // Null while any field has issues
+  schema: RelationalSchema | null;
+  // Messages per draft field id
+  fieldIssues: Record<string, string[]>;
+  tableIssues: string[];
+  issueCount: number;
+}
+
+let nextFieldId = 0;
+
+const newFieldId = () => `field-${++nextFieldId}`;
+
+const listText = (values?: SchemaValue[]) => (values ?? []).map(String).join(', ');
+
+const boundText = (value?: number | string) => (value === undefined ? '' : String(value));
+
+export function toDraftField(name: string, field: SchemaField): DraftField {
+  const constraints = field.constraints ?? {};
+  return {
+    id: newFieldId(),
+    name,
+    type: field.type,
+    description: field.description ?? '',
+    nullable: field.nullable ?? false,
+    required: constraints.required ?? false,
+    unique: constraints.unique ?? false,
+    min: boundText(constraints.min),
+    max: boundText(constraints.max),
+    minLength: boundText(constraints.minLength),
+    maxLength: boundText(constraints.maxLength),
+    pattern: constraints.pattern ?? '',
+    enumValues: listText(constraints.enum),
+    examples: listText(field.examples),
+    referenceTable: field.reference?.table ?? '',
+    referenceField: field.reference?.field ?? '',
+    cardinalityMin: boundText(field.reference?.cardinality?.min),
+    cardinalityMax: boundText(field.reference?.cardinality?.max),
+    expression: field.expression ?? '',
+    distribution: field.distribution,
+    originalType: field.type
+  };
+}
+
+export function emptyDraftField(name: string): DraftField {
+  return toDraftField(name, { type: 'string' });
+}
+
+export function toSchemaDraft(schema: RelationalSchema): SchemaDraft {
+  return Object.entries(schema).map(([name, entity]) => ({
+    name,
+    description: entity.description,
+    rowCount: entity.rowCount,
+    primaryKey: entity.primaryKey ?? '',
+    fields: Object.entries(entity.fields).map(([fieldName, field]) => toDraftField(fieldName, field))
+  }));
+}
+
+function parseList(text: string, type: FieldType): SchemaValue[] {
+  const items = text.split(',').map(item => item.trim()).filter(Boolean);
+  const numeric = items.length > 0 && items.every(item => item !== '' && Number.isFinite(Number(item)));
+  if (type === 'boolean' && items.every(item => item === 'true' || item === 'false')) return items.map(item => item === 'true');
+  if (numeric && (type === 'number' || type === 'integer' || type === 'enum')) return items.map(Number);
+  return items;
+}
+
+// Whole numbers are converted; anything else is passed on so the validator reports it
+const integerInput = (text: string) => (/^\d+$/.test(text.trim()) ? Number(text.trim()) : text.trim());
+
+function fieldInput(field: DraftField): Record<string, unknown> {
+  const input: Record<string, unknown> = { type: field.type };
+  if (field.nullable) input.nullable = true;
+  if (field.description.trim()) input.description = field.description.trim();
+
+  const examples = parseList(field.examples, field.type);
+  if (examples.length) input.examples = examples;
+
+  const constraints: Record<string, unknown> = {};
+  if (field.min.trim()) constraints.min = field.min.trim();
+  if (field.max.trim()) constraints.max = field.max.trim();
+  if (field.minLength.trim()) constraints.minLength = integerInput(field.minLength);
+  if (field.maxLength.trim()) constraints.maxLength = integerInput(field.maxLength);
+  if (field.pattern) constraints.pattern = field.pattern;
+  if (field.required) constraints.required = true;
+  if (field.unique) constraints.unique = true;
+  const values = parseList(field.enumValues, field.type);
+  if (values.length) constraints.enum = values;
+  if (Object.keys(constraints).length) input.constraints = constraints;
+
+  if (field.type === 'reference' || field.referenceTable) {
+    const reference: Record<string, unknown> = { table: field.referenceTable, field: field.referenceField };
+    if (field.cardinalityMin.trim() || field.cardinalityMax.trim()) {
+      reference.cardinality = { min: integerInput(field.cardinalityMin), max: integerInput(field.cardinalityMax) };
+    }
+    input.reference = reference;
+  }
+
+  if (field.expression.trim()) input.expression = field.expression.trim();
+  if (field.distribution && field.type === field.originalType) input.distribution = field.distribution;
+  return input;
+}
+
+const fieldLabel = (path: string, prefix: string) => {
+  const rest = path.startsWith(prefix) ? path.slice(prefix.length).replace(/^\./, '') : '';
+  return rest ? `${rest.split('.').pop()}: ` : '';
+};
+
+/**
+ * Checks names (which the schema object cannot represent twice) and then runs
+ * the regular relational validation, so the editor reports exactly what
+ * generation would reject.
+ */
+export function validateSchemaDraft(draft: SchemaDraft): DraftValidation {
+  const fieldIssues: Record<string, string[]> = {};
+  const tableIssues: string[] = [];
+  const addFieldIssue = (id: string, message: string) => {
+    fieldIssues[id] = [...(fieldIssues[id] ?? []), message];
+  };
+
+  const input: Record<string, unknown> = {};
+  const ids = new Map<string, string>();
+
+  for (const table of draft) {
+    const fields: Record<string, unknown> = {};
+    const seen = new Set<string>();
+
+    for (const field of table.fields) {
+      const name = field.name.trim();
+      if (!name) {
+        addFieldIssue(field.id, 'field name cannot be empty');
+      } else if (seen.has(name)) {
+        addFieldIssue(field.id, `another field is already named "${name}"`);
+      } else {
+        seen.add(name);
+        fields[name] = fieldInput(field);
+        ids.set(`${table.name}.${name}`, field.id);
+      }
+    }
+
+    input[table.name] = {
+      fields,
+      ...(table.primaryKey && { primaryKey: table.primaryKey }),
+      ...(table.description && { description: table.description }),
+      ...(table.rowCount && { rowCount: table.rowCount })
+    };
+  }
+
+  const result = validateRelationalSchema(input);
+  if (!result.valid) {
+    for (const issue of result.issues) {
+      const id = ids.get(issue.field);
+      if (id) {
+        addFieldIssue(id, `${fieldLabel(issue.path, issue.field)}${issue.message}`);
+      } else {
+        tableIssues.push(issue.path ? `${issue.path}: ${issue.message}` : issue.message);
+      }
+    }
+  }
+
+  const issueCount = Object.values(fieldIssues).reduce((sum, messages) => sum + messages.length, 0) + tableIssues.length;
+  return {
+    schema: result.valid && issueCount === 0 ? result.schema : null,
+    fieldIssues,
+    tableIssues,
+    issueCount
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Schema export
+ * Renders a dataset schema as a JSON Schema document, TypeScript interfaces or
+ * Zod validators, so code consuming the synthetic data can share its contract.
+ * Multi-table schemas get one definition per table plus a type for the whole
+ * set of tables keyed by table name.
+ */
+
+import { orderEntities, type FieldType, type RelationalSchema, type SchemaField, type SchemaValue } from './schema';
+
+export type SchemaExportFormat = 'json_schema' | 'typescript' | 'zod';
+
+export const SCHEMA_EXPORT_FORMATS: { id: SchemaExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'json_schema', label: 'JSON Schema', extension: 'schema.json', mimeType: 'application/schema+json' },
+  { id: 'typescript', label: 'TypeScript', extension: 'ts', mimeType: 'text/typescript' },
+  { id: 'zod', label: 'Zod', extension: 'zod.ts', mimeType: 'text/typescript' }
+];
+
+type JsonObject = Record<string, unknown>;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const words = (name: string) => name.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean);
+
+const pascalCase = (name: string) => {
+  const result = words(name).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[A-Za-z_$]/.test(result) ? result : `T${result}`;
+};
+
+const camelCase = (name: string) => {
+  const pascal = pascalCase(name);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+
+const propertyKey = (name: string) => (IDENTIFIER.test(name) ? name : JSON.stringify(name));
+
+/**
+ * Foreign keys typed only as "reference" take the type of the key they point at.
+ */
+function storageType(schema: RelationalSchema, field: SchemaField, depth = 0): FieldType | null {
+  if (field.type !== 'reference') return field.type;
+  const target = field.reference && schema[field.reference.table]?.fields[field.reference.field];
+  return target && depth < 5 ? storageType(schema, target, depth + 1) : null;
+}
+
+// Short notes for doc comments: "min 1, max 100, unique, references customers.id"
+function fieldNotes(field: SchemaField): string[] {
+  const constraints = field.constraints ?? {};
+  const notes: string[] = [];
+  if (constraints.min !== undefined) notes.push(`min ${constraints.min}`);
+  if (constraints.max !== undefined) notes.push(`max ${constraints.max}`);
+  if (constraints.minLength !== undefined) notes.push(`min length ${constraints.minLength}`);
+  if (constraints.maxLength !== undefined) notes.push(`max length ${constraints.maxLength}`);
+  if (constraints.pattern) notes.push(`pattern ${constraints.pattern}`);
+  if (constraints.unique) notes.push('unique');
+  if (field.reference) notes.push(`references ${field.reference.table}.${field.reference.field}`);
+  return notes;
+}
+
+// What row-level validators cannot check: uniqueness, foreign keys and date ranges
+function unenforcedNotes(field: SchemaField, type: FieldType | null): string[] {
+  const bounded = type === 'number' || type === 'integer' || !!field.constraints?.enum?.length;
+  return fieldNotes(field).filter(note =>
+    /^(unique|references)/.test(note) || (!bounded && /^(min|max) [^l]/.test(note)));
+}
+
+function docComment(lines: string[], indent: string): string {
+  const text = lines.filter(Boolean).map(line => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map(line => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+const isNullable = (field: SchemaField) => field.nullable === true && !field.constraints?.required;
+
+// --- JSON Schema ---------------------------------------------------------------
+
+const JSON_SCHEMA_TYPES: Record<FieldType, JsonObject> = {
+  string: { type: 'string' },
+  text: { type: 'string' },
+  phone: { type: 'string' },
+  email: { type: 'string', format: 'email' },
+  uuid: { type: 'string', format: 'uuid' },
+  date: { type: 'string', format: 'date' },
+  datetime: { type: 'string', format: 'date-time' },
+  number: { type: 'number' },
+  integer: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  enum: {},
+  reference: {}
+};
+
+function jsonSchemaField(schema: RelationalSchema, field: SchemaField): JsonObject {
+  const type = storageType(schema, field);
+  const constraints = field.constraints ?? {};
+  const node: JsonObject = {};
+  if (field.description) node.description = field.description;
+
+  if (type === 'enum' || constraints.enum?.length) {
+    const values: (SchemaValue | null)[] = [...(constraints.enum ?? [])];
+    node.enum = isNullable(field) ? [...values, null] : values;
+  } else {
+    Object.assign(node, type ? JSON_SCHEMA_TYPES[type] : {});
+    if (node.type && isNullable(field)) node.type = [node.type, 'null'];
+  }
+
+  if (type === 'number' || type === 'integer') {
+    if (typeof constraints.min === 'number') node.minimum = constraints.min;
+    if (typeof constraints.max === 'number') node.maximum = constraints.max;
+  }
+  if (constraints.minLength !== undefined) node.minLength = constraints.minLength;
+  if (constraints.maxLength !== undefined) node.maxLength = constraints.maxLength;
+  if (constraints.pattern) node.pattern = constraints.pattern;
+  if (field.examples?.length) node.examples = field.examples;
+
+  const notes = unenforcedNotes(field, type);
+  if (notes.length) node.$comment = notes.join(', ');
+  return node;
+}
+
+function jsonSchemaTable(schema: RelationalSchema, table: string): JsonObject {
+  const entity = schema[table];
+  const node: JsonObject = {
+    title: table,
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(entity.fields).map(([name, field]) => [name, jsonSchemaField(schema, field)])),
+    // Generated rows always carry every column; nullable ones may hold null
+    required: Object.keys(entity.fields),
+    additionalProperties: false
+  };
+  if (entity.description) node.description = entity.description;
+  if (entity.primaryKey) node.$comment = `primary key ${entity.primaryKey}`;
+  return node;
+}
+
+export function toJsonSchema(schema: RelationalSchema, title = 'dataset'): JsonObject {
+  const tables = orderEntities(schema);
+  if (tables.length === 1) {
+    return { $schema: 'https://json-schema.org/draft/2020-12/schema', ...jsonSchemaTable(schema, tables[0]) };
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title,
+    type: 'object',
+    properties: Object.fromEntries(tables.map(table => [table, { type: 'array', items: { $ref: `#/$defs/${table}` } }])),
+    required: tables,
+    $defs: Object.fromEntries(tables.map(table => [table, jsonSchemaTable(schema, table)]))
+  };
+}
+
+// --- TypeScript ----------------------------------------------------------------
+
+function typeScriptType(schema: RelationalSchema, field: SchemaField): string {
+  const type = storageType(schema, field);
+  const values = field.constraints?.enum;
+  let result = 'string';
+
+  if (values?.length && type !== 'boolean') {
+    result = values.map(value => JSON.stringify(value)).join(' | ');
+  } else if (type === 'number' || type === 'integer') {
+    result = 'number';
+  } else if (type === 'boolean') {
+    result = 'boolean';
+  } else if (type === null) {
+    result = 'string | number';
+  }
+
+  return isNullable(field) ? `${result} | null` : result;
+}
+
+const TYPE_NOTES: Partial<Record<FieldType, string>> = {
+  integer: 'integer',
+  email: 'email address',
+  uuid: 'UUID',
+  date: 'ISO date (YYYY-MM-DD)',
+  datetime: 'ISO date-time',
+  phone: 'phone number'
+};
+
+export function toTypeScript(schema: RelationalSchema, title = 'dataset'): string {
+  const tables = orderEntities(schema);
+  const blocks = tables.map(table => {
+    const entity = schema[table];
+    const header = docComment([entity.description ?? '', `Rows of the ${table} table${entity.primaryKey ? `, keyed by ${entity.primaryKey}` : ''}`], '');
+    const fields = Object.entries(entity.fields).map(([name, field]) => {
+      const type = storageType(schema, field);
+      const notes = [type && TYPE_NOTES[type], ...fieldNotes(field)].filter(Boolean).join(', ');
+      const doc = docComment([field.description ?? '', notes ? `${notes[0].toUpperCase()}${notes.slice(1)}` : ''], '  ');
+      return `${doc}  ${propertyKey(name)}: ${typeScriptType(schema, field)};`;
+    });
+    return `${header}export interface ${pascalCase(table)} {\n${fields.join('\n')}\n}`;
+  });
+
+  if (tables.length > 1) {
+    const members = tables.map(table => `  ${propertyKey(table)}: ${pascalCase(table)}[];`);
+    blocks.push(`export interface ${pascalCase(title)} {\n${members.join('\n')}\n}`);
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// --- Zod -----------------------------------------------------------------------
+
+function zodEnum(values: SchemaValue[]): string {
+  if (values.every(value => typeof value === 'string')) {
+    return `z.enum([${values.map(value => JSON.stringify(value)).join(', ')}])`;
+  }
+  const literals = values.map(value => `z.literal(${JSON.stringify(value)})`);
+  return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+}
+
+function zodField(schema: RelationalSchema, field: SchemaField): string {
+  const type = storageType(schema, field);
+  const constraints = field.constraints ?? {};
+  let result: string;
+
+  if (constraints.enum?.length && type !== 'boolean') {
+    result = zodEnum(constraints.enum);
+  } else {
+    switch (type) {
+      case 'integer':
+      case 'number':
+        result = type === 'integer' ? 'z.number().int()' : 'z.number()';
+        if (typeof constraints.min === 'number') result += `.min(${constraints.min})`;
+        if (typeof constraints.max === 'number') result += `.max(${constraints.max})`;
+        break;
+      case 'boolean':
+        result = 'z.boolean()';
+        break;
+      case null:
+        result = 'z.union([z.string(), z.number()])';
+        break;
+      default:
+        result = {
+          email: 'z.string().email()',
+          uuid: 'z.string().uuid()',
+          date: 'z.string().date()',
+          datetime: 'z.string().datetime({ offset: true })'
+        }[type as string] ?? 'z.string()';
+        if (constraints.minLength !== undefined) result += `.min(${constraints.minLength})`;
+        if (constraints.maxLength !== undefined) result += `.max(${constraints.maxLength})`;
+        if (constraints.pattern) result += `.regex(new RegExp(${JSON.stringify(constraints.pattern)}))`;
+    }
+  }
+
+  if (isNullable(field)) result += '.nullable()';
+  if (field.description) result += `.describe(${JSON.stringify(field.description)})`;
+  return result;
+}
+
+export function toZod(schema: RelationalSchema, title = 'dataset'): string {
+  const tables = orderEntities(schema);
+  const blocks = tables.map(table => {
+    const entity = schema[table];
+    const fields = Object.entries(entity.fields).map(([name, field]) => {
+      const notes = unenforcedNotes(field, storageType(schema, field));
+      return `${docComment(notes.length ? [notes.join(', ')] : [], '  ')}  ${propertyKey(name)}: ${zodField(schema, field)},`;
+    });
+    const name = pascalCase(table);
+    return `${docComment([entity.description ?? ''], '')}export const ${camelCase(table)}Schema = z.object({\n${fields.join('\n')}\n});\n\n` +
+      `export type ${name} = z.infer<typeof ${camelCase(table)}Schema>;`;
+  });
+
+  if (tables.length > 1) {
+    const members = tables.map(table => `  ${propertyKey(table)}: z.array(${camelCase(table)}Schema),`);
+    blocks.push(`export const ${camelCase(title)}Schema = z.object({\n${members.join('\n')}\n});\n\n` +
+      `export type ${pascalCase(title)} = z.infer<typeof ${camelCase(title)}Schema>;`);
+  }
+  return `import { z } from 'zod';\n\n${blocks.join('\n\n')}\n`;
+}
+
+export function exportSchema(schema: RelationalSchema, format: SchemaExportFormat, title?: string): string {
+  switch (format) {
+    case 'json_schema':
+      return JSON.stringify(toJsonSchema(schema, title), null, 2);
+    case 'typescript':
+      return toTypeScript(schema, title);
+    case 'zod':
+      return toZod(schema, title);
+  }
+}
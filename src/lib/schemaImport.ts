@@ -0,0 +1,1364 @@
+/**
+ * Schema import
+ * Turns existing schema definitions - SQL CREATE TABLE scripts, JSON Schema,
+ * OpenAPI component schemas and Avro .avsc files - into the app's relational
+ * schema, keeping types, nullability, enums, bounds and foreign keys. Anything
+ * without an equivalent is reported as a warning instead of failing the import.
+ */
+
+import {
+  guessPrimaryKey,
+  orderEntities,
+  parseRelationalSchema,
+  type DatasetSchema,
+  type FieldConstraints,
+  type FieldType,
+  type RelationalSchema,
+  type SchemaField,
+  type SchemaValue
+} from './schema';
+
+export type SchemaSourceFormat = 'sql' | 'json_schema' | 'openapi' | 'avro';
+
+export const SCHEMA_SOURCE_LABELS: Record<SchemaSourceFormat, string> = {
+  sql: 'SQL DDL',
+  json_schema: 'JSON Schema',
+  openapi: 'OpenAPI',
+  avro: 'Avro'
+};
+
+export interface ImportedSchema {
+  format: SchemaSourceFormat;
+  schema: RelationalSchema;
+  warnings: string[];
+}
+
+export interface SchemaImportOptions {
+  format?: SchemaSourceFormat;
+  // Used to detect the format and, without a name, to name the root table
+  filename?: string;
+  // Table name for sources that do not name their root table (a single JSON Schema)
+  name?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSchemaValue = (value: unknown): value is SchemaValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+const tableName = (name: string) => name.replace(/\.[^.]+$/, '').replace(/[^\w$]+/g, '_').replace(/^_+|_+$/g, '') || 'records';
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guesses the format from the file extension, then from the content.
+ */
+export function detectSchemaFormat(text: string, filename = ''): SchemaSourceFormat {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'sql' || extension === 'ddl') return 'sql';
+  if (extension === 'avsc') return 'avro';
+
+  const json = parseJson(text);
+  const documents = Array.isArray(json) ? json : [json];
+  if (isObject(json) && (json.openapi !== undefined || json.swagger !== undefined)) return 'openapi';
+  if (documents.some(item => isObject(item) && item.type === 'record')) return 'avro';
+  if (isObject(json)) return 'json_schema';
+  if (/\bcreate\s+(?:\w+\s+)*table\b/i.test(text)) return 'sql';
+  if (/^\s*(openapi|swagger)\s*:/m.test(text)) {
+    throw new Error('YAML OpenAPI documents are not supported, please convert the document to JSON');
+  }
+  throw new Error('Unrecognized schema format, expected SQL DDL, JSON Schema, OpenAPI or Avro');
+}
+
+export function importSchema(text: string, options: SchemaImportOptions = {}): ImportedSchema {
+  const format = options.format ?? detectSchemaFormat(text, options.filename);
+  const warnings: string[] = [];
+
+  let tables: RelationalSchema;
+  if (format === 'sql') {
+    tables = importSqlDdl(text, warnings);
+  } else {
+    const json = parseJson(text);
+    if (json === undefined) throw new Error(`${SCHEMA_SOURCE_LABELS[format]} documents must be valid JSON`);
+    tables = format === 'avro'
+      ? importAvro(json, warnings)
+      : format === 'openapi'
+        ? importOpenApi(json, warnings)
+        : importJsonSchema(json, tableName(options.name || options.filename || 'records'), warnings);
+  }
+
+  if (Object.keys(tables).length === 0) {
+    throw new Error(`No tables found in the ${SCHEMA_SOURCE_LABELS[format]} document`);
+  }
+
+  breakReferenceCycles(tables, warnings);
+  return { format, schema: parseRelationalSchema(tables), warnings };
+}
+
+function markPrimaryKey(table: RelationalSchema[string], key: string) {
+  const field = table.fields[key];
+  table.primaryKey = key;
+  field.nullable = false;
+  field.constraints = { ...field.constraints, required: true, unique: true };
+}
+
+/**
+ * Generation needs an order in which parents come first, so the reference that
+ * closes a cycle (usually an optional back-pointer) is dropped.
+ */
+function breakReferenceCycles(tables: RelationalSchema, warnings: string[]) {
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (table: string) => {
+    state.set(table, 'visiting');
+    for (const [name, field] of Object.entries(tables[table].fields)) {
+      const target = field.reference?.table;
+      if (!target || target === table || !tables[target]) continue;
+      if (state.get(target) === 'visiting') {
+        delete field.reference;
+        if (field.type === 'reference') field.type = 'string';
+        warnings.push(`${table}.${name}: reference to ${target} dropped because it closes a cycle`);
+      } else if (!state.has(target)) {
+        visit(target);
+      }
+    }
+    state.set(table, 'done');
+  };
+
+  Object.keys(tables).forEach(table => {
+    if (!state.has(table)) visit(table);
+  });
+  orderEntities(tables);
+}
+
+// --- SQL DDL -----------------------------------------------------------------
+
+interface SqlToken {
+  kind: 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+  value: string;
+}
+
+function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const readQuoted = (close: string) => {
+    let value = '';
+    i++;
+    while (i < sql.length) {
+      if (sql[i] === close) {
+        // A doubled quote is an escaped quote
+        if (sql[i + 1] === close && close !== ']') {
+          value += close;
+          i += 2;
+          continue;
+        }
+        i++;
+        return value;
+      }
+      value += sql[i++];
+    }
+    return value;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i, i + 2);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (rest === '--' || char === '#') {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (rest === '/*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      tokens.push({ kind: 'string', value: readQuoted("'") });
+    } else if (char === '"' || char === '`') {
+      tokens.push({ kind: 'identifier', value: readQuoted(char) });
+    } else if (char === '[' && /[\w\s]/.test(sql[i + 1] ?? '') && sql.indexOf(']', i) > i + 1) {
+      tokens.push({ kind: 'identifier', value: readQuoted(']') });
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(sql[i + 1] ?? ''))) {
+      const match = /^(\d*\.?\d+(?:e[+-]?\d+)?)/i.exec(sql.slice(i))!;
+      tokens.push({ kind: 'number', value: match[1] });
+      i += match[1].length;
+    } else if (/[\p{L}_$]/u.test(char)) {
+      const match = /^[\p{L}\p{N}_$]+/u.exec(sql.slice(i))!;
+      tokens.push({ kind: 'word', value: match[0] });
+      i += match[0].length;
+    } else {
+      const symbol = ['>=', '<=', '<>', '!=', '::'].includes(rest) ? rest : char;
+      tokens.push({ kind: 'symbol', value: symbol });
+      i += symbol.length;
+    }
+  }
+
+  return tokens;
+}
+
+class SqlCursor {
+  private position = 0;
+
+  constructor(private tokens: SqlToken[]) {}
+
+  get done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(offset = 0): SqlToken | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  next(): SqlToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  rest(): SqlToken[] {
+    return this.tokens.slice(this.position);
+  }
+
+  isWord(word: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'word' && token.value.toUpperCase() === word;
+  }
+
+  isSymbol(symbol: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  // Consumes the words if they all follow in order
+  acceptWords(...words: string[]): boolean {
+    if (!words.every((word, index) => this.isWord(word, index))) return false;
+    this.position += words.length;
+    return true;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false;
+    this.position++;
+    return true;
+  }
+
+  name(): string | undefined {
+    const token = this.peek();
+    if (token?.kind !== 'word' && token?.kind !== 'identifier') return undefined;
+    this.position++;
+    return token.value;
+  }
+
+  // schema.table or server.db.schema.table; only the last part names the table
+  qualifiedName(): string | undefined {
+    let name = this.name();
+    while (name !== undefined && this.isSymbol('.')) {
+      this.position++;
+      name = this.name();
+    }
+    return name;
+  }
+
+  // Tokens inside the parentheses at the cursor, which is left after the closing one
+  group(): SqlToken[] {
+    if (!this.acceptSymbol('(')) return [];
+    const start = this.position;
+    let depth = 1;
+    while (!this.done) {
+      const token = this.next()!;
+      if (token.kind !== 'symbol') continue;
+      if (token.value === '(') depth++;
+      if (token.value === ')' && --depth === 0) return this.tokens.slice(start, this.position - 1);
+    }
+    return this.tokens.slice(start);
+  }
+
+  nameList(): string[] {
+    return splitTopLevel(this.group())
+      .map(part => part.find(token => token.kind === 'word' || token.kind === 'identifier')?.value)
+      .filter((name): name is string => !!name);
+  }
+}
+
+function splitTopLevel(tokens: SqlToken[], separator = ','): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+  for (const token of tokens) {
+    if (token.kind === 'symbol' && token.value === '(') depth++;
+    if (token.kind === 'symbol' && token.value === ')') depth--;
+    if (depth === 0 && token.kind === 'symbol' && token.value === separator) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  }
+  return parts.filter(part => part.length > 0);
+}
+
+const sqlText = (tokens: SqlToken[]) => tokens.map(token => (token.kind === 'string' ? `'${token.value}'` : token.value)).join(' ');
+
+interface SqlForeignKey {
+  columns: string[];
+  table: string;
+  fields: string[];
+}
+
+interface SqlTableDraft {
+  name: string;
+  fields: DatasetSchema;
+  primaryKey: string[];
+  foreignKeys: SqlForeignKey[];
+  description?: string;
+}
+
+// Words that may continue a type name, as in "double precision" or "timestamp with time zone"
+const SQL_TYPE_WORDS = new Set(['PRECISION', 'VARYING', 'WITH', 'WITHOUT', 'TIME', 'ZONE', 'UNSIGNED', 'SIGNED', 'ZEROFILL', 'LOCAL']);
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  tinyint: [-128, 127],
+  smallint: [-32768, 32767],
+  int2: [-32768, 32767],
+  smallserial: [1, 32767],
+  mediumint: [-8388608, 8388607]
+};
+
+interface SqlType {
+  name: string;
+  args: SqlToken[];
+  array: boolean;
+}
+
+function readSqlType(cursor: SqlCursor): SqlType {
+  const words = [cursor.name() ?? ''];
+  let args: SqlToken[] = [];
+  let array = false;
+
+  for (;;) {
+    if (cursor.isSymbol('(')) {
+      args = cursor.group();
+    } else if (cursor.isSymbol('[')) {
+      cursor.next();
+      cursor.acceptSymbol(']');
+      array = true;
+    } else if (cursor.peek()?.kind === 'word' && SQL_TYPE_WORDS.has(cursor.peek()!.value.toUpperCase())) {
+      words.push(cursor.next()!.value);
+    } else {
+      break;
+    }
+  }
+
+  return { name: words.join(' ').toLowerCase(), args, array };
+}
+
+/**
+ * DECIMAL(p, s) and Avro decimals hold p digits, s of them after the point, so
+ * their magnitude stays below 10^(p - s). Beyond 15 digits the bound is not
+ * exact as a float and is left off.
+ */
+function decimalField(precision: number, scale = 0): SchemaField {
+  if (!Number.isInteger(precision) || precision < 1 || precision > 15 || !Number.isInteger(scale) || scale < 0 || scale > precision) {
+    return { type: 'number' };
+  }
+  const max = (10 ** precision - 1) / 10 ** scale;
+  return { type: 'number', constraints: { min: -max, max } };
+}
+
+function sqlField(type: SqlType, enumTypes: Map<string, string[]>, where: string, warnings: string[]): SchemaField {
+  const base = type.name.split(' ')[0];
+  const numericArgs = type.args.filter(token => token.kind === 'number').map(token => Number(token.value));
+  const unsigned = / unsigned/.test(type.name);
+
+  if (type.array) {
+    warnings.push(`${where}: ${type.name}[] arrays are imported as text`);
+    return { type: 'string' };
+  }
+
+  const enumValues = base === 'enum' || base === 'set'
+    ? type.args.filter(token => token.kind === 'string').map(token => token.value)
+    : enumTypes.get(base);
+  if (enumValues?.length) {
+    if (base === 'set') warnings.push(`${where}: SET columns are imported as a single-value enum`);
+    return { type: 'enum', constraints: { enum: enumValues } };
+  }
+
+  if (['tinyint', 'bit'].includes(base) && numericArgs[0] === 1) return { type: 'boolean' };
+
+  if (/^(tinyint|smallint|mediumint|int|integer|bigint|int2|int4|int8|serial|serial2|serial4|serial8|smallserial|bigserial)$/.test(base)) {
+    const range = INTEGER_RANGES[base];
+    const constraints: FieldConstraints = {};
+    if (range) {
+      constraints.min = unsigned ? 0 : range[0];
+      constraints.max = unsigned ? range[1] * 2 + 1 : range[1];
+    } else if (unsigned || base.includes('serial')) {
+      constraints.min = unsigned ? 0 : 1;
+    }
+    return Object.keys(constraints).length ? { type: 'integer', constraints } : { type: 'integer' };
+  }
+
+  if (/^(decimal|numeric|number|dec|real|float|float4|float8|double|money|smallmoney)$/.test(base)) {
+    // Oracle NUMBER(p) without a scale holds integers
+    if (base === 'number' && numericArgs.length === 1) return { type: 'integer' };
+    const field = /^(decimal|numeric|number|dec)$/.test(base) && numericArgs.length ? decimalField(numericArgs[0], numericArgs[1]) : { type: 'number' as const };
+    return unsigned ? { ...field, constraints: { ...field.constraints, min: 0 } } : field;
+  }
+
+  if (/^(bool|boolean|bit)$/.test(base)) return { type: 'boolean' };
+  if (base === 'date') return { type: 'date' };
+  if (/^(timestamp|timestamptz|datetime|datetime2|smalldatetime|datetimeoffset)$/.test(base)) return { type: 'datetime' };
+  if (/^(uuid|uniqueidentifier)$/.test(base)) return { type: 'uuid' };
+  if (/^(text|tinytext|mediumtext|longtext|ntext|clob|nclob|citext)$/.test(base)) return { type: 'text' };
+
+  if (/^(char|character|nchar|varchar|varchar2|nvarchar|nvarchar2|string)$/.test(base)) {
+    return numericArgs.length ? { type: 'string', constraints: { maxLength: numericArgs[0] } } : { type: 'string' };
+  }
+
+  if (base === 'time' || base === 'timetz') {
+    return { type: 'string', constraints: { pattern: '^\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?$' } };
+  }
+
+  if (!/^(json|jsonb|xml|bytea|blob|binary|varbinary|image|inet|cidr|macaddr)$/.test(base)) {
+    warnings.push(`${where}: unknown type ${type.name} imported as string`);
+  }
+  return { type: 'string' };
+}
+
+const findColumn = (fields: DatasetSchema, name: string) =>
+  name in fields ? name : Object.keys(fields).find(key => key.toLowerCase() === name.toLowerCase());
+
+// Postgres casts (x::text, ARRAY[...]::varchar[]) say nothing about the allowed values
+function stripCasts(tokens: SqlToken[]): SqlToken[] {
+  const result: SqlToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== 'symbol' || token.value !== '::') {
+      result.push(token);
+      continue;
+    }
+    i++;
+    while (tokens[i + 1]?.kind === 'word' && SQL_TYPE_WORDS.has(tokens[i + 1].value.toUpperCase())) i++;
+    if (tokens[i + 1]?.value === '(') {
+      while (i < tokens.length && tokens[i].value !== ')') i++;
+    }
+    if (tokens[i + 1]?.value === '[' && tokens[i + 2]?.value === ']') i += 2;
+  }
+  return result;
+}
+
+function sqlLiteral(tokens: SqlToken[]): SchemaValue | undefined {
+  const [first, second] = tokens;
+  if (tokens.length === 1 && first.kind === 'string') return first.value;
+  if (tokens.length === 1 && first.kind === 'number') return Number(first.value);
+  if (tokens.length === 2 && first.kind === 'symbol' && (first.value === '-' || first.value === '+') && second.kind === 'number') {
+    return Number(`${first.value}${second.value}`);
+  }
+  if (tokens.length === 1 && first.kind === 'word' && /^(true|false)$/i.test(first.value)) return first.value.toLowerCase() === 'true';
+  return undefined;
+}
+
+const unwrapParens = (tokens: SqlToken[]): SqlToken[] => {
+  let current = tokens;
+  while (current.length >= 2 && current[0].kind === 'symbol' && current[0].value === '(' && current[current.length - 1].value === ')') {
+    const inner = current.slice(1, -1);
+    // Only strip if the outer parentheses belong together
+    let depth = 0;
+    const balanced = inner.every(token => {
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')') depth--;
+      return depth >= 0;
+    });
+    if (!balanced) break;
+    current = inner;
+  }
+  return current;
+};
+
+// Splits on AND, keeping BETWEEN x AND y together
+function splitConjuncts(tokens: SqlToken[]): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+  let between = false;
+  for (const token of tokens) {
+    if (token.kind === 'symbol' && token.value === '(') depth++;
+    if (token.kind === 'symbol' && token.value === ')') depth--;
+    const word = token.kind === 'word' ? token.value.toUpperCase() : '';
+    if (depth === 0 && word === 'BETWEEN') between = true;
+    if (depth === 0 && word === 'AND') {
+      if (between) {
+        between = false;
+      } else {
+        parts.push([]);
+        continue;
+      }
+    }
+    parts[parts.length - 1].push(token);
+  }
+  return parts;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Generated numbers have two decimals, so exclusive numeric bounds step by 0.01
+const NUMBER_STEP_DIGITS = 2;
+
+// Multiplying by a power of ten leaves float noise (0.29 * 100 = 28.999999999999996)
+const snap = (value: number) => (Math.abs(value - Math.round(value)) < 1e-9 ? Math.round(value) : value);
+
+/**
+ * The closest value past an exclusive bound that the field can hold: the next
+ * integer, the next hundredth, the next day, or the next second for datetimes.
+ */
+function beyond(field: SchemaField, value: number | string, direction: 1 | -1): number | string {
+  const round = direction > 0 ? Math.floor : Math.ceil;
+  if (typeof value === 'number') {
+    if (field.type === 'integer') return round(value) + direction;
+    const factor = 10 ** NUMBER_STEP_DIGITS;
+    return (round(snap(value * factor)) + direction) / factor;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return value;
+  return field.type === 'date'
+    ? new Date(time + direction * DAY_MS).toISOString().slice(0, 10)
+    : new Date(time + direction * 1000).toISOString();
+}
+
+// Several checks on one column narrow its range rather than replace it
+function applyBound(field: SchemaField, operator: string, value: SchemaValue) {
+  if (typeof value === 'boolean' || (typeof value === 'string' && field.type !== 'date' && field.type !== 'datetime')) return false;
+  const order = (bound: number | string) => (typeof bound === 'number' ? bound : new Date(bound).getTime());
+  const constraints = { ...field.constraints };
+
+  if (operator === '>=' || operator === '>') {
+    const min = operator === '>' ? beyond(field, value, 1) : value;
+    if (constraints.min === undefined || order(min) > order(constraints.min)) constraints.min = min;
+  } else if (operator === '<=' || operator === '<') {
+    const max = operator === '<' ? beyond(field, value, -1) : value;
+    if (constraints.max === undefined || order(max) < order(constraints.max)) constraints.max = max;
+  } else {
+    return false;
+  }
+  field.constraints = constraints;
+  return true;
+}
+
+const FLIPPED_OPERATORS: Record<string, string> = { '>': '<', '<': '>', '>=': '<=', '<=': '>=' };
+
+/**
+ * Understands the common CHECK shapes: IN lists (also Postgres' = ANY (ARRAY[...])),
+ * comparisons and BETWEEN against literals, length limits and regex matches.
+ */
+function applyCheck(fields: DatasetSchema, tokens: SqlToken[], where: string, warnings: string[], column?: string) {
+  for (const conjunct of splitConjuncts(unwrapParens(stripCasts(tokens)))) {
+    const part = unwrapParens(conjunct);
+    const cursor = new SqlCursor(part);
+
+    let lengthOf = false;
+    if (['LENGTH', 'CHAR_LENGTH', 'CHARACTER_LENGTH', 'LEN'].some(fn => cursor.isWord(fn)) && cursor.isSymbol('(', 1)) {
+      cursor.next();
+      lengthOf = true;
+    }
+    // The column itself may be parenthesized, as pg_dump writes it
+    const columnTokens = lengthOf || cursor.isSymbol('(') ? unwrapParens(cursor.group()) : [];
+    const name = lengthOf || columnTokens.length > 0 ? (columnTokens.length === 1 ? columnTokens[0].value : undefined) : cursor.name();
+    const key = name ? findColumn(fields, name) : column;
+    const field = key ? fields[key] : undefined;
+    if (field && applyCheckCondition(field, cursor.rest(), lengthOf)) continue;
+
+    // Literal on the left: 0 < price
+    const operatorIndex = part.findIndex(token => token.kind === 'symbol' && token.value in FLIPPED_OPERATORS);
+    if (!lengthOf && operatorIndex > 0 && operatorIndex === part.length - 2) {
+      const value = sqlLiteral(part.slice(0, operatorIndex));
+      const right = findColumn(fields, part[part.length - 1].value);
+      if (value !== undefined && right && applyBound(fields[right], FLIPPED_OPERATORS[part[operatorIndex].value], value)) continue;
+    }
+
+    warnings.push(`${where}: CHECK (${sqlText(part)}) was not imported`);
+  }
+}
+
+function applyCheckCondition(field: SchemaField, tokens: SqlToken[], lengthOf: boolean): boolean {
+  const cursor = new SqlCursor(tokens);
+  const operator = cursor.peek();
+  if (!operator) return false;
+
+  if (lengthOf) {
+    cursor.next();
+    const value = sqlLiteral(tokens.slice(1));
+    if (typeof value !== 'number') return false;
+    const constraints = { ...field.constraints };
+    if (operator.value === '<=' || operator.value === '<') constraints.maxLength = operator.value === '<' ? value - 1 : value;
+    else if (operator.value === '>=' || operator.value === '>') constraints.minLength = operator.value === '>' ? value + 1 : value;
+    else if (operator.value === '=') constraints.minLength = constraints.maxLength = value;
+    else return false;
+    field.constraints = constraints;
+    return true;
+  }
+
+  if (cursor.acceptWords('IN') || (cursor.acceptSymbol('=') && cursor.acceptWords('ANY'))) {
+    let list = unwrapParens(cursor.group());
+    if (list[0]?.kind === 'word' && list[0].value.toUpperCase() === 'ARRAY' && list[1]?.value === '[') {
+      list = list.slice(2, list[list.length - 1]?.value === ']' ? -1 : undefined);
+    }
+    const values = splitTopLevel(list).map(item => sqlLiteral(unwrapParens(item)));
+    if (values.length === 0 || values.some(value => value === undefined)) return false;
+    if (field.type !== 'boolean') field.type = 'enum';
+    field.constraints = { ...field.constraints, enum: values as SchemaValue[] };
+    return true;
+  }
+
+  if (cursor.acceptWords('BETWEEN')) {
+    const [low, high] = tokens.slice(1).reduce<SqlToken[][]>((sides, token) => {
+      if (token.kind === 'word' && token.value.toUpperCase() === 'AND') sides.push([]);
+      else sides[sides.length - 1].push(token);
+      return sides;
+    }, [[]]);
+    const min = low && sqlLiteral(low);
+    const max = high && sqlLiteral(high);
+    if (min === undefined || max === undefined) return false;
+    return applyBound(field, '>=', min) && applyBound(field, '<=', max);
+  }
+
+  if (operator.value === '~' || cursor.isWord('REGEXP') || cursor.isWord('RLIKE')) {
+    const pattern = tokens[1];
+    if (pattern?.kind !== 'string' || tokens.length !== 2) return false;
+    field.constraints = { ...field.constraints, pattern: pattern.value };
+    return true;
+  }
+
+  if (cursor.acceptWords('IS', 'NOT', 'NULL') && cursor.done) {
+    field.nullable = false;
+    field.constraints = { ...field.constraints, required: true };
+    return true;
+  }
+
+  const value = sqlLiteral(tokens.slice(1));
+  if (value === undefined) return false;
+  if (operator.value === '=') {
+    field.constraints = { ...field.constraints, enum: [value] };
+    if (field.type !== 'boolean') field.type = 'enum';
+    return true;
+  }
+  return applyBound(field, operator.value, value);
+}
+
+function readReference(cursor: SqlCursor): { table: string; fields: string[] } | undefined {
+  const table = cursor.qualifiedName();
+  if (!table) return undefined;
+  const fields = cursor.isSymbol('(') ? cursor.nameList() : [];
+  return { table, fields };
+}
+
+// Skips the rest of a clause the importer has no use for (DEFAULT expressions, ON DELETE ...)
+function skipExpression(cursor: SqlCursor) {
+  const token = cursor.next();
+  if (token?.kind === 'symbol' && (token.value === '-' || token.value === '+')) cursor.next();
+  if (cursor.isSymbol('(')) cursor.group();
+  while (cursor.acceptSymbol('::')) readSqlType(cursor);
+}
+
+function readColumn(
+  cursor: SqlCursor,
+  draft: SqlTableDraft,
+  enumTypes: Map<string, string[]>,
+  checks: { tokens: SqlToken[]; column?: string }[],
+  warnings: string[]
+) {
+  const name = cursor.name()!;
+  const where = `${draft.name}.${name}`;
+  const field = sqlField(readSqlType(cursor), enumTypes, where, warnings);
+  let notNull = false;
+  draft.fields[name] = field;
+
+  while (!cursor.done) {
+    if (cursor.acceptWords('CONSTRAINT')) {
+      cursor.name();
+    } else if (cursor.acceptWords('NOT', 'NULL')) {
+      notNull = true;
+    } else if (cursor.acceptWords('NULL')) {
+      notNull = false;
+    } else if (cursor.acceptWords('PRIMARY', 'KEY')) {
+      draft.primaryKey = [name];
+      if (cursor.isWord('ASC') || cursor.isWord('DESC')) cursor.next();
+    } else if (cursor.acceptWords('UNIQUE')) {
+      cursor.acceptWords('KEY');
+      field.constraints = { ...field.constraints, unique: true };
+    } else if (cursor.acceptWords('REFERENCES')) {
+      const reference = readReference(cursor);
+      if (reference) draft.foreignKeys.push({ columns: [name], ...reference });
+    } else if (cursor.acceptWords('CHECK')) {
+      checks.push({ tokens: cursor.group(), column: name });
+    } else if (cursor.acceptWords('COMMENT')) {
+      const comment = cursor.next();
+      if (comment?.kind === 'string') field.description = comment.value;
+    } else if (cursor.acceptWords('DEFAULT') || cursor.acceptWords('COLLATE') || cursor.acceptWords('CHARACTER', 'SET') ||
+               cursor.acceptWords('CHARSET') || cursor.acceptWords('ON', 'UPDATE') || cursor.acceptWords('ON', 'DELETE')) {
+      skipExpression(cursor);
+    } else if (cursor.acceptWords('AUTO_INCREMENT') || cursor.acceptWords('AUTOINCREMENT') || cursor.acceptWords('IDENTITY')) {
+      if (cursor.isSymbol('(')) cursor.group();
+      field.constraints = { ...field.constraints, unique: true };
+    } else if (cursor.acceptWords('GENERATED')) {
+      // GENERATED ... AS IDENTITY is a key; GENERATED ALWAYS AS (expr) is computed by the database
+      while (!cursor.done && !cursor.isWord('AS')) cursor.next();
+      cursor.acceptWords('AS');
+      if (cursor.acceptWords('IDENTITY')) {
+        field.constraints = { ...field.constraints, unique: true };
+      } else {
+        cursor.group();
+        warnings.push(`${where}: generated column expression was not imported`);
+      }
+      if (cursor.isSymbol('(')) cursor.group();
+    } else {
+      skipExpression(cursor);
+    }
+  }
+
+  if (notNull) {
+    field.nullable = false;
+    field.constraints = { ...field.constraints, required: true };
+  } else if (!draft.primaryKey.includes(name)) {
+    field.nullable = true;
+  }
+}
+
+function readTableConstraint(cursor: SqlCursor, draft: SqlTableDraft, checks: { tokens: SqlToken[] }[], warnings: string[]) {
+  if (cursor.acceptWords('CONSTRAINT')) cursor.name();
+
+  if (cursor.acceptWords('PRIMARY', 'KEY')) {
+    draft.primaryKey = cursor.nameList();
+  } else if (cursor.acceptWords('UNIQUE')) {
+    if (!cursor.acceptWords('KEY')) cursor.acceptWords('INDEX');
+    if (!cursor.isSymbol('(')) cursor.name();
+    const columns = cursor.nameList();
+    if (columns.length === 1) {
+      const key = findColumn(draft.fields, columns[0]);
+      if (key) draft.fields[key].constraints = { ...draft.fields[key].constraints, unique: true };
+    } else if (columns.length > 1) {
+      warnings.push(`${draft.name}: composite UNIQUE (${columns.join(', ')}) was not imported`);
+    }
+  } else if (cursor.acceptWords('FOREIGN', 'KEY')) {
+    if (!cursor.isSymbol('(')) cursor.name();
+    const columns = cursor.nameList();
+    if (cursor.acceptWords('REFERENCES')) {
+      const reference = readReference(cursor);
+      if (reference) draft.foreignKeys.push({ columns, ...reference });
+    }
+  } else if (cursor.acceptWords('CHECK')) {
+    checks.push({ tokens: cursor.group() });
+  }
+  // KEY / INDEX / EXCLUDE and friends do not constrain the data
+}
+
+const TABLE_CONSTRAINT_WORDS = ['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE', 'PERIOD'];
+
+function importSqlDdl(sql: string, warnings: string[]): RelationalSchema {
+  const statements = splitTopLevel(tokenizeSql(sql), ';');
+  const drafts = new Map<string, SqlTableDraft>();
+  const enumTypes = new Map<string, string[]>();
+  const checks = new Map<string, { tokens: SqlToken[]; column?: string }[]>();
+  const findDraft = (name: string) => drafts.get(name) ?? [...drafts.values()].find(draft => draft.name.toLowerCase() === name.toLowerCase());
+
+  // Enum types first, since tables may be declared before them in the script
+  for (const statement of statements) {
+    const cursor = new SqlCursor(statement);
+    if (!cursor.acceptWords('CREATE', 'TYPE')) continue;
+    const name = cursor.qualifiedName();
+    if (name && cursor.acceptWords('AS', 'ENUM')) {
+      enumTypes.set(name.toLowerCase(), cursor.group().filter(token => token.kind === 'string').map(token => token.value));
+    }
+  }
+
+  for (const statement of statements) {
+    const cursor = new SqlCursor(statement);
+    if (!cursor.acceptWords('CREATE')) {
+      if (cursor.acceptWords('ALTER', 'TABLE')) {
+        cursor.acceptWords('IF', 'EXISTS');
+        cursor.acceptWords('ONLY');
+        const draft = findDraft(cursor.qualifiedName() ?? '');
+        if (!draft) continue;
+        for (const action of splitTopLevel(cursor.rest())) {
+          const actionCursor = new SqlCursor(action);
+          if (actionCursor.acceptWords('ADD')) readTableConstraint(actionCursor, draft, checks.get(draft.name)!, warnings);
+        }
+      } else if (cursor.acceptWords('COMMENT', 'ON')) {
+        applyComment(cursor, findDraft);
+      }
+      continue;
+    }
+
+    cursor.acceptWords('OR', 'REPLACE');
+    ['GLOBAL', 'LOCAL', 'TEMP', 'TEMPORARY', 'UNLOGGED'].forEach(word => cursor.acceptWords(word));
+
+    if (cursor.acceptWords('UNIQUE', 'INDEX')) {
+      cursor.acceptWords('IF', 'NOT', 'EXISTS');
+      if (!cursor.isWord('ON')) cursor.qualifiedName();
+      if (!cursor.acceptWords('ON')) continue;
+      const draft = findDraft(cursor.qualifiedName() ?? '');
+      const columns = cursor.nameList();
+      const key = draft && columns.length === 1 ? findColumn(draft.fields, columns[0]) : undefined;
+      if (draft && key) draft.fields[key].constraints = { ...draft.fields[key].constraints, unique: true };
+      continue;
+    }
+
+    if (!cursor.acceptWords('TABLE')) continue;
+    cursor.acceptWords('IF', 'NOT', 'EXISTS');
+    const name = cursor.qualifiedName();
+    if (!name) continue;
+
+    if (findDraft(name)) {
+      warnings.push(`Table ${name} is defined more than once; the last definition is used`);
+      drafts.delete(findDraft(name)!.name);
+    }
+    if (!cursor.isSymbol('(')) {
+      warnings.push(`${name}: CREATE TABLE ... AS SELECT was not imported`);
+      continue;
+    }
+
+    const draft: SqlTableDraft = { name, fields: {}, primaryKey: [], foreignKeys: [] };
+    const tableChecks: { tokens: SqlToken[]; column?: string }[] = [];
+    drafts.set(name, draft);
+    checks.set(name, tableChecks);
+
+    for (const element of splitTopLevel(cursor.group())) {
+      const elementCursor = new SqlCursor(element);
+      const first = element[0];
+      if (first.kind === 'word' && TABLE_CONSTRAINT_WORDS.includes(first.value.toUpperCase())) {
+        readTableConstraint(elementCursor, draft, tableChecks, warnings);
+      } else {
+        readColumn(elementCursor, draft, enumTypes, tableChecks, warnings);
+      }
+    }
+
+    // MySQL table options: COMMENT='...'
+    while (!cursor.done) {
+      if (cursor.acceptWords('COMMENT')) {
+        cursor.acceptSymbol('=');
+        const comment = cursor.next();
+        if (comment?.kind === 'string') draft.description = comment.value;
+      } else {
+        cursor.next();
+      }
+    }
+  }
+
+  const tables: RelationalSchema = {};
+  for (const draft of drafts.values()) {
+    for (const check of checks.get(draft.name) ?? []) {
+      applyCheck(draft.fields, check.tokens, draft.name, warnings, check.column);
+    }
+
+    if (Object.keys(draft.fields).length === 0) {
+      warnings.push(`${draft.name}: table has no columns and was skipped`);
+      continue;
+    }
+    const table: RelationalSchema[string] = { fields: draft.fields };
+    if (draft.description) table.description = draft.description;
+
+    const keys = draft.primaryKey.map(column => findColumn(draft.fields, column)).filter((key): key is string => !!key);
+    if (keys.length === 1) {
+      markPrimaryKey(table, keys[0]);
+    } else if (keys.length > 1) {
+      keys.forEach(key => {
+        draft.fields[key].nullable = false;
+        draft.fields[key].constraints = { ...draft.fields[key].constraints, required: true };
+      });
+      warnings.push(`${draft.name}: composite primary key (${keys.join(', ')}) imported as required columns`);
+    }
+    tables[draft.name] = table;
+  }
+
+  for (const draft of drafts.values()) {
+    for (const foreignKey of draft.foreignKeys) {
+      const target = findDraft(foreignKey.table);
+      const where = `${draft.name}.${foreignKey.columns.join(', ')}`;
+      if (foreignKey.columns.length !== 1) {
+        warnings.push(`${where}: composite foreign key to ${foreignKey.table} was not imported`);
+        continue;
+      }
+      const column = findColumn(draft.fields, foreignKey.columns[0]);
+      const targetField = target && (foreignKey.fields[0]
+        ? findColumn(target.fields, foreignKey.fields[0])
+        : tables[target.name]?.primaryKey);
+      if (!column || !target || !tables[target.name] || !targetField) {
+        warnings.push(`${where}: reference to ${foreignKey.table} was dropped because the table or column is not in the script`);
+        continue;
+      }
+      draft.fields[column].reference = { table: target.name, field: targetField };
+    }
+  }
+
+  return tables;
+}
+
+function applyComment(cursor: SqlCursor, findDraft: (name: string) => SqlTableDraft | undefined) {
+  const kind = cursor.next()?.value.toUpperCase();
+  const parts: string[] = [];
+  let part = cursor.name();
+  while (part !== undefined) {
+    parts.push(part);
+    part = cursor.acceptSymbol('.') ? cursor.name() : undefined;
+  }
+  if (!cursor.acceptWords('IS')) return;
+  const comment = cursor.next();
+  if (comment?.kind !== 'string') return;
+
+  if (kind === 'TABLE') {
+    const draft = findDraft(parts[parts.length - 1] ?? '');
+    if (draft) draft.description = comment.value;
+  } else if (kind === 'COLUMN' && parts.length >= 2) {
+    const draft = findDraft(parts[parts.length - 2]);
+    const key = draft && findColumn(draft.fields, parts[parts.length - 1]);
+    if (draft && key) draft.fields[key].description = comment.value;
+  }
+}
+
+// --- JSON Schema and OpenAPI ---------------------------------------------------
+
+interface JsonSchemaContext {
+  root: JsonObject;
+  // $ref -> table it was imported as
+  tables: Map<string, string>;
+  warnings: string[];
+}
+
+const MAX_NESTING = 4;
+
+function resolvePointer(root: JsonObject, ref: string): unknown {
+  if (!ref.startsWith('#')) return undefined;
+  return ref.slice(1).split('/').filter(Boolean).reduce<unknown>((node, segment) => {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    return isObject(node) ? node[key] : undefined;
+  }, root);
+}
+
+// allOf members are merged, which is how both formats express inheritance
+function mergeAllOf(node: JsonObject, context: JsonSchemaContext, depth = 0): JsonObject {
+  if (!Array.isArray(node.allOf) || depth > MAX_NESTING) return node;
+  const merged: JsonObject = { ...node, properties: { ...(node.properties as JsonObject) }, required: [...((node.required as string[]) ?? [])] };
+  delete merged.allOf;
+
+  for (const member of node.allOf) {
+    let part = isObject(member) ? member : {};
+    if (typeof part.$ref === 'string') part = (resolvePointer(context.root, part.$ref) as JsonObject) ?? {};
+    part = mergeAllOf(part, context, depth + 1);
+    Object.assign(merged.properties as JsonObject, part.properties);
+    (merged.required as string[]).push(...(Array.isArray(part.required) ? part.required : []));
+    for (const [key, value] of Object.entries(part)) {
+      if (!(key in merged)) merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+function isObjectSchema(node: unknown, context: JsonSchemaContext): boolean {
+  if (!isObject(node)) return false;
+  const merged = mergeAllOf(node, context);
+  return (merged.type === 'object' || merged.type === undefined) && isObject(merged.properties) && Object.keys(merged.properties).length > 0;
+}
+
+// Strips "null" from type arrays, anyOf/oneOf and OpenAPI's nullable flag
+function unwrapNullable(node: JsonObject): { node: JsonObject; nullable: boolean } {
+  let nullable = node.nullable === true;
+  let current = node;
+
+  if (Array.isArray(current.type)) {
+    const types = current.type.filter(type => type !== 'null');
+    nullable ||= types.length < current.type.length;
+    current = { ...current, type: types.length === 1 ? types[0] : types };
+  }
+
+  for (const key of ['anyOf', 'oneOf'] as const) {
+    const options = current[key];
+    if (!Array.isArray(options)) continue;
+    const rest = options.filter(option => !(isObject(option) && option.type === 'null'));
+    nullable ||= rest.length < options.length;
+    if (rest.length === 1 && isObject(rest[0])) {
+      const outer = { ...current };
+      delete outer[key];
+      const inner = unwrapNullable(rest[0]);
+      nullable ||= inner.nullable;
+      current = { ...inner.node, ...outer };
+    }
+  }
+
+  if (Array.isArray(current.enum) && current.enum.includes(null)) {
+    nullable = true;
+    current = { ...current, enum: current.enum.filter(value => value !== null) };
+  }
+  return { node: current, nullable };
+}
+
+const STRING_FORMATS: Record<string, FieldType> = {
+  email: 'email',
+  'idn-email': 'email',
+  uuid: 'uuid',
+  date: 'date',
+  'date-time': 'datetime',
+  phone: 'phone',
+  tel: 'phone'
+};
+
+function convertJsonProperty(
+  name: string,
+  input: JsonObject,
+  required: boolean,
+  context: JsonSchemaContext,
+  out: DatasetSchema,
+  where: string,
+  depth = 0
+) {
+  const { node: unwrapped, nullable } = unwrapNullable(input);
+  const node = mergeAllOf(unwrapped, context);
+
+  if (typeof node.$ref === 'string') {
+    const table = context.tables.get(node.$ref);
+    if (table) {
+      // Resolved to the target's primary key once every table is known
+      out[name] = { type: 'reference', reference: { table, field: '' } };
+      finishJsonField(out[name], node, required, nullable);
+      return;
+    }
+    const target = resolvePointer(context.root, node.$ref);
+    if (!isObject(target) || depth > MAX_NESTING) {
+      context.warnings.push(`${where}: unresolved $ref ${node.$ref} imported as string`);
+      out[name] = { type: 'string' };
+      finishJsonField(out[name], node, required, nullable);
+      return;
+    }
+    const overrides = { ...node };
+    delete overrides.$ref;
+    return convertJsonProperty(name, { ...target, ...overrides }, required, context, out, where, depth + 1);
+  }
+
+  // Nested objects are flattened into prefixed columns
+  if (isObjectSchema(node, context) && depth <= MAX_NESTING) {
+    const requiredKeys = new Set(Array.isArray(node.required) ? node.required : []);
+    for (const [child, definition] of Object.entries(node.properties as JsonObject)) {
+      if (!isObject(definition)) continue;
+      convertJsonProperty(`${name}_${child}`, definition, required && !nullable && requiredKeys.has(child), context, out, `${where}.${child}`, depth + 1);
+    }
+    return;
+  }
+
+  const field: SchemaField = { type: 'string' };
+  const constraints: FieldConstraints = {};
+  const type = Array.isArray(node.type) ? undefined : node.type;
+  const values = Array.isArray(node.enum) ? node.enum : node.const !== undefined ? [node.const] : undefined;
+
+  if (values) {
+    field.type = 'enum';
+    constraints.enum = values.filter(isSchemaValue);
+    if (constraints.enum.length < values.length) context.warnings.push(`${where}: non-scalar enum values were dropped`);
+  } else if (type === 'integer' || type === 'number') {
+    field.type = type;
+    const step = type === 'integer' ? 1 : 0;
+    // Draft 4 and OpenAPI 3.0 use booleans for exclusive bounds, later drafts numbers
+    if (typeof node.minimum === 'number') constraints.min = node.minimum + (node.exclusiveMinimum === true ? step : 0);
+    if (typeof node.exclusiveMinimum === 'number') constraints.min = node.exclusiveMinimum + step;
+    if (typeof node.maximum === 'number') constraints.max = node.maximum - (node.exclusiveMaximum === true ? step : 0);
+    if (typeof node.exclusiveMaximum === 'number') constraints.max = node.exclusiveMaximum - step;
+  } else if (type === 'boolean') {
+    field.type = 'boolean';
+  } else if (type === 'array' || type === 'object' || Array.isArray(node.type)) {
+    context.warnings.push(`${where}: ${Array.isArray(node.type) ? 'mixed-type' : type} values are imported as JSON text`);
+  } else {
+    const format = typeof node.format === 'string' ? node.format.toLowerCase() : '';
+    field.type = STRING_FORMATS[format] ?? 'string';
+    if (field.type === 'string' && typeof node.maxLength === 'number' && node.maxLength > 1000) field.type = 'text';
+  }
+
+  if (field.type !== 'enum' && field.type !== 'boolean') {
+    if (typeof node.minLength === 'number') constraints.minLength = node.minLength;
+    if (typeof node.maxLength === 'number') constraints.maxLength = node.maxLength;
+    if (typeof node.pattern === 'string') constraints.pattern = node.pattern;
+  }
+  if (Object.keys(constraints).length > 0) field.constraints = constraints;
+
+  out[name] = field;
+  finishJsonField(field, node, required, nullable);
+}
+
+function finishJsonField(field: SchemaField, node: JsonObject, required: boolean, nullable: boolean) {
+  const description = node.description ?? node.title;
+  if (typeof description === 'string') field.description = description;
+
+  const examples = Array.isArray(node.examples) ? node.examples : node.example !== undefined ? [node.example] : [];
+  if (examples.some(isSchemaValue)) field.examples = examples.filter(isSchemaValue);
+
+  if (required && !nullable) {
+    field.nullable = false;
+    field.constraints = { ...field.constraints, required: true };
+  } else {
+    field.nullable = true;
+  }
+}
+
+function jsonTable(node: JsonObject, context: JsonSchemaContext, where: string): RelationalSchema[string] {
+  const merged = mergeAllOf(node, context);
+  const required = new Set(Array.isArray(merged.required) ? merged.required : []);
+  const fields: DatasetSchema = {};
+  for (const [name, definition] of Object.entries(merged.properties as JsonObject)) {
+    if (isObject(definition)) convertJsonProperty(name, definition, required.has(name), context, fields, `${where}.${name}`);
+  }
+  const table: RelationalSchema[string] = { fields };
+  if (typeof merged.description === 'string') table.description = merged.description;
+  return table;
+}
+
+/**
+ * Object definitions become tables; a $ref to one becomes a foreign key to its
+ * primary key, which is picked the same way as for described schemas.
+ */
+function jsonTables(
+  definitions: { ref: string; name: string; node: JsonObject }[],
+  context: JsonSchemaContext
+): RelationalSchema {
+  const tables: RelationalSchema = {};
+  const objects = definitions.filter(definition => isObjectSchema(definition.node, context));
+  objects.forEach(definition => context.tables.set(definition.ref, definition.name));
+
+  for (const definition of objects) {
+    tables[definition.name] = jsonTable(definition.node, context, definition.name);
+  }
+
+  for (const table of Object.values(tables)) {
+    const key = guessPrimaryKey(table.fields);
+    if (key) markPrimaryKey(table, key);
+  }
+
+  for (const [name, table] of Object.entries(tables)) {
+    for (const [fieldName, field] of Object.entries(table.fields)) {
+      if (field.type !== 'reference' || !field.reference) continue;
+      const target = tables[field.reference.table];
+      const key = target?.primaryKey;
+      if (!key) {
+        context.warnings.push(`${name}.${fieldName}: ${field.reference.table} has no id field to reference, imported as string`);
+        delete field.reference;
+        field.type = 'string';
+        continue;
+      }
+      // Foreign keys keep the storage type of the key they point at
+      field.reference.field = key;
+      field.type = target.fields[key].type;
+    }
+  }
+
+  return tables;
+}
+
+function namedDefinitions(container: unknown, prefix: string) {
+  return isObject(container)
+    ? Object.entries(container)
+      .filter((entry): entry is [string, JsonObject] => isObject(entry[1]))
+      .map(([name, node]) => ({ ref: `${prefix}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`, name, node }))
+    : [];
+}
+
+function importJsonSchema(json: unknown, rootName: string, warnings: string[]): RelationalSchema {
+  if (!isObject(json)) throw new Error('JSON Schema must be an object');
+  const context: JsonSchemaContext = { root: json, tables: new Map(), warnings };
+
+  const definitions = [
+    ...namedDefinitions(json.$defs, '#/$defs'),
+    ...namedDefinitions(json.definitions, '#/definitions')
+  ];
+  const title = typeof json.title === 'string' ? tableName(json.title) : rootName;
+  const name = definitions.some(definition => definition.name === title) ? `${title}_root` : title;
+  if (isObjectSchema(json, context)) definitions.unshift({ ref: '#', name, node: json });
+
+  return jsonTables(definitions, context);
+}
+
+function importOpenApi(json: unknown, warnings: string[]): RelationalSchema {
+  if (!isObject(json)) throw new Error('OpenAPI document must be an object');
+  const context: JsonSchemaContext = { root: json, tables: new Map(), warnings };
+  const components = isObject(json.components) ? json.components.schemas : undefined;
+
+  const definitions = components
+    ? namedDefinitions(components, '#/components/schemas')
+    : namedDefinitions(json.definitions, '#/definitions');
+  if (definitions.length === 0) throw new Error('OpenAPI document has no components.schemas');
+  return jsonTables(definitions, context);
+}
+
+// --- Avro --------------------------------------------------------------------
+
+type AvroType = string | JsonObject | AvroType[];
+
+interface AvroContext {
+  named: Map<string, JsonObject>;
+  warnings: string[];
+}
+
+function registerAvroTypes(type: unknown, named: Map<string, JsonObject>, namespace = '') {
+  if (Array.isArray(type)) {
+    type.forEach(item => registerAvroTypes(item, named, namespace));
+    return;
+  }
+  if (!isObject(type)) return;
+
+  if (typeof type.name === 'string' && ['record', 'enum', 'fixed', 'error'].includes(String(type.type))) {
+    const space = typeof type.namespace === 'string' ? type.namespace : namespace;
+    const fullName = type.name.includes('.') || !space ? type.name : `${space}.${type.name}`;
+    named.set(fullName, type);
+    named.set(type.name.split('.').pop()!, type);
+    namespace = fullName.includes('.') ? fullName.slice(0, fullName.lastIndexOf('.')) : space;
+  }
+  if (Array.isArray(type.fields)) type.fields.forEach(field => isObject(field) && registerAvroTypes(field.type, named, namespace));
+  registerAvroTypes(type.items, named, namespace);
+  registerAvroTypes(type.values, named, namespace);
+  if (isObject(type.type) || Array.isArray(type.type)) registerAvroTypes(type.type, named, namespace);
+}
+
+const AVRO_PRIMITIVES: Record<string, FieldType> = {
+  boolean: 'boolean',
+  int: 'integer',
+  long: 'integer',
+  float: 'number',
+  double: 'number',
+  string: 'string',
+  bytes: 'string'
+};
+
+const AVRO_LOGICAL_TYPES: Record<string, FieldType> = {
+  date: 'date',
+  'timestamp-millis': 'datetime',
+  'timestamp-micros': 'datetime',
+  'local-timestamp-millis': 'datetime',
+  'local-timestamp-micros': 'datetime',
+  uuid: 'uuid',
+  decimal: 'number'
+};
+
+function convertAvroField(
+  name: string,
+  input: AvroType,
+  context: AvroContext,
+  out: DatasetSchema,
+  where: string,
+  nullable = false,
+  depth = 0
+) {
+  let type = input;
+
+  if (Array.isArray(type)) {
+    const options = type.filter(option => option !== 'null');
+    nullable ||= options.length < type.length;
+    if (options.length !== 1) {
+      context.warnings.push(`${where}: union of ${options.length} types imported as string`);
+      out[name] = { type: 'string' };
+      return finishAvroField(out[name], nullable);
+    }
+    type = options[0];
+  }
+
+  if (typeof type === 'string') {
+    const named = context.named.get(type);
+    if (named) type = named;
+  }
+
+  if (typeof type === 'string') {
+    out[name] = { type: AVRO_PRIMITIVES[type] ?? 'string' };
+    if (!AVRO_PRIMITIVES[type]) context.warnings.push(`${where}: unknown type ${type} imported as string`);
+    if (type === 'int') out[name].constraints = { min: -2147483648, max: 2147483647 };
+    return finishAvroField(out[name], nullable);
+  }
+
+  if (!isObject(type)) {
+    out[name] = { type: 'string' };
+    return finishAvroField(out[name], nullable);
+  }
+
+  const logical = typeof type.logicalType === 'string' ? AVRO_LOGICAL_TYPES[type.logicalType] : undefined;
+  if (type.logicalType === 'decimal' && typeof type.precision === 'number') {
+    out[name] = decimalField(type.precision, typeof type.scale === 'number' ? type.scale : 0);
+  } else if (logical) {
+    out[name] = { type: logical };
+  } else if (type.type === 'record' || type.type === 'error') {
+    // Nested records are embedded, so they are flattened into prefixed columns
+    if (depth > MAX_NESTING || !Array.isArray(type.fields)) {
+      context.warnings.push(`${where}: nested record imported as JSON text`);
+      out[name] = { type: 'string' };
+      return finishAvroField(out[name], nullable);
+    }
+    for (const field of type.fields) {
+      if (!isObject(field) || typeof field.name !== 'string') continue;
+      convertAvroField(`${name}_${field.name}`, field.type as AvroType, context, out, `${where}.${field.name}`, nullable, depth + 1);
+      if (typeof field.doc === 'string' && out[`${name}_${field.name}`]) out[`${name}_${field.name}`].description = field.doc;
+    }
+    return;
+  } else if (type.type === 'enum' && Array.isArray(type.symbols)) {
+    out[name] = { type: 'enum', constraints: { enum: type.symbols.filter(isSchemaValue) } };
+  } else if (type.type === 'array' || type.type === 'map') {
+    context.warnings.push(`${where}: Avro ${type.type} values are imported as JSON text`);
+    out[name] = { type: 'string' };
+  } else if (type.type === 'fixed') {
+    out[name] = { type: 'string' };
+  } else {
+    return convertAvroField(name, type.type as AvroType, context, out, where, nullable, depth + 1);
+  }
+
+  if (typeof type.doc === 'string') out[name].description = type.doc;
+  finishAvroField(out[name], nullable);
+}
+
+function finishAvroField(field: SchemaField, nullable: boolean) {
+  if (nullable) {
+    field.nullable = true;
+  } else {
+    field.nullable = false;
+    field.constraints = { ...field.constraints, required: true };
+  }
+}
+
+/**
+ * A single record, or an array of types where every record that is not embedded
+ * in another one becomes a table.
+ */
+function importAvro(json: unknown, warnings: string[]): RelationalSchema {
+  const named = new Map<string, JsonObject>();
+  registerAvroTypes(json, named);
+  const context: AvroContext = { named, warnings };
+
+  const roots = (Array.isArray(json) ? json : [json])
+    .map(item => (typeof item === 'string' ? named.get(item) : item))
+    .filter((item): item is JsonObject => isObject(item) && item.type === 'record' && Array.isArray(item.fields));
+  if (roots.length === 0) throw new Error('Avro schema must be a record or an array containing records');
+
+  const embedded = new Set<JsonObject>();
+  const collectEmbedded = (type: unknown) => {
+    if (Array.isArray(type)) return type.forEach(collectEmbedded);
+    const resolved = typeof type === 'string' ? named.get(type) : type;
+    if (!isObject(resolved) || embedded.has(resolved)) return;
+    if (resolved.type === 'record') embedded.add(resolved);
+    if (Array.isArray(resolved.fields)) resolved.fields.forEach(field => isObject(field) && collectEmbedded(field.type));
+    if (isObject(type)) {
+      collectEmbedded(type.items);
+      collectEmbedded(type.values);
+    }
+  };
+  roots.forEach(root => (root.fields as unknown[]).forEach(field => isObject(field) && collectEmbedded(field.type)));
+
+  const tables: RelationalSchema = {};
+  for (const root of roots.filter(root => roots.length === 1 || !embedded.has(root))) {
+    const name = String(root.name).split('.').pop()!;
+    const fields: DatasetSchema = {};
+    for (const field of root.fields as unknown[]) {
+      if (!isObject(field) || typeof field.name !== 'string') continue;
+      convertAvroField(field.name, field.type as AvroType, context, fields, `${name}.${field.name}`);
+      if (typeof field.doc === 'string' && fields[field.name]) fields[field.name].description = field.doc;
+    }
+
+    const table: RelationalSchema[string] = { fields };
+    if (typeof root.doc === 'string') table.description = root.doc;
+    const key = guessPrimaryKey(fields);
+    if (key) markPrimaryKey(table, key);
+    tables[name] = table;
+  }
+  return tables;
+}
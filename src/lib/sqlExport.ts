@@ -0,0 +1,329 @@
+/**
+ * SQL export
+ * Emits CREATE TABLE statements built from the dataset schema plus batched INSERT
+ * (or PostgreSQL COPY) statements, for seeding test databases. Identifiers are
+ * quoted and literals escaped per dialect.
+ */
+
+import { orderEntities, type DatasetSchema, type RelationalSchema, type SchemaField } from './schema';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite' | 'mssql';
+
+export const SQL_DIALECTS: { id: SqlDialect; label: string }[] = [
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'sqlite', label: 'SQLite' },
+  { id: 'mssql', label: 'SQL Server' }
+];
+
+type Row = Record<string, unknown>;
+
+export interface SqlTable {
+  name: string;
+  schema: DatasetSchema;
+  rows: Row[];
+  primaryKey?: string;
+}
+
+export interface SqlExportOptions {
+  dialect: SqlDialect;
+  // Rows per INSERT statement, capped by what the dialect accepts
+  batchSize?: number;
+  // PostgreSQL only: load rows with COPY ... FROM stdin instead of INSERT
+  useCopy?: boolean;
+  dropExisting?: boolean;
+}
+
+type ColumnKind = 'integer' | 'number' | 'boolean' | 'date' | 'datetime' | 'uuid' | 'text' | 'string';
+
+const DEFAULT_BATCH_SIZE = 500;
+
+// SQL Server rejects more than 1000 rows in one VALUES list; SQLite's default compound limit is 500
+const MAX_BATCH_SIZE: Record<SqlDialect, number> = {
+  postgresql: 5000,
+  mysql: 5000,
+  sqlite: 500,
+  mssql: 1000
+};
+
+const DEFAULT_VARCHAR_LENGTH = 255;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function quoteIdentifier(dialect: SqlDialect, name: string): string {
+  switch (dialect) {
+    case 'mysql':
+      return `\`${name.replace(/`/g, '``')}\``;
+    case 'mssql':
+      return `[${name.replace(/]/g, ']]')}]`;
+    default:
+      return `"${name.replace(/"/g, '""')}"`;
+  }
+}
+
+const isMissing = (value: unknown) => value === null || value === undefined || value === '';
+
+function columnKind(field: SchemaField | undefined, values: unknown[], target?: SchemaField): ColumnKind {
+  const type = field?.type === 'reference' ? target?.type : field?.type;
+  switch (type) {
+    case 'integer':
+    case 'number':
+    case 'boolean':
+    case 'date':
+    case 'datetime':
+    case 'text':
+      return type;
+    case 'uuid':
+      // Typed UUID columns reject anything else, so malformed values keep the column textual
+      return values.every(value => isMissing(value) || UUID_PATTERN.test(String(value))) ? 'uuid' : 'string';
+    case undefined:
+    case 'reference': {
+      const present = values.filter(value => !isMissing(value));
+      if (present.length > 0 && present.every(value => typeof value === 'number' && Number.isInteger(value))) return 'integer';
+      if (present.length > 0 && present.every(value => typeof value === 'number')) return 'number';
+      return 'string';
+    }
+    default:
+      return 'string';
+  }
+}
+
+function varcharLength(field: SchemaField | undefined, values: unknown[]): number {
+  const longest = values.reduce<number>((max, value) => (isMissing(value) ? max : Math.max(max, String(value).length)), 0);
+  const declared = field?.constraints?.maxLength ?? DEFAULT_VARCHAR_LENGTH;
+  return Math.max(declared, longest);
+}
+
+function columnType(dialect: SqlDialect, kind: ColumnKind, length: number): string {
+  switch (kind) {
+    case 'integer':
+      return dialect === 'sqlite' ? 'INTEGER' : 'BIGINT';
+    case 'number':
+      return { postgresql: 'DOUBLE PRECISION', mysql: 'DOUBLE', sqlite: 'REAL', mssql: 'FLOAT' }[dialect];
+    case 'boolean':
+      return { postgresql: 'BOOLEAN', mysql: 'BOOLEAN', sqlite: 'INTEGER', mssql: 'BIT' }[dialect];
+    case 'date':
+      return dialect === 'sqlite' ? 'TEXT' : 'DATE';
+    case 'datetime':
+      return { postgresql: 'TIMESTAMP', mysql: 'DATETIME(3)', sqlite: 'TEXT', mssql: 'DATETIME2' }[dialect];
+    case 'uuid':
+      return { postgresql: 'UUID', mysql: 'CHAR(36)', sqlite: 'TEXT', mssql: 'UNIQUEIDENTIFIER' }[dialect];
+    case 'text':
+      return dialect === 'mssql' ? 'NVARCHAR(MAX)' : 'TEXT';
+    default:
+      if (dialect === 'sqlite') return 'TEXT';
+      if (dialect === 'mssql') return length > 4000 ? 'NVARCHAR(MAX)' : `NVARCHAR(${length})`;
+      return dialect === 'mysql' && length > 16383 ? 'TEXT' : `VARCHAR(${length})`;
+  }
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Dates and timestamps are written in UTC, in the one format every dialect parses
+function formatTemporal(kind: 'date' | 'datetime', value: unknown): string | null {
+  const time = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  if (!Number.isFinite(time)) return null;
+  const date = new Date(time);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (kind === 'date') return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}.${pad(date.getUTCMilliseconds(), 3)}`;
+}
+
+/**
+ * Value in the column's storage form: a number, boolean or string, or null when
+ * it is missing or does not fit the column.
+ */
+function columnValue(kind: ColumnKind, value: unknown): string | number | boolean | null {
+  if (isMissing(value)) return null;
+
+  switch (kind) {
+    case 'integer':
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) return null;
+      return kind === 'integer' ? Math.trunc(number) : number;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = String(value).toLowerCase();
+      return text === 'true' || text === '1' ? true : text === 'false' || text === '0' ? false : null;
+    }
+    case 'date':
+    case 'datetime':
+      return formatTemporal(kind, value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+export function sqlLiteral(dialect: SqlDialect, value: string | number | boolean | null): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') {
+    return dialect === 'postgresql' || dialect === 'mysql' ? (value ? 'TRUE' : 'FALSE') : value ? '1' : '0';
+  }
+
+  let escaped = value.replace(/'/g, "''");
+  // MySQL treats backslashes as escapes inside string literals unless NO_BACKSLASH_ESCAPES is set
+  if (dialect === 'mysql') escaped = escaped.replace(/\\/g, '\\\\');
+  return dialect === 'mssql' ? `N'${escaped}'` : `'${escaped}'`;
+}
+
+// COPY text format: tabs, newlines and backslashes escaped, \N for null
+const copyValue = (value: string | number | boolean | null): string => {
+  if (value === null) return '\\N';
+  if (typeof value === 'boolean') return value ? 't' : 'f';
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+};
+
+interface PreparedColumn {
+  name: string;
+  kind: ColumnKind;
+  type: string;
+  notNull: boolean;
+  unique: boolean;
+  check?: string;
+  reference?: { table: string; field: string };
+}
+
+function prepareColumns(table: SqlTable, dialect: SqlDialect, tables: Map<string, SqlTable>): PreparedColumn[] {
+  const names = Array.from(new Set([...Object.keys(table.schema), ...table.rows.flatMap(row => Object.keys(row))]));
+
+  return names.map(name => {
+    const field = table.schema[name];
+    const values = table.rows.map(row => row[name]);
+    const reference = field?.reference && tables.has(field.reference.table) ? field.reference : undefined;
+    const target = reference ? tables.get(reference.table)!.schema[reference.field] : undefined;
+    const kind = columnKind(field, values, target);
+    const quoted = quoteIdentifier(dialect, name);
+    const allowed = field?.type === 'enum' ? field.constraints?.enum : undefined;
+
+    return {
+      name,
+      kind,
+      type: columnType(dialect, kind, varcharLength(field, values)),
+      notNull: name === table.primaryKey || (!!field?.constraints?.required && !field.nullable),
+      unique: !!field?.constraints?.unique && name !== table.primaryKey,
+      check: allowed?.length
+        ? `CHECK (${quoted} IN (${allowed.map(value => sqlLiteral(dialect, columnValue(kind, value))).join(', ')}))`
+        : undefined,
+      reference: reference && { table: reference.table, field: reference.field }
+    };
+  });
+}
+
+function createTable(table: SqlTable, columns: PreparedColumn[], dialect: SqlDialect): string {
+  const quote = (name: string) => quoteIdentifier(dialect, name);
+  const lines = columns.map(column => [
+    quote(column.name),
+    column.type,
+    column.notNull ? 'NOT NULL' : '',
+    column.unique ? 'UNIQUE' : '',
+    column.check ?? ''
+  ].filter(Boolean).join(' '));
+
+  if (table.primaryKey && columns.some(column => column.name === table.primaryKey)) {
+    lines.push(`PRIMARY KEY (${quote(table.primaryKey)})`);
+  }
+  // SQLite cannot add constraints later; it does not enforce them during the load by default either
+  if (dialect === 'sqlite') {
+    columns.filter(column => column.reference).forEach(column => {
+      lines.push(`FOREIGN KEY (${quote(column.name)}) REFERENCES ${quote(column.reference!.table)} (${quote(column.reference!.field)})`);
+    });
+  }
+
+  return `CREATE TABLE ${quote(table.name)} (\n  ${lines.join(',\n  ')}\n);`;
+}
+
+function insertRows(table: SqlTable, columns: PreparedColumn[], options: SqlExportOptions): string[] {
+  const { dialect } = options;
+  const quote = (name: string) => quoteIdentifier(dialect, name);
+  const columnList = columns.map(column => quote(column.name)).join(', ');
+  const rows = table.rows.map(row => columns.map(column => columnValue(column.kind, row[column.name])));
+  if (rows.length === 0) return [];
+
+  if (options.useCopy && dialect === 'postgresql') {
+    return [
+      `COPY ${quote(table.name)} (${columnList}) FROM stdin;\n${rows.map(values => values.map(copyValue).join('\t')).join('\n')}\n\\.`
+    ];
+  }
+
+  const batchSize = Math.max(1, Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, MAX_BATCH_SIZE[dialect]));
+  const statements: string[] = [];
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const values = rows
+      .slice(start, start + batchSize)
+      .map(values => `(${values.map(value => sqlLiteral(dialect, value)).join(', ')})`);
+    statements.push(`INSERT INTO ${quote(table.name)} (${columnList}) VALUES\n  ${values.join(',\n  ')};`);
+  }
+  return statements;
+}
+
+const TRANSACTION: Record<SqlDialect, [string, string]> = {
+  postgresql: ['BEGIN;', 'COMMIT;'],
+  mysql: ['START TRANSACTION;', 'COMMIT;'],
+  sqlite: ['BEGIN TRANSACTION;', 'COMMIT;'],
+  mssql: ['BEGIN TRANSACTION;', 'COMMIT TRANSACTION;']
+};
+
+/**
+ * Script that creates and fills every table. Tables should be ordered parents
+ * first; foreign keys are added after the data is loaded so row order (including
+ * self-references) never matters.
+ */
+export function exportSql(tables: SqlTable[], options: SqlExportOptions): string {
+  const { dialect } = options;
+  const quote = (name: string) => quoteIdentifier(dialect, name);
+  const byName = new Map(tables.map(table => [table.name, table]));
+  const prepared = tables.map(table => ({ table, columns: prepareColumns(table, dialect, byName) }));
+  const [begin, commit] = TRANSACTION[dialect];
+
+  const sections: string[] = [`-- Generated by DataGenesis for ${SQL_DIALECTS.find(item => item.id === dialect)!.label}`, begin];
+
+  if (options.dropExisting) {
+    [...tables].reverse().forEach(table => {
+      sections.push(dialect === 'mssql'
+        ? `IF OBJECT_ID(N'${table.name.replace(/'/g, "''")}', N'U') IS NOT NULL DROP TABLE ${quote(table.name)};`
+        : `DROP TABLE IF EXISTS ${quote(table.name)};`);
+    });
+  }
+
+  prepared.forEach(({ table, columns }) => sections.push(createTable(table, columns, dialect)));
+  prepared.forEach(({ table, columns }) => sections.push(...insertRows(table, columns, options)));
+
+  if (dialect !== 'sqlite') {
+    prepared.forEach(({ table, columns }) => {
+      columns.filter(column => column.reference).forEach(column => {
+        const constraint = quote(`fk_${table.name}_${column.name}`);
+        sections.push(
+          `ALTER TABLE ${quote(table.name)} ADD CONSTRAINT ${constraint} FOREIGN KEY (${quote(column.name)}) ` +
+          `REFERENCES ${quote(column.reference!.table)} (${quote(column.reference!.field)});`
+        );
+      });
+    });
+  }
+
+  sections.push(commit);
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Single-table datasets have no declared key; an "id" column is treated as one
+export const singleSqlTable = (name: string, schema: DatasetSchema, rows: Row[]): SqlTable => ({
+  name,
+  schema,
+  rows,
+  primaryKey: 'id' in schema && schema.id.constraints?.unique ? 'id' : undefined
+});
+
+export function relationalSqlTables(tables: Record<string, Row[]>, schema: RelationalSchema): SqlTable[] {
+  return orderEntities(schema).map(name => ({
+    name,
+    schema: schema[name].fields,
+    rows: tables[name] || [],
+    primaryKey: schema[name].primaryKey
+  }));
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { DatasetSchema } from './schema';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -81,22 +82,31 @@ export interface Dataset {
   file_size: number;
   rows_count: number;
   columns_count: number;
-  schema: any;
+  schema: DatasetSchema;
   quality_score: number;
   privacy_score: number;
   bias_score: number;
+  // Versions are immutable and numbered from 1 within their project
+  version: number;
+  parent_dataset_id?: string | null;
+  source: 'generation' | 'edit' | 'rollback';
+  notes?: string | null;
   created_at: string;
 }
 
 export interface GenerationJob {
   id: string;
   project_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   config: any;
+  // Storage paths of completed chunks per part (table), for resuming
+  checkpoint?: Record<string, { chunks: number; rows: number; files: string[] }>;
   result_dataset_id?: string;
-  error_message?: string;
+  error_message?: string | null;
   started_at?: string;
-  completed_at?: string;
+  completed_at?: string | null;
+  // Written while a client is running the job; a stale value means it was interrupted
+  heartbeat_at?: string | null;
   created_at: string;
 }
\ No newline at end of file
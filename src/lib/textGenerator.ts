@@ -0,0 +1,288 @@
+/**
+ * Labelled text corpus generation
+ * Plans every document's labels and target length up front (so class balance and
+ * the length distribution are exact and reproducible), then asks the configured
+ * LLM to write the documents in small batches.
+ */
+
+import { SeededRandom } from './localGenerator';
+import type { LLMClient } from './llmClient';
+import type { DatasetSchema } from './schema';
+
+export type LengthDistribution = 'fixed' | 'uniform' | 'normal';
+
+export interface TextLabelSet {
+  // Output column, e.g. "sentiment" or "intent"
+  name: string;
+  labels: string[];
+  // Relative share of each label; omitted or empty means balanced classes
+  weights?: number[];
+}
+
+export interface TextCorpusConfig {
+  // What each document is, e.g. "customer support ticket"
+  documentType: string;
+  instructions?: string;
+  documentCount: number;
+  length: {
+    distribution: LengthDistribution;
+    // Word counts; "fixed" uses min
+    min: number;
+    max: number;
+  };
+  labelSets: TextLabelSet[];
+  batchSize?: number;
+  seed?: string;
+}
+
+export type TextRecord = Record<string, string | number>;
+
+export interface TextCorpusProgress {
+  documentsGenerated: number;
+  totalDocuments: number;
+  progress: number;
+}
+
+export interface TextCorpusPreset {
+  id: string;
+  label: string;
+  config: Pick<TextCorpusConfig, 'documentType' | 'instructions' | 'length' | 'labelSets'>;
+}
+
+export const TEXT_CORPUS_PRESETS: TextCorpusPreset[] = [
+  {
+    id: 'support_tickets',
+    label: 'Support Tickets',
+    config: {
+      documentType: 'customer support ticket sent to a software company',
+      length: { distribution: 'normal', min: 30, max: 150 },
+      labelSets: [
+        { name: 'intent', labels: ['billing', 'bug_report', 'feature_request', 'account_access', 'cancellation'] },
+        { name: 'sentiment', labels: ['negative', 'neutral', 'positive'], weights: [5, 4, 1] }
+      ]
+    }
+  },
+  {
+    id: 'clinical_notes',
+    label: 'Clinical Notes',
+    config: {
+      documentType: 'de-identified clinical progress note written by a physician',
+      instructions: 'Use realistic medical terminology and abbreviations. Never include names, dates of birth or record numbers.',
+      length: { distribution: 'uniform', min: 80, max: 250 },
+      labelSets: [
+        { name: 'category', labels: ['cardiology', 'endocrinology', 'pulmonology', 'neurology', 'orthopedics'] }
+      ]
+    }
+  },
+  {
+    id: 'product_reviews',
+    label: 'Product Reviews',
+    config: {
+      documentType: 'online product review for a consumer electronics store',
+      length: { distribution: 'normal', min: 15, max: 120 },
+      labelSets: [
+        { name: 'sentiment', labels: ['negative', 'neutral', 'positive'], weights: [1, 1, 2] },
+        { name: 'category', labels: ['audio', 'phones', 'laptops', 'wearables'] }
+      ]
+    }
+  }
+];
+
+export const DEFAULT_TEXT_CORPUS_CONFIG: TextCorpusConfig = {
+  ...TEXT_CORPUS_PRESETS[0].config,
+  documentCount: 100,
+  seed: 'datagenesis'
+};
+
+const DEFAULT_BATCH_SIZE = 10;
+
+// Batches that come back short are retried this many times before giving up
+const MAX_BATCH_ATTEMPTS = 3;
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const shuffle = <T>(items: T[], random: SeededRandom): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = random.int(0, i);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+export function validateTextCorpusConfig(config: TextCorpusConfig): string[] {
+  const errors: string[] = [];
+  const names = config.labelSets.map(set => set.name.trim());
+
+  if (!config.documentType.trim()) {
+    errors.push('Describe the kind of document to generate');
+  }
+  if (!Number.isInteger(config.documentCount) || config.documentCount < 1) {
+    errors.push('Document count must be a positive whole number');
+  }
+  if (!(config.length.min >= 1) || !(config.length.max >= config.length.min)) {
+    errors.push('Length must satisfy 1 <= min <= max words');
+  }
+  if (names.some(name => !name)) {
+    errors.push('Every label set needs a name');
+  }
+  if (new Set(names).size !== names.length || names.some(name => name === 'id' || name === 'text' || name === 'word_count')) {
+    errors.push('Label set names must be distinct and not id, text or word_count');
+  }
+  for (const set of config.labelSets) {
+    if (set.labels.length === 0) {
+      errors.push(`Label set "${set.name}" has no labels`);
+    } else if (set.weights?.length && (set.weights.length !== set.labels.length || set.weights.some(weight => !(weight >= 0)) || set.weights.every(weight => weight === 0))) {
+      errors.push(`Weights for "${set.name}" must be one non-negative number per label`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Splits `count` documents across labels in proportion to their weights, using
+ * largest remainders so the totals always add up exactly.
+ */
+export function allocateLabels(set: TextLabelSet, count: number): string[] {
+  const weights = set.weights?.length ? set.weights : set.labels.map(() => 1);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => (weight / total) * count);
+  const counts = exact.map(Math.floor);
+
+  const remaining = count - counts.reduce((sum, value) => sum + value, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, remaining)
+    .forEach(({ index }) => counts[index]++);
+
+  return set.labels.flatMap((label, index) => Array<string>(counts[index]).fill(label));
+}
+
+export class TextCorpusGenerator {
+  constructor(private client: LLMClient, private config: TextCorpusConfig) {
+    const errors = validateTextCorpusConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid text corpus settings: ${errors.join('; ')}`);
+    }
+  }
+
+  schema(): DatasetSchema {
+    return {
+      id: { type: 'integer', constraints: { required: true, unique: true, min: 1 } },
+      text: { type: 'text', constraints: { required: true } },
+      ...Object.fromEntries(this.config.labelSets.map(set => [
+        set.name,
+        { type: 'enum' as const, constraints: { required: true, enum: set.labels } }
+      ])),
+      word_count: { type: 'integer', constraints: { min: 0 } }
+    };
+  }
+
+  /**
+   * Labels and target length for every document, shuffled so batches mix classes.
+   */
+  plan(): { labels: Record<string, string>; targetWords: number }[] {
+    const { documentCount, labelSets } = this.config;
+    const random = new SeededRandom(this.config.seed || 'datagenesis');
+    const columns = labelSets.map(set => shuffle(allocateLabels(set, documentCount), random));
+
+    return Array.from({ length: documentCount }, (_, index) => ({
+      labels: Object.fromEntries(labelSets.map((set, setIndex) => [set.name, columns[setIndex][index]])),
+      targetWords: this.targetLength(random)
+    }));
+  }
+
+  async generate(
+    onProgress?: (progress: TextCorpusProgress) => void,
+    signal?: AbortSignal
+  ): Promise<TextRecord[]> {
+    const plan = this.plan();
+    const batchSize = Math.max(1, this.config.batchSize || DEFAULT_BATCH_SIZE);
+    const records: TextRecord[] = [];
+
+    for (let start = 0; start < plan.length; start += batchSize) {
+      if (signal?.aborted) throw new Error('Text generation cancelled');
+
+      const batch = plan.slice(start, start + batchSize);
+      const texts = await this.writeBatch(batch);
+
+      batch.forEach((document, index) => {
+        records.push({
+          id: start + index + 1,
+          text: texts[index],
+          ...document.labels,
+          word_count: wordCount(texts[index])
+        });
+      });
+
+      onProgress?.({
+        documentsGenerated: records.length,
+        totalDocuments: plan.length,
+        progress: Math.round((records.length / plan.length) * 100)
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * Texts are matched to their specification by the index the model echoes back,
+   * so a reordered or partial reply cannot attach a text to the wrong labels;
+   * later attempts only ask for the documents still missing.
+   */
+  private async writeBatch(batch: { labels: Record<string, string>; targetWords: number }[]): Promise<string[]> {
+    const { documentType, instructions } = this.config;
+    const specs = batch.map((document, index) => ({ index: index + 1, ...document.labels, words: document.targetWords }));
+    const texts: (string | undefined)[] = new Array(batch.length).fill(undefined);
+
+    let lastError: Error | null = null;
+    for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+      const missing = specs.filter(spec => texts[spec.index - 1] === undefined);
+      const prompt = `Write ${missing.length} distinct examples of a ${documentType}.
+${instructions ? `\n${instructions}\n` : ''}
+Each example must match its specification exactly: the labels describe its content and "words" is the target length in words (stay within 15%).
+Vary the writing style, vocabulary, names and details between examples. Do not mention the labels themselves.
+
+Specifications:
+${JSON.stringify(missing, null, 2)}
+
+Return only a JSON array of ${missing.length} objects, one per specification, each shaped {"index": number, "text": string} with the index of the specification it was written for.`;
+
+      try {
+        const reply = await this.client.completeJSON<{ index?: number; text?: unknown }[]>(prompt, { temperature: 0.9 });
+        (Array.isArray(reply) ? reply : []).forEach(item => {
+          const index = Number(item?.index);
+          const text = typeof item?.text === 'string' ? item.text.trim() : '';
+          if (text && missing.some(spec => spec.index === index) && texts[index - 1] === undefined) {
+            texts[index - 1] = text;
+          }
+        });
+        const written = texts.filter(text => text !== undefined).length;
+        if (written === batch.length) return texts as string[];
+        lastError = new Error(`${this.client.label} returned ${written} of ${batch.length} documents`);
+      } catch (error) {
+        lastError = error as Error;
+      }
+    }
+
+    throw lastError ?? new Error('Text generation failed');
+  }
+
+  private targetLength(random: SeededRandom): number {
+    const { distribution, min, max } = this.config.length;
+    if (distribution === 'fixed' || min === max) return min;
+    if (distribution === 'uniform') return random.int(min, max);
+
+    // Normal centred on the midpoint with ±3σ spanning the range, clamped to it
+    const u = 1 - random.next();
+    const v = random.next();
+    const gaussian = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    const value = Math.round((min + max) / 2 + gaussian * ((max - min) / 6));
+    return Math.min(max, Math.max(min, value));
+  }
+}
+
+export function toJSONL(records: Record<string, unknown>[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n');
+}
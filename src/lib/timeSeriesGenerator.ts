@@ -0,0 +1,275 @@
+/**
+ * Time-series generation
+ * Builds regular series per entity from a baseline, linear trend, seasonal cycles,
+ * gaussian noise and injected anomalies. Every point is seeded by entity and step,
+ * so a preview of a few points matches the full dataset exactly.
+ */
+
+import { SeededRandom } from './localGenerator';
+import type { DatasetSchema } from './schema';
+
+export type TimeSeriesFrequency = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+export interface SeasonalComponent {
+  // Length of one cycle, in steps of the series frequency (e.g. 24 for a daily cycle in hourly data)
+  period: number;
+  amplitude: number;
+}
+
+export interface TimeSeriesConfig {
+  timestampColumn: string;
+  valueColumn: string;
+  entityColumn: string;
+  // One series per entity; an empty list produces a single series without an entity column
+  entityIds: string[];
+  frequency: TimeSeriesFrequency;
+  start: string;
+  end: string;
+  baseline: number;
+  // Change of the baseline per step
+  trend: number;
+  seasonality: SeasonalComponent[];
+  // Standard deviation of the gaussian noise
+  noise: number;
+  // Share of points turned into spikes or drops, 0-1
+  anomalyRate: number;
+  anomalyMagnitude: number;
+  decimals?: number;
+  seed?: string;
+}
+
+export type TimeSeriesRow = Record<string, string | number | boolean>;
+
+export interface TimeSeriesResult {
+  rows: TimeSeriesRow[];
+  schema: DatasetSchema;
+  anomalies: number;
+}
+
+export const TIME_SERIES_FREQUENCIES: TimeSeriesFrequency[] = ['minute', 'hour', 'day', 'week', 'month'];
+
+// Keeps a mistyped date range from freezing the browser
+export const MAX_TIME_SERIES_ROWS = 500_000;
+
+export const DEFAULT_TIME_SERIES_CONFIG: TimeSeriesConfig = {
+  timestampColumn: 'timestamp',
+  valueColumn: 'reading',
+  entityColumn: 'device_id',
+  entityIds: ['sensor-01', 'sensor-02', 'sensor-03'],
+  frequency: 'hour',
+  start: '2024-01-01',
+  end: '2024-01-14',
+  baseline: 20,
+  trend: 0.01,
+  seasonality: [
+    { period: 24, amplitude: 4 },
+    { period: 168, amplitude: 1.5 }
+  ],
+  noise: 0.8,
+  anomalyRate: 0.01,
+  anomalyMagnitude: 12,
+  decimals: 2,
+  seed: 'datagenesis'
+};
+
+const STEP_MS: Record<Exclude<TimeSeriesFrequency, 'month'>, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 604_800_000
+};
+
+const parseBound = (value: string, label: string): number => {
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid ${label} date "${value}"`);
+  }
+  return parsed;
+};
+
+const timestampAt = (start: number, frequency: TimeSeriesFrequency, step: number): number => {
+  if (frequency !== 'month') return start + step * STEP_MS[frequency];
+  const date = new Date(start);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + step;
+  // Month-end starts stay on the last day instead of spilling into the next month
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Date.UTC(
+    year, month, Math.min(date.getUTCDate(), lastDay),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()
+  );
+};
+
+/**
+ * Number of timestamps between start and end (both inclusive) at the configured frequency.
+ */
+export function countTimeSteps(config: Pick<TimeSeriesConfig, 'start' | 'end' | 'frequency'>): number {
+  const start = parseBound(config.start, 'start');
+  const end = parseBound(config.end, 'end');
+  if (end < start) {
+    throw new Error('The end date must not be before the start date');
+  }
+
+  if (config.frequency !== 'month') {
+    return Math.floor((end - start) / STEP_MS[config.frequency]) + 1;
+  }
+
+  const from = new Date(start);
+  const to = new Date(end);
+  let steps = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+  if (timestampAt(start, 'month', steps) > end) steps--;
+  return steps + 1;
+}
+
+export function validateTimeSeriesConfig(config: TimeSeriesConfig): string[] {
+  const errors: string[] = [];
+  const columns = [
+    config.timestampColumn,
+    config.valueColumn,
+    ...(config.entityIds.length > 0 ? [config.entityColumn] : []),
+    'is_anomaly'
+  ];
+
+  if (columns.some(column => !column.trim())) {
+    errors.push('Column names must not be empty');
+  } else if (new Set(columns).size !== columns.length) {
+    errors.push('Column names must be distinct');
+  }
+
+  try {
+    const rows = countTimeSteps(config) * Math.max(1, config.entityIds.length);
+    if (rows > MAX_TIME_SERIES_ROWS) {
+      errors.push(`The range produces ${rows.toLocaleString()} rows; the limit is ${MAX_TIME_SERIES_ROWS.toLocaleString()}`);
+    }
+  } catch (error) {
+    errors.push((error as Error).message);
+  }
+
+  if (new Set(config.entityIds).size !== config.entityIds.length) {
+    errors.push('Entity IDs must be unique');
+  }
+  if (config.seasonality.some(component => !(component.period >= 2))) {
+    errors.push('Seasonal periods must span at least 2 steps');
+  }
+  if (!(config.noise >= 0)) {
+    errors.push('Noise must be zero or positive');
+  }
+  if (!(config.anomalyRate >= 0 && config.anomalyRate <= 1)) {
+    errors.push('Anomaly rate must be between 0 and 1');
+  }
+
+  return errors;
+}
+
+export class TimeSeriesGenerator {
+  private seed: string;
+  private start: number;
+  private steps: number;
+  private series: { id: string | null; level: number; phase: number }[];
+
+  constructor(private config: TimeSeriesConfig) {
+    const errors = validateTimeSeriesConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid time-series settings: ${errors.join('; ')}`);
+    }
+
+    this.seed = config.seed || 'datagenesis';
+    this.start = parseBound(config.start, 'start');
+    this.steps = countTimeSteps(config);
+
+    // Entities share the shape of the series but get their own level and seasonal phase
+    const ids = config.entityIds.length > 0 ? config.entityIds : [null];
+    this.series = ids.map(id => {
+      const random = new SeededRandom(`${this.seed}:${id ?? ''}`);
+      return {
+        id,
+        level: ids.length > 1 ? random.float(-0.1, 0.1, 4) * Math.abs(config.baseline) : 0,
+        phase: ids.length > 1 ? random.next() * 2 * Math.PI : 0
+      };
+    });
+  }
+
+  get totalSteps(): number {
+    return this.steps;
+  }
+
+  get totalRows(): number {
+    return this.steps * this.series.length;
+  }
+
+  schema(): DatasetSchema {
+    const { timestampColumn, valueColumn, entityColumn, entityIds } = this.config;
+    return {
+      [timestampColumn]: { type: 'datetime', constraints: { required: true } },
+      ...(entityIds.length > 0 && {
+        [entityColumn]: { type: 'enum', constraints: { required: true, enum: entityIds } }
+      }),
+      [valueColumn]: { type: 'number', constraints: { required: true } },
+      is_anomaly: { type: 'boolean' }
+    };
+  }
+
+  generate(): TimeSeriesResult {
+    const rows: TimeSeriesRow[] = [];
+    let anomalies = 0;
+
+    for (const series of this.series) {
+      for (let step = 0; step < this.steps; step++) {
+        const row = this.row(series, step);
+        if (row.is_anomaly) anomalies++;
+        rows.push(row);
+      }
+    }
+
+    return { rows, schema: this.schema(), anomalies };
+  }
+
+  /**
+   * Evenly spaced points across the whole range in wide format (one key per entity),
+   * ready for a line chart.
+   */
+  preview(maxPoints = 200): Record<string, string | number>[] {
+    const stride = Math.max(1, Math.ceil(this.steps / maxPoints));
+    const points: Record<string, string | number>[] = [];
+
+    for (let step = 0; step < this.steps; step += stride) {
+      const point: Record<string, string | number> = {
+        [this.config.timestampColumn]: new Date(timestampAt(this.start, this.config.frequency, step)).toISOString()
+      };
+      for (const series of this.series) {
+        point[series.id ?? this.config.valueColumn] = this.row(series, step)[this.config.valueColumn] as number;
+      }
+      points.push(point);
+    }
+
+    return points;
+  }
+
+  private row(series: { id: string | null; level: number; phase: number }, step: number): TimeSeriesRow {
+    const { baseline, trend, seasonality, noise, anomalyRate, anomalyMagnitude, decimals = 2 } = this.config;
+    const random = new SeededRandom(`${this.seed}:${series.id ?? ''}:${step}`);
+
+    let value = baseline + series.level + trend * step;
+    for (const { period, amplitude } of seasonality) {
+      value += amplitude * Math.sin((2 * Math.PI * step) / period + series.phase);
+    }
+
+    // Box-Muller transform for normally distributed noise
+    const u = 1 - random.next();
+    const v = random.next();
+    value += noise * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+
+    const isAnomaly = anomalyRate > 0 && random.bool(anomalyRate);
+    if (isAnomaly) {
+      value += (random.bool() ? 1 : -1) * anomalyMagnitude * random.float(0.75, 1.25);
+    }
+
+    const factor = 10 ** decimals;
+    return {
+      [this.config.timestampColumn]: new Date(timestampAt(this.start, this.config.frequency, step)).toISOString(),
+      ...(series.id !== null && { [this.config.entityColumn]: series.id }),
+      [this.config.valueColumn]: Math.round(value * factor) / factor,
+      is_anomaly: isAnomaly
+    };
+  }
+}
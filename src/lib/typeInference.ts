@@ -0,0 +1,389 @@
+/**
+ * Statistical schema inference for uploaded data
+ * Scans every sampled value of a column to pick its type, constraints and
+ * nullability, and records the column's distribution so generation can follow it.
+ */
+
+import type { DatasetSchema, FieldDistribution, FieldType, RelationalSchema, SchemaField, SchemaValue } from './schema';
+
+export type DateFormat = 'iso' | 'ymd_slash' | 'mdy' | 'dmy' | 'dmy_dot';
+
+export interface ColumnStats {
+  count: number;
+  nullCount: number;
+  nullRate: number;
+  distinctCount: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  std?: number;
+  // p5, p25, p50, p75, p95
+  quantiles?: Record<'p5' | 'p25' | 'p50' | 'p75' | 'p95', number | string>;
+  topValues: { value: SchemaValue; count: number }[];
+  minLength?: number;
+  maxLength?: number;
+  dateFormat?: DateFormat;
+}
+
+export interface InferenceResult {
+  schema: DatasetSchema;
+  stats: Record<string, ColumnStats>;
+}
+
+const NULL_TOKENS = new Set(['', 'null', 'nil', 'none', 'na', 'n/a', 'nan', '#n/a', '-']);
+const TRUE_TOKENS = new Set(['true', 't', 'yes', 'y']);
+const FALSE_TOKENS = new Set(['false', 'f', 'no', 'n']);
+
+// Leading zeros ("00123") mark codes that must stay strings
+const INTEGER_PATTERN = /^[+-]?(0|[1-9]\d*)$/;
+const NUMBER_PATTERN = /^[+-]?((0|[1-9]\d*)(\.\d+)?|\.\d+)(e[+-]?\d+)?$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ID_NAME_PATTERN = /(^id$|_id$|Id$|^uuid$|_key$|^code$)/;
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  iso: /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/,
+  ymd_slash: /^\d{4}\/\d{1,2}\/\d{1,2}$/,
+  mdy: /^\d{1,2}\/\d{1,2}\/\d{4}$/,
+  dmy: /^\d{1,2}\/\d{1,2}\/\d{4}$/,
+  dmy_dot: /^\d{1,2}\.\d{1,2}\.\d{4}$/
+};
+
+// Columns with at most this many distinct values (and mostly repeats) become enums
+const MAX_ENUM_VALUES = 20;
+const MAX_ENUM_RATIO = 0.5;
+const MIN_ENUM_SAMPLE = 10;
+
+// Average length above which strings are treated as free text
+const TEXT_LENGTH = 80;
+
+const TOP_K = 10;
+
+// p0..p100 in 5% steps for inverse-CDF sampling
+const DISTRIBUTION_QUANTILES = 21;
+
+const isNull = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && NULL_TOKENS.has(value.trim().toLowerCase()));
+
+const parseDate = (value: string, format: DateFormat): number => {
+  const parts = value.split(/[/.]/).map(Number);
+  switch (format) {
+    case 'iso':
+      return Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value.replace(' ', 'T'));
+    case 'ymd_slash':
+      return Date.UTC(parts[0], parts[1] - 1, parts[2]);
+    case 'mdy':
+      return Date.UTC(parts[2], parts[0] - 1, parts[1]);
+    case 'dmy':
+    case 'dmy_dot':
+      return Date.UTC(parts[2], parts[1] - 1, parts[0]);
+  }
+};
+
+const validDate = (value: string, format: DateFormat) => {
+  if (!DATE_PATTERNS[format].test(value)) return false;
+  const time = parseDate(value, format);
+  if (Number.isNaN(time)) return false;
+  if (format === 'iso') return true;
+  // Reject rollovers such as 02/31/2024
+  const date = new Date(time);
+  const parts = value.split(/[/.]/).map(Number);
+  const [day, month] = format === 'mdy' ? [parts[1], parts[0]] : format === 'ymd_slash' ? [parts[2], parts[1]] : [parts[0], parts[1]];
+  return date.getUTCDate() === day && date.getUTCMonth() === month - 1;
+};
+
+const detectDateFormat = (values: string[]): DateFormat | null => {
+  // mdy is tried before dmy, so ambiguous US-style dates win unless a day > 12 appears first
+  const candidates: DateFormat[] = ['iso', 'ymd_slash', 'mdy', 'dmy', 'dmy_dot'];
+  return candidates.find(format => values.every(value => validDate(value, format))) ?? null;
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 1) return sorted[0];
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const round = (value: number, decimals = 4) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// A loop, since spreading a large column into Math.min/max overflows the call stack
+function extent(values: number[]): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { min, max };
+}
+
+function detectType(name: string, values: string[], distinct: number): { type: FieldType; dateFormat?: DateFormat } {
+  if (values.length === 0) return { type: 'string' };
+
+  const lower = values.map(value => value.toLowerCase());
+  if (lower.every(value => TRUE_TOKENS.has(value) || FALSE_TOKENS.has(value))) return { type: 'boolean' };
+  if (values.every(value => INTEGER_PATTERN.test(value))) return { type: 'integer' };
+  if (values.every(value => NUMBER_PATTERN.test(value))) return { type: 'number' };
+
+  const dateFormat = detectDateFormat(values);
+  if (dateFormat) {
+    const hasTime = dateFormat === 'iso' && values.some(value => value.length > 10);
+    return { type: hasTime ? 'datetime' : 'date', dateFormat };
+  }
+
+  if (values.every(value => UUID_PATTERN.test(value))) return { type: 'uuid' };
+  if (values.every(value => EMAIL_PATTERN.test(value))) return { type: 'email' };
+  if (values.every(value => PHONE_PATTERN.test(value) && (value.match(/\d/g) || []).length >= 7)) return { type: 'phone' };
+
+  const averageLength = values.reduce((sum, value) => sum + value.length, 0) / values.length;
+  if (averageLength > TEXT_LENGTH) return { type: 'text' };
+
+  const isIdName = ID_NAME_PATTERN.test(name);
+  if (!isIdName && values.length >= MIN_ENUM_SAMPLE && distinct <= MAX_ENUM_VALUES && distinct / values.length <= MAX_ENUM_RATIO) {
+    return { type: 'enum' };
+  }
+
+  return { type: 'string' };
+}
+
+/**
+ * Converts a raw cell to the JS value of the inferred type; dates become ISO strings.
+ */
+export function coerceValue(value: unknown, field: SchemaField, dateFormat?: DateFormat): SchemaValue | null {
+  if (isNull(value)) return null;
+  const text = String(value).trim();
+
+  switch (field.type) {
+    case 'integer':
+    case 'number': {
+      const number = Number(text);
+      return Number.isFinite(number) ? number : text;
+    }
+    case 'boolean':
+      return TRUE_TOKENS.has(text.toLowerCase()) ? true : FALSE_TOKENS.has(text.toLowerCase()) ? false : text;
+    case 'date':
+    case 'datetime': {
+      const time = dateFormat ? parseDate(text, dateFormat) : Date.parse(text);
+      if (Number.isNaN(time)) return text;
+      const iso = new Date(time).toISOString();
+      return field.type === 'date' ? iso.slice(0, 10) : iso;
+    }
+    default:
+      return typeof value === 'string' ? value : text;
+  }
+}
+
+export function inferColumn(name: string, rawValues: unknown[]): { field: SchemaField; stats: ColumnStats } {
+  const values = rawValues.filter(value => !isNull(value)).map(value => String(value).trim());
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  const { type, dateFormat } = detectType(name, values, counts.size);
+  const field: SchemaField = { type, description: `Inferred ${type} field` };
+  const nullCount = rawValues.length - values.length;
+  const stats: ColumnStats = {
+    count: rawValues.length,
+    nullCount,
+    nullRate: rawValues.length > 0 ? round(nullCount / rawValues.length) : 0,
+    distinctCount: counts.size,
+    topValues: []
+  };
+
+  const typed = values.map(value => coerceValue(value, field, dateFormat) as SchemaValue);
+  const unique = values.length > 1 && counts.size === values.length;
+  const constraints: NonNullable<SchemaField['constraints']> = {};
+  const distribution: FieldDistribution = {};
+
+  if (nullCount === 0 && values.length > 0) constraints.required = true;
+  if (nullCount > 0) field.nullable = true;
+  if (unique && (ID_NAME_PATTERN.test(name) || type === 'uuid' || type === 'email')) constraints.unique = true;
+  if (nullCount > 0) distribution.nullRate = stats.nullRate;
+
+  const numeric = type === 'integer' || type === 'number';
+  const temporal = type === 'date' || type === 'datetime';
+
+  if ((numeric || temporal) && typed.length > 0) {
+    const points = typed.map(value => (temporal ? Date.parse(String(value)) : Number(value))).sort((a, b) => a - b);
+    const mean = points.reduce((sum, value) => sum + value, 0) / points.length;
+    const std = Math.sqrt(points.reduce((sum, value) => sum + (value - mean) ** 2, 0) / points.length);
+    const display = (value: number) => (temporal ? coerceValue(new Date(value).toISOString(), field) as string : round(value));
+
+    stats.min = display(points[0]);
+    stats.max = display(points[points.length - 1]);
+    stats.mean = round(mean);
+    stats.std = round(std);
+    stats.quantiles = {
+      p5: display(quantile(points, 0.05)),
+      p25: display(quantile(points, 0.25)),
+      p50: display(quantile(points, 0.5)),
+      p75: display(quantile(points, 0.75)),
+      p95: display(quantile(points, 0.95))
+    };
+    if (dateFormat) stats.dateFormat = dateFormat;
+
+    // Key columns keep counting past the uploaded range instead of following its distribution
+    if (!constraints.unique) {
+      constraints.min = stats.min;
+      constraints.max = stats.max;
+      distribution.mean = stats.mean;
+      distribution.std = stats.std;
+      distribution.quantiles = Array.from({ length: DISTRIBUTION_QUANTILES }, (_, index) =>
+        round(quantile(points, index / (DISTRIBUTION_QUANTILES - 1)))
+      );
+    }
+  } else if (values.length > 0) {
+    const lengths = extent(values.map(value => value.length));
+    stats.minLength = lengths.min;
+    stats.maxLength = lengths.max;
+  }
+
+  const typedCounts = new Map<SchemaValue, number>();
+  typed.forEach(value => typedCounts.set(value, (typedCounts.get(value) || 0) + 1));
+  const ranked = Array.from(typedCounts.entries()).sort((a, b) => b[1] - a[1]);
+  stats.topValues = ranked.slice(0, TOP_K).map(([value, count]) => ({ value, count }));
+
+  if (type === 'enum' || type === 'boolean') {
+    if (type === 'enum') constraints.enum = ranked.map(([value]) => value);
+    distribution.frequencies = ranked.map(([value, count]) => ({ value, weight: round(count / typed.length) }));
+  }
+
+  field.examples = stats.topValues.slice(0, 5).map(({ value }) => value);
+  if (Object.keys(constraints).length > 0) field.constraints = constraints;
+  if (Object.keys(distribution).length > 0) field.distribution = distribution;
+
+  return { field, stats };
+}
+
+export function inferDatasetSchema(data: Record<string, unknown>[]): InferenceResult {
+  const columns = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+  const schema: DatasetSchema = {};
+  const stats: Record<string, ColumnStats> = {};
+
+  columns.forEach(column => {
+    const result = inferColumn(column, data.map(row => row[column]));
+    schema[column] = result.field;
+    stats[column] = result.stats;
+  });
+
+  return { schema, stats };
+}
+
+/**
+ * Types columns from the JS values already in the rows, without parsing
+ * strings, so editing a column keeps the type it has rather than the one its
+ * text suggests. Only ISO dates are recognised among strings.
+ */
+export function schemaFromValues(data: Record<string, unknown>[]): DatasetSchema {
+  const columns = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+  return Object.fromEntries(columns.map(column => {
+    const values = data.map(row => row[column]).filter(value => !isNull(value));
+    let type: FieldType = 'string';
+    if (values.length > 0 && values.every(value => typeof value === 'number')) {
+      type = values.every(value => Number.isInteger(value)) ? 'integer' : 'number';
+    } else if (values.length > 0 && values.every(value => typeof value === 'boolean')) {
+      type = 'boolean';
+    } else if (values.length > 0 && values.every(value => typeof value === 'string' && DATE_PATTERNS.iso.test(value))) {
+      type = values.some(value => (value as string).length > 10) ? 'datetime' : 'date';
+    }
+    return [column, { type, nullable: values.length < data.length }];
+  }));
+}
+
+/**
+ * Rewrites raw uploaded rows with the inferred types (numbers, booleans, ISO dates, nulls).
+ */
+export function coerceRows(data: Record<string, unknown>[], result: InferenceResult): Record<string, unknown>[] {
+  return data.map(row => {
+    const typed: Record<string, unknown> = {};
+    Object.entries(row).forEach(([column, value]) => {
+      const field = result.schema[column];
+      typed[column] = field ? coerceValue(value, field, result.stats[column]?.dateFormat) : value;
+    });
+    return typed;
+  });
+}
+
+const singular = (name: string) =>
+  name.replace(/ies$/i, 'y').replace(/(ss|x|ch|sh)es$/i, '$1').replace(/([^s])s$/i, '$1');
+
+const keyName = (name: string) => name.toLowerCase().replace(/[\s-]+/g, '_');
+
+function detectPrimaryKey(table: string, schema: DatasetSchema): string | undefined {
+  const unique = Object.keys(schema).filter(column => schema[column].constraints?.unique);
+  const own = keyName(singular(table));
+  return unique.find(column => keyName(column) === 'id') ??
+    unique.find(column => [`${own}_id`, `${own}id`].includes(keyName(column))) ??
+    unique.find(column => ID_NAME_PATTERN.test(column));
+}
+
+/**
+ * Combines per-table inference into a relational schema: primary keys from unique
+ * ID columns, and foreign keys where a column is named after another table's key
+ * and all of its values exist there. Cardinalities follow the observed child counts.
+ */
+export function inferRelationalSchema(
+  tables: Record<string, Record<string, unknown>[]>,
+  inferred: Record<string, InferenceResult>
+): RelationalSchema {
+  const relational: RelationalSchema = {};
+  const primaryKeys: Record<string, string | undefined> = {};
+
+  for (const [table, result] of Object.entries(inferred)) {
+    primaryKeys[table] = detectPrimaryKey(table, result.schema);
+    relational[table] = {
+      fields: Object.fromEntries(Object.entries(result.schema).map(([name, field]) => [name, { ...field }])),
+      primaryKey: primaryKeys[table]
+    };
+  }
+
+  for (const [table, entity] of Object.entries(relational)) {
+    for (const [column, field] of Object.entries(entity.fields)) {
+      if (column === entity.primaryKey) continue;
+
+      const target = Object.keys(relational).find(parent => {
+        const parentKey = primaryKeys[parent];
+        if (parent === table || !parentKey) return false;
+        const own = keyName(singular(parent));
+        const normalized = keyName(column);
+        const named = normalized === `${own}_id` || normalized === `${own}id` ||
+          (keyName(parentKey) !== 'id' && normalized === keyName(parentKey));
+        if (!named) return false;
+
+        const keys = new Set(tables[parent].map(row => String(row[parentKey])));
+        return tables[table].every(row => row[column] === null || row[column] === undefined || keys.has(String(row[column])));
+      });
+      if (!target) continue;
+
+      const parentKey = primaryKeys[target]!;
+      const childCounts = new Map<string, number>();
+      tables[target].forEach(row => childCounts.set(String(row[parentKey]), 0));
+      tables[table].forEach(row => {
+        const key = String(row[column]);
+        if (childCounts.has(key)) childCounts.set(key, childCounts.get(key)! + 1);
+      });
+      const counts = Array.from(childCounts.values());
+
+      // Key values are rewritten during generation, so the uploaded ranges no longer apply
+      const constraints = { ...field.constraints };
+      delete constraints.min;
+      delete constraints.max;
+      const nullRate = field.distribution?.nullRate;
+
+      entity.fields[column] = {
+        ...field,
+        constraints,
+        distribution: nullRate !== undefined ? { nullRate } : undefined,
+        reference: {
+          table: target,
+          field: parentKey,
+          cardinality: counts.length > 0 ? extent(counts) : undefined
+        }
+      };
+    }
+  }
+
+  return relational;
+}
@@ -0,0 +1,23 @@
+/**
+ * Upload worker
+ * Runs upload parsing and profiling off the main thread and reports progress.
+ */
+
+import { inspectWorkbook, processUpload, type UploadWorkerMessage, type UploadWorkerRequest } from './uploadProcessor';
+
+const send = (message: UploadWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<UploadWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'inspect') {
+      send({ type: 'sheets', sheets: await inspectWorkbook(request.file) });
+    } else {
+      const result = await processUpload(request.file, request.options, progress => send({ type: 'progress', progress }));
+      send({ type: 'result', result });
+    }
+  } catch (error) {
+    send({ type: 'error', message: (error as Error).message || 'Failed to process file' });
+  }
+};
@@ -0,0 +1,183 @@
+/**
+ * Upload processing
+ * Parses, profiles and samples an uploaded file. CSV files are streamed so only a
+ * reservoir sample is kept in memory; runs inside the upload worker so large files
+ * do not block the page.
+ */
+
+import { streamCsv, type CsvIssue } from './csvParser';
+import {
+  CSV_EXTENSIONS,
+  fileExtension,
+  parseUploadFile,
+  readWorkbook,
+  summarizeSheets,
+  type SheetSummary,
+  type SpreadsheetOptions
+} from './fileParser';
+import { SeededRandom } from './localGenerator';
+import { ReservoirSampler } from './reservoirSampler';
+import { parseRelationalSchema, type DatasetSchema, type RelationalSchema } from './schema';
+import { coerceRows, inferDatasetSchema, inferRelationalSchema, type ColumnStats } from './typeInference';
+
+// Rows kept as examples for generation
+export const SAMPLE_ROWS = 1000;
+// Rows the schema and distributions are inferred from
+export const PROFILE_ROWS = 10000;
+
+export interface UploadProgress {
+  stage: 'reading' | 'profiling';
+  progress: number;
+  rowsRead: number;
+}
+
+export interface ProcessedUpload {
+  data: Record<string, unknown>[];
+  schema: DatasetSchema;
+  stats: {
+    rowCount: number;
+    columnCount: number;
+    firstRow?: Record<string, unknown>;
+    lastRow?: Record<string, unknown>;
+    columns: Record<string, ColumnStats>;
+  };
+  totalRows: number;
+  // Rows the profile was computed from; less than totalRows for sampled files
+  profiledRows: number;
+  parseReport: { delimiter: string; encoding: string; issues: CsvIssue[] } | null;
+  sheets?: SheetSummary[];
+  relationalSchema?: RelationalSchema;
+  tables?: Record<string, Record<string, unknown>[]>;
+  tableStats?: Record<string, Record<string, ColumnStats>>;
+}
+
+export type UploadWorkerRequest =
+  | { type: 'inspect'; file: File }
+  | { type: 'process'; file: File; options?: SpreadsheetOptions };
+
+export type UploadWorkerMessage =
+  | { type: 'progress'; progress: UploadProgress }
+  | { type: 'sheets'; sheets: SheetSummary[] }
+  | { type: 'result'; result: ProcessedUpload }
+  | { type: 'error'; message: string };
+
+const noRowsError = (issues: CsvIssue[] = []) =>
+  new Error(issues.length
+    ? `File contains no valid rows (${issues.length} malformed lines, first at line ${issues[0].line})`
+    : 'File contains no valid tabular data');
+
+async function processCsv(
+  file: File,
+  random: SeededRandom,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ProcessedUpload> {
+  const reservoir = new ReservoirSampler<Record<string, string>>(PROFILE_ROWS, random);
+  let firstRow: Record<string, string> | undefined;
+  let lastRow: Record<string, string> | undefined;
+  let reported = -1;
+
+  const report = await streamCsv(file, {
+    onRow: (row) => {
+      firstRow ??= row;
+      lastRow = row;
+      reservoir.add(row);
+    },
+    onProgress: (fraction) => {
+      // One message per percent keeps the page from drowning in updates
+      const percent = Math.floor(fraction * 100);
+      if (percent === reported) return;
+      reported = percent;
+      onProgress?.({ stage: 'reading', progress: percent, rowsRead: reservoir.seen });
+    }
+  });
+
+  if (report.issues.length > 0) {
+    console.warn(`⚠️ ${report.issues.length} malformed lines in ${file.name}:`, report.issues.slice(0, 10));
+  }
+  if (!firstRow || !lastRow) throw noRowsError(report.issues);
+
+  onProgress?.({ stage: 'profiling', progress: 100, rowsRead: report.rowCount });
+  const profile = reservoir.items();
+  const inference = inferDatasetSchema(profile);
+  const [first, last] = coerceRows([firstRow, lastRow], inference);
+
+  return {
+    data: coerceRows(reservoir.items(SAMPLE_ROWS), inference),
+    schema: inference.schema,
+    stats: { rowCount: report.rowCount, columnCount: report.headers.length, firstRow: first, lastRow: last, columns: inference.stats },
+    totalRows: report.rowCount,
+    profiledRows: profile.length,
+    parseReport: { delimiter: report.delimiter, encoding: report.encoding, issues: report.issues }
+  };
+}
+
+async function processTables(
+  file: File,
+  options: SpreadsheetOptions,
+  random: SeededRandom,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ProcessedUpload> {
+  onProgress?.({ stage: 'reading', progress: 0, rowsRead: 0 });
+  const parsed = await parseUploadFile(file, options);
+  const tables = parsed.tables.filter(table => table.rows.length > 0);
+  if (tables.length === 0) throw noRowsError();
+
+  const totalRows = tables.reduce((sum, table) => sum + table.rows.length, 0);
+  onProgress?.({ stage: 'profiling', progress: 100, rowsRead: totalRows });
+
+  // Profiled from a reservoir sample like CSV files, and only the kept rows are coerced
+  const samplers = Object.fromEntries(tables.map(table => {
+    const reservoir = new ReservoirSampler<Record<string, unknown>>(PROFILE_ROWS, random);
+    table.rows.forEach(row => reservoir.add(row));
+    return [table.name, reservoir];
+  }));
+  const inferred = Object.fromEntries(tables.map(table => [table.name, inferDatasetSchema(samplers[table.name].items())]));
+  const sampleOf = (name: string) => coerceRows(samplers[name].items(SAMPLE_ROWS), inferred[name]);
+
+  const primary = tables[0];
+  const rows = primary.rows;
+  const inference = inferred[primary.name];
+  const [first, last] = coerceRows([rows[0], rows[rows.length - 1]], inference);
+  const result: ProcessedUpload = {
+    data: sampleOf(primary.name),
+    schema: inference.schema,
+    stats: {
+      rowCount: rows.length,
+      columnCount: primary.headers.length,
+      firstRow: first,
+      lastRow: last,
+      columns: inference.stats
+    },
+    totalRows: rows.length,
+    profiledRows: Math.min(rows.length, PROFILE_ROWS),
+    parseReport: parsed.csv ?? null,
+    sheets: parsed.sheets
+  };
+
+  // Several sheets are imported as related tables; samples keep each table's own rows
+  if (tables.length > 1) {
+    // Key matching compares values as text, so it can check every uploaded row without coercing them
+    const allRows = Object.fromEntries(tables.map(table => [table.name, table.rows]));
+    result.relationalSchema = parseRelationalSchema(inferRelationalSchema(allRows, inferred));
+    result.tables = Object.fromEntries(tables.map(table => [table.name, sampleOf(table.name)]));
+    result.tableStats = Object.fromEntries(Object.entries(inferred).map(([name, { stats }]) => [name, stats]));
+  }
+
+  return result;
+}
+
+export async function processUpload(
+  file: File,
+  options: SpreadsheetOptions = {},
+  onProgress?: (progress: UploadProgress) => void
+): Promise<ProcessedUpload> {
+  // Seeded by the file so re-uploading it gives the same sample
+  const random = new SeededRandom(`${file.name}:${file.size}:${file.lastModified}`);
+  return CSV_EXTENSIONS.includes(fileExtension(file))
+    ? processCsv(file, random, onProgress)
+    : processTables(file, options, random, onProgress);
+}
+
+export async function inspectWorkbook(file: File): Promise<SheetSummary[]> {
+  return summarizeSheets(readWorkbook(await file.arrayBuffer()));
+}
@@ -8,6 +8,7 @@ import {
   Activity
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import SavedDatasets from '../components/SavedDatasets';
 
 const Dashboard: React.FC = () => {
   // Generate real-time statistics based on current time and system state
@@ -249,6 +250,9 @@ const Dashboard: React.FC = () => {
         </div>
       </motion.div>
 
+      {/* Saved Datasets */}
+      <SavedDatasets />
+
       {/* Recent Activity */}
       <motion.div
         className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
@@ -1,6 +1,39 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { DataGeneratorService } from '../lib/dataGenerator';
+import { GenerationCancelledError, type ChunkProgress } from '../lib/chunkedGeneration';
+import type { DatasetSchema, RelationalSchema } from '../lib/schema';
+import type { TableProgress } from '../lib/relationalGenerator';
+import { DEFAULT_TEXT_CORPUS_CONFIG, type TextCorpusConfig } from '../lib/textGenerator';
+import { DEFAULT_TIME_SERIES_CONFIG, type TimeSeriesConfig } from '../lib/timeSeriesGenerator';
+import { exportRelationalBundle, type BundleFormat } from '../lib/relationalExport';
+import { COLUMNAR_MIME_TYPES, type ColumnarFormat } from '../lib/columnarFormats';
+import { SQL_DIALECTS, exportSql, relationalSqlTables, singleSqlTable, type SqlDialect } from '../lib/sqlExport';
+import { SCHEMA_SOURCE_LABELS, importSchema, type SchemaSourceFormat } from '../lib/schemaImport';
+import { SCHEMA_EXPORT_FORMATS, exportSchema, type SchemaExportFormat } from '../lib/schemaExport';
+import { downloadBlob } from '../lib/utils';
+import {
+  ProjectRepository,
+  canResume,
+  checkpointRows,
+  type GenerationRecord,
+  type SavedJob,
+  type StoredResult
+} from '../lib/projectRepository';
+import type { Dataset, GenerationJob, Project } from '../lib/supabase';
+import type { CsvIssue } from '../lib/csvParser';
+import type { SavedEditHistory } from '../lib/editHistory';
+import { isSpreadsheet, type SheetSummary, type SpreadsheetOptions } from '../lib/fileParser';
+import type { UploadProgress } from '../lib/uploadProcessor';
+import type { ColumnStats } from '../lib/typeInference';
+import { repairRows, validateRows, type ValidationReport as ValidationReportData } from '../lib/dataValidation';
+import ValidationReport from '../components/ValidationReport';
+import SchemaEditor from '../components/SchemaEditor';
+import TimeSeriesSettings from '../components/TimeSeriesSettings';
+import TextCorpusSettings from '../components/TextCorpusSettings';
+import UnfinishedJobs from '../components/UnfinishedJobs';
+import { useAtomValue } from 'jotai';
+import { modelConfigAtom } from '../store/modelStore';
 import { useStore } from '../store/useStore';
 import { ApiService } from '../lib/api';
 import { useWebSocket } from '../hooks/useWebSocket';
@@ -25,11 +58,119 @@ import { useModel } from '../components/ModelProvider';
     WifiOff,
     Activity,
     Edit3,
-    XCircle
+    XCircle,
+    RotateCcw
   } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
+import { useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
+// Multi-table results mirror the primary table in `data`, so edits must be written back to both.
+// Any saved editor history no longer matches the rows, so it is dropped.
+type TableResult = { tables?: Record<string, unknown[]>; order?: string[] };
+
+const withPrimaryTable = <T extends TableResult>(
+  result: T,
+  data: Record<string, unknown>[],
+  validation: ValidationReportData,
+  editHistory?: SavedEditHistory
+) => ({
+  ...result,
+  data,
+  validation,
+  editHistory,
+  ...(result.tables && result.order && { tables: { ...result.tables, [result.order[0]]: data } })
+});
+
+type SchemaSource = { relationalSchema?: RelationalSchema };
+
+// A schema edited in the review editor, written into a result or schema source as its primary table's fields
+const withPrimaryFields = <T extends SchemaSource>(source: T, table: string | undefined, schema: DatasetSchema) => ({
+  ...source,
+  schema,
+  ...(source.relationalSchema && table && source.relationalSchema[table] && {
+    relationalSchema: { ...source.relationalSchema, [table]: { ...source.relationalSchema[table], fields: schema } }
+  })
+});
+
+type GenerationSettings = {
+  rowCount: number;
+  quality_level: string;
+  privacy_level: string;
+  engine: 'ai' | 'local';
+  seed: string;
+};
+
+// Everything one run needs, so a job can be resumed from its stored config alone
+interface GenerationRequest {
+  name: string;
+  dataType: string;
+  domain: string;
+  description: string;
+  inputMethod: 'upload' | 'describe';
+  settings: GenerationSettings;
+  schema: DatasetSchema;
+  relationalSchema?: RelationalSchema;
+  sourceData: Record<string, unknown>[];
+  sourceTables?: Record<string, Record<string, unknown>[]>;
+  timeSeries: TimeSeriesConfig;
+  textCorpus: TextCorpusConfig;
+}
+
+// How often a running generation tells its job record it is still alive
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+// Example rows kept on the job (per table for related uploads) so a resumed run prompts with the same examples
+const SOURCE_SAMPLE_ROWS = 20;
+
+// Upload stats keep date means in epoch milliseconds; show them like the min and max
+const formatMean = (mean: number, type?: string) =>
+  type === 'date' ? new Date(mean).toISOString().slice(0, 10)
+    : type === 'datetime' ? new Date(mean).toISOString()
+      : mean;
+
+const jobConfig = (request: GenerationRequest) => ({
+  ...request.settings,
+  input_method: request.inputMethod,
+  dataset_name: request.name,
+  ...(request.dataType === 'timeseries' && { time_series: request.timeSeries }),
+  ...(request.dataType === 'text' && { text_corpus: request.textCorpus }),
+  ...(request.dataType === 'tabular' && {
+    schema: request.schema,
+    source_sample: request.sourceData.slice(0, SOURCE_SAMPLE_ROWS),
+    ...(request.relationalSchema && { relational_schema: request.relationalSchema }),
+    ...(request.sourceTables && {
+      source_tables: Object.fromEntries(
+        Object.entries(request.sourceTables).map(([table, rows]) => [table, rows.slice(0, SOURCE_SAMPLE_ROWS)])
+      )
+    })
+  })
+});
+
+const requestFromJob = (project: Project, config: GenerationJob['config'] = {}): GenerationRequest => {
+  const relationalSchema: RelationalSchema | undefined = config.relational_schema;
+  return {
+    name: config.dataset_name ?? project.name,
+    dataType: project.data_type,
+    domain: project.domain,
+    description: project.description ?? '',
+    inputMethod: config.input_method ?? 'describe',
+    settings: {
+      rowCount: config.rowCount,
+      quality_level: config.quality_level,
+      privacy_level: config.privacy_level,
+      engine: config.engine ?? 'ai',
+      seed: config.seed
+    },
+    schema: config.schema ?? (relationalSchema && Object.values(relationalSchema)[0]?.fields) ?? {},
+    relationalSchema,
+    sourceData: config.source_sample ?? [],
+    sourceTables: config.source_tables,
+    timeSeries: config.time_series ?? DEFAULT_TIME_SERIES_CONFIG,
+    textCorpus: config.text_corpus ?? DEFAULT_TEXT_CORPUS_CONFIG
+  };
+};
+
 const DataGenerator: React.FC = () => {
   const [selectedDataType, setSelectedDataType] = useState('tabular');
   const [selectedDomain, setSelectedDomain] = useState('');
@@ -38,27 +179,65 @@ const DataGenerator: React.FC = () => {
   const [uploadedData, setUploadedData] = useState<any>(null);
   const [generatedData, setGeneratedData] = useState<any>(null);
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress | null>(null);
+  const [tableProgress, setTableProgress] = useState<TableProgress | null>(null);
   
   const [geminiStatus, setGeminiStatus] = useState<'unknown' | 'online' | 'offline'>('unknown');
   const [inputMethod, setInputMethod] = useState<'upload' | 'describe'>('describe');
   const [naturalLanguageDescription, setNaturalLanguageDescription] = useState('');
+  const [multiTable, setMultiTable] = useState(false);
+  const [sqlDialect, setSqlDialect] = useState<SqlDialect>('postgresql');
+  const [sqlUseCopy, setSqlUseCopy] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{
+    file: File;
+    sheets: SheetSummary[];
+    selected: string[];
+    headerRows: Record<string, number>;
+  } | null>(null);
   const [generatedSchema, setGeneratedSchema] = useState<any>(null);
+  const [showSchemaImport, setShowSchemaImport] = useState(false);
+  // Remounts the schema editor whenever a new schema replaces the one being edited
+  const [schemaEditorKey, setSchemaEditorKey] = useState(0);
+  const [schemaEditsValid, setSchemaEditsValid] = useState(true);
+  const [schemaImportText, setSchemaImportText] = useState('');
   const [isGeneratingSchema, setIsGeneratingSchema] = useState(false);
   const [backendHealthy, setBackendHealthy] = useState<boolean | null>(null);
   const [lastHealthCheck, setLastHealthCheck] = useState<Date | null>(null);
-  const [generationConfig, setGenerationConfig] = useState({
+  const [generationConfig, setGenerationConfig] = useState<GenerationSettings>({
     rowCount: 10000,
     quality_level: 'high',
-    privacy_level: 'maximum'
+    privacy_level: 'maximum',
+    engine: 'ai',
+    seed: 'datagenesis'
   });
   
+  const [timeSeriesConfig, setTimeSeriesConfig] = useState<TimeSeriesConfig>(DEFAULT_TIME_SERIES_CONFIG);
+  const [textCorpusConfig, setTextCorpusConfig] = useState<TextCorpusConfig>(DEFAULT_TEXT_CORPUS_CONFIG);
+  const modelConfig = useAtomValue(modelConfigAtom);
+
   const [showProcessLogger, setShowProcessLogger] = useState(false);
   const [aiConfigured, setAiConfigured] = useState(false);
   const [showDataEditor, setShowDataEditor] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [savedDataset, setSavedDataset] = useState<Dataset | null>(null);
+  // Set when regenerating a saved project, so new runs are added to it instead of a new project
+  const [activeProject, setActiveProject] = useState<Project | null>(null);
+  const [activeJob, setActiveJob] = useState<GenerationJob | null>(null);
+  const [resumeJob, setResumeJob] = useState<SavedJob | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set when computed columns change in the review editor, until the project config has them
+  const schemaEditedRef = useRef(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const reopenDatasetId = searchParams.get('dataset');
+  const regenerateProjectId = searchParams.get('project');
+  const resumeJobId = searchParams.get('resume');
   
   const { user, isGuest } = useStore();
+  const signedIn = !!user && !isGuest;
   const { currentModel } = useModel();
   const dataService = new DataGeneratorService();
+  const projectRepository = new ProjectRepository();
   const { lastMessage } = useWebSocket("guest_user");
 
   // Check backend health and AI configuration on component mount
@@ -69,6 +248,115 @@ const DataGenerator: React.FC = () => {
     return () => clearInterval(healthInterval);
   }, []);
 
+  // Reopen a saved dataset linked from the dashboard (/generator?dataset=<id>)
+  useEffect(() => {
+    if (!reopenDatasetId || !signedIn) return;
+    const repository = new ProjectRepository();
+    let cancelled = false;
+
+    const reopen = async () => {
+      try {
+        const dataset = await repository.getDataset(reopenDatasetId);
+        const result = await repository.loadDatasetFile(dataset);
+        if (cancelled) return;
+
+        setSelectedDataType(dataset.project.data_type);
+        setSelectedDomain(dataset.project.domain);
+        setGeneratedData(result);
+        setSavedDataset(dataset);
+        setGenerationStep(4);
+        setGenerationProgress(100);
+        toast.success(`Opened ${dataset.name}`);
+      } catch (error) {
+        if (!cancelled) toast.error(`Could not open dataset: ${(error as Error).message}`);
+      }
+    };
+
+    reopen();
+    return () => {
+      cancelled = true;
+    };
+  }, [reopenDatasetId, signedIn]);
+
+  // Load a saved project's settings for regeneration (/generator?project=<id>)
+  useEffect(() => {
+    if (!regenerateProjectId || !signedIn) return;
+    const repository = new ProjectRepository();
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const project = await repository.getProject(regenerateProjectId);
+        if (cancelled) return;
+
+        const config = project.config ?? {};
+        setActiveProject(project);
+        setSelectedDataType(project.data_type);
+        setSelectedDomain(project.domain);
+        setNaturalLanguageDescription(project.description ?? '');
+        setInputMethod('describe');
+        setGeneratedData(null);
+        setSavedDataset(null);
+        setGenerationConfig(current => ({
+          rowCount: config.rowCount ?? current.rowCount,
+          quality_level: config.quality_level ?? current.quality_level,
+          privacy_level: config.privacy_level ?? current.privacy_level,
+          engine: config.engine ?? current.engine,
+          seed: config.seed ?? current.seed
+        }));
+        if (config.time_series) setTimeSeriesConfig(config.time_series);
+        if (config.text_corpus) setTextCorpusConfig(config.text_corpus);
+
+        const relational: RelationalSchema | undefined = config.relational_schema;
+        const schema: DatasetSchema | undefined = config.schema ?? (relational && Object.values(relational)[0]?.fields);
+        if (schema) {
+          setGeneratedSchema({
+            schema,
+            sample_data: config.source_sample ?? [],
+            detected_domain: project.domain,
+            source: 'project',
+            ...(relational && { relationalSchema: relational })
+          });
+          setSchemaEditorKey(key => key + 1);
+          setSchemaEditsValid(true);
+        }
+        setGenerationStep(2);
+        toast.success(`Loaded settings from ${project.name}`);
+      } catch (error) {
+        if (!cancelled) toast.error(`Could not load project: ${(error as Error).message}`);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [regenerateProjectId, signedIn]);
+
+  // Offer to resume a job linked from its project page (/generator?resume=<jobId>)
+  useEffect(() => {
+    if (!resumeJobId || !signedIn) return;
+    let cancelled = false;
+
+    new ProjectRepository()
+      .getJob(resumeJobId)
+      .then(job => {
+        if (!cancelled) setResumeJob(job);
+      })
+      .catch(error => {
+        if (!cancelled) toast.error(`Could not load generation job: ${(error as Error).message}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeJobId, signedIn]);
+
+  const detachProject = () => {
+    setActiveProject(null);
+    setSearchParams({});
+  };
+
   // Check AI configuration when model changes
   useEffect(() => {
     checkAIConfiguration();
@@ -153,29 +441,73 @@ const DataGenerator: React.FC = () => {
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
       'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.ms-excel': ['.xls'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
       'application/json': ['.json'],
+      'application/vnd.apache.parquet': ['.parquet'],
+      'application/vnd.apache.arrow.file': ['.arrow', '.feather'],
     },
     onDrop: async (acceptedFiles) => {
       if (acceptedFiles.length === 0) return;
       
       const file = acceptedFiles[0];
-      toast.loading('Processing uploaded file...');
-      
-      try {
-        const processedData = await dataService.processUploadedData(file);
-        setUploadedData(processedData);
-        setGenerationStep(2);
-        toast.dismiss();
-        toast.success('File processed successfully!');
-      } catch (error) {
-        toast.dismiss();
-        toast.error(`Failed to process file: ${(error as Error).message}`);
-        console.error('File processing error:', error);
+      setPendingWorkbook(null);
+
+      // Workbooks with several sheets go through the sheet picker first
+      if (isSpreadsheet(file)) {
+        try {
+          const sheets = await dataService.inspectSpreadsheet(file);
+          if (sheets.length > 1) {
+            setPendingWorkbook({
+              file,
+              sheets,
+              selected: [sheets.find(sheet => sheet.rowCount > 0)?.name ?? sheets[0].name],
+              headerRows: Object.fromEntries(sheets.map(sheet => [sheet.name, sheet.headerRow]))
+            });
+            return;
+          }
+        } catch (error) {
+          toast.error(`Failed to read workbook: ${(error as Error).message}`);
+          return;
+        }
       }
+
+      await importFile(file);
     },
   });
 
+  const importFile = async (file: File, options?: SpreadsheetOptions) => {
+    toast.loading('Processing uploaded file...');
+    setUploadProgress({ stage: 'reading', progress: 0, rowsRead: 0 });
+
+    try {
+      const processedData = await dataService.processUploadedData(file, options, setUploadProgress);
+      setUploadedData(processedData);
+      setPendingWorkbook(null);
+      setGenerationStep(2);
+      toast.dismiss();
+      toast.success(
+        processedData.relationalSchema
+          ? `Imported ${Object.keys(processedData.relationalSchema).length} sheets as related tables`
+          : 'File processed successfully!'
+      );
+
+      const issues = processedData.parseReport?.issues || [];
+      if (issues.length > 0) {
+        toast.error(`${issues.length} malformed lines were skipped (first at line ${issues[0].line})`, { duration: 6000 });
+      }
+    } catch (error) {
+      toast.dismiss();
+      toast.error(`Failed to process file: ${(error as Error).message}`);
+      console.error('File processing error:', error);
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
   const handleGenerateSchema = async () => {
     const description = naturalLanguageDescription.trim();
     
@@ -203,22 +535,24 @@ const DataGenerator: React.FC = () => {
     setGeneratedSchema(null);
 
     try {
-      const schema = await dataService.generateSchemaFromDescription(
-        description,
-        selectedDomain,
-        selectedDataType
-      );
+      const schema = multiTable
+        ? await dataService.generateRelationalSchemaFromDescription(description, selectedDomain, selectedDataType)
+        : await dataService.generateSchemaFromDescription(description, selectedDomain, selectedDataType);
       
       if (!schema || !schema.schema || Object.keys(schema.schema).length === 0) {
         throw new Error('Generated schema is empty or invalid');
       }
       
       setGeneratedSchema(schema);
+      setSchemaEditorKey(key => key + 1);
+      setSchemaEditsValid(true);
       setGenerationStep(2);
       
       toast.dismiss();
       toast.success(
-        `Schema generated successfully! Found ${Object.keys(schema.schema).length} fields.`,
+        schema.relationalSchema
+          ? `Schema generated successfully! Found ${Object.keys(schema.relationalSchema).length} related tables.`
+          : `Schema generated successfully! Found ${Object.keys(schema.schema).length} fields.`,
         { duration: 4000 }
       );
       
@@ -235,51 +569,273 @@ const DataGenerator: React.FC = () => {
     }
   };
 
+  const handleImportSchema = (text: string, filename?: string) => {
+    try {
+      const imported = importSchema(text, { filename, name: filename ? undefined : selectedDomain });
+      const tables = Object.keys(imported.schema);
+
+      // Several tables generate relationally; the first one stands in as the flat schema
+      setGeneratedSchema({
+        schema: imported.schema[tables[0]].fields,
+        sample_data: [],
+        detected_domain: selectedDomain,
+        source: imported.format,
+        warnings: imported.warnings,
+        ...(tables.length > 1 && { relationalSchema: imported.schema })
+      });
+      setSchemaEditorKey(key => key + 1);
+      setSchemaEditsValid(true);
+      setGenerationStep(2);
+      setShowSchemaImport(false);
+      setSchemaImportText('');
+
+      toast.success(
+        `Imported ${SCHEMA_SOURCE_LABELS[imported.format]} schema with ${tables.length} table${tables.length === 1 ? '' : 's'}` +
+          (imported.warnings.length ? ` (${imported.warnings.length} warnings)` : ''),
+        { duration: 4000 }
+      );
+    } catch (error) {
+      toast.error(`Schema import failed: ${(error as Error).message}`, { duration: 5000 });
+    }
+  };
+
+  const handleSchemaFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleImportSchema(await file.text(), file.name);
+  };
+
+  const generationName = () => {
+    const domain = domains.find(d => d.id === selectedDomain)?.label ?? 'Synthetic';
+    const dataType = dataTypes.find(t => t.id === selectedDataType)?.label.toLowerCase() ?? 'data';
+    return `${domain} ${dataType} ${new Date().toLocaleString()}`;
+  };
+
+  // Snapshot of the page settings for one run
+  const currentRequest = (): GenerationRequest => {
+    const source = inputMethod === 'upload' ? uploadedData : generatedSchema;
+    return {
+      name: generationName(),
+      dataType: selectedDataType,
+      domain: selectedDomain,
+      description: naturalLanguageDescription,
+      inputMethod,
+      settings: generationConfig,
+      schema: source?.schema || {},
+      relationalSchema: source?.relationalSchema,
+      sourceData: (inputMethod === 'upload' ? uploadedData?.data : generatedSchema?.sample_data) || [],
+      sourceTables: inputMethod === 'upload' ? uploadedData?.tables : undefined,
+      timeSeries: timeSeriesConfig,
+      textCorpus: textCorpusConfig
+    };
+  };
+
+  // Shows a resumed job's settings so the page matches what is being generated
+  const applyRequest = (request: GenerationRequest) => {
+    setSelectedDataType(request.dataType);
+    setSelectedDomain(request.domain);
+    setNaturalLanguageDescription(request.description);
+    setInputMethod('describe');
+    setGenerationConfig(request.settings);
+    setTimeSeriesConfig(request.timeSeries);
+    setTextCorpusConfig(request.textCorpus);
+    if (request.dataType === 'tabular') {
+      setGeneratedSchema({
+        schema: request.schema,
+        sample_data: request.sourceData,
+        detected_domain: request.domain,
+        source: 'project',
+        ...(request.relationalSchema && { relationalSchema: request.relationalSchema })
+      });
+      setSchemaEditorKey(key => key + 1);
+      setSchemaEditsValid(true);
+    }
+  };
+
+  /**
+   * Signed-in users get a project and job per generation so the result can be
+   * reopened later; guests and storage failures simply generate unsaved.
+   */
+  const startPersistedGeneration = async (request: GenerationRequest): Promise<GenerationRecord | null> => {
+    if (!user || isGuest) return null;
+
+    try {
+      return await projectRepository.startGeneration(user.id, {
+        name: request.name,
+        description: request.description,
+        domain: request.domain,
+        data_type: request.dataType as Project['data_type'],
+        config: jobConfig(request)
+      }, activeProject ?? undefined);
+    } catch (error) {
+      console.warn('Generation will not be saved:', error);
+      toast.error(`This generation will not be saved: ${(error as Error).message}`, { duration: 4000 });
+      return null;
+    }
+  };
+
+  const savePersistedGeneration = async (record: GenerationRecord | null, name: string, result: StoredResult) => {
+    if (!record) return;
+    try {
+      const dataset = await projectRepository.completeGeneration(record, name, result);
+      setSavedDataset(dataset);
+      // Further runs from this page become new versions of the same project
+      setActiveProject({ ...record.project, status: 'completed' });
+      toast.success(`Dataset saved to your projects as v${dataset.version}`);
+    } catch (error) {
+      console.error('Failed to save dataset:', error);
+      toast.error(`Dataset could not be saved: ${(error as Error).message}`, { duration: 5000 });
+    }
+  };
+
   const handleGenerate = async () => {
     if (!user && !isGuest) {
       toast.error('Please sign in or enter as guest to generate data');
       return;
     }
-    
+    await runGeneration(currentRequest());
+  };
+
+  // Continues a failed, cancelled or interrupted job after its last checkpointed chunk
+  const handleResume = async (jobId: string) => {
+    if (!user || isGuest || isGenerating) return;
+
+    let record: GenerationRecord;
+    try {
+      record = await projectRepository.resumeGeneration(user.id, jobId);
+    } catch (error) {
+      toast.error(`Could not resume generation: ${(error as Error).message}`);
+      return;
+    }
+
+    const request = requestFromJob(record.project, record.job.config);
+    applyRequest(request);
+    setActiveProject(record.project);
+    setResumeJob(null);
+    if (searchParams.has('resume')) setSearchParams({});
+
+    const restoredRows = checkpointRows(record.checkpoint);
+    if (restoredRows > 0) toast.success(`Resuming with ${restoredRows.toLocaleString()} rows already generated`);
+    await runGeneration(request, record);
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    if (activeJob) {
+      projectRepository.cancelJob(activeJob).catch(failure =>
+        console.warn('Could not record cancellation:', failure));
+    }
+  };
+
+  const runGeneration = async (request: GenerationRequest, resumed?: GenerationRecord) => {
     setIsGenerating(true);
     setGenerationStep(3);
-    setGenerationProgress(0);
+    setGenerationProgress(resumed?.job.progress ?? 0);
+    setChunkProgress(null);
+    setTableProgress(null);
+    setSavedDataset(null);
     setShowProcessLogger(true);
     // Logs handled by RealTimeActivityLogger
-    
+
+    const { name } = request;
+    const record = resumed ?? await startPersistedGeneration(request);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setActiveJob(record?.job ?? null);
+
+    // The job record is the source of truth for progress, and is also how a
+    // cancel from another tab or the project page reaches this run
+    const unsubscribe = record && projectRepository.subscribeToJob(record.job.id, job => {
+      setActiveJob(job);
+      setGenerationProgress(current => Math.max(current, job.progress));
+      if (job.status === 'cancelled') controller.abort();
+    });
+    const heartbeat = record && setInterval(() => projectRepository.heartbeat(record), HEARTBEAT_INTERVAL_MS);
+
+    const updateProgress = (progress: number) => {
+      setGenerationProgress(current => Math.max(current, progress));
+      if (record) projectRepository.reportProgress(record, progress);
+    };
+    const throwIfCancelled = () => {
+      if (controller.signal.aborted) throw new GenerationCancelledError();
+    };
+
     try {
-      let sourceData = [];
-      let schema = {};
-      
-      if (inputMethod === 'upload' && uploadedData) {
-        sourceData = uploadedData.data || [];
-        schema = uploadedData.schema || {};
-      } else if (inputMethod === 'describe' && generatedSchema) {
-        sourceData = generatedSchema.sample_data || [];
-        schema = generatedSchema.schema || {};
+      if (request.dataType === 'timeseries') {
+        const result = dataService.generateTimeSeriesDataset(request.timeSeries, { domain: request.domain });
+        throwIfCancelled();
+        setGeneratedData(result);
+        setGenerationStep(4);
+        setGenerationProgress(100);
+        toast.dismiss();
+        toast.success(
+          `Time series complete! ${result.data.length.toLocaleString()} points with ${result.metadata.timeSeries.anomalies} anomalies.`,
+          { duration: 5000 }
+        );
+        setIsGenerating(false);
+        savePersistedGeneration(record, name, result);
+        return;
+      }
+
+      if (request.dataType === 'text') {
+        const result = await dataService.generateTextCorpus(modelConfig, request.textCorpus, {
+          domain: request.domain,
+          onProgress: (progress) => updateProgress(progress.progress),
+          signal: controller.signal
+        });
+        throwIfCancelled();
+        setGeneratedData(result);
+        setGenerationStep(4);
+        setGenerationProgress(100);
+        toast.dismiss();
+        toast.success(`Text corpus complete! ${result.data.length.toLocaleString()} labelled documents.`, { duration: 5000 });
+        setIsGenerating(false);
+        savePersistedGeneration(record, name, result);
+        return;
       }
 
       // Validate inputs
-      if (!selectedDomain || !selectedDataType) {
+      if (!request.domain || !request.dataType) {
         throw new Error('Please select both domain and data type');
       }
 
-      if (Object.keys(schema).length === 0) {
+      if (Object.keys(request.schema).length === 0) {
         throw new Error('No valid schema available for generation');
       }
 
-      
+      let currentTable = 0;
+      let tableCount = 1;
 
-      const result = await dataService.generateSyntheticDataset({
-        domain: selectedDomain,
-        data_type: selectedDataType,
-        sourceData,
-        schema,
-        description: naturalLanguageDescription,
+      const generationOptions = {
+        domain: request.domain,
+        data_type: request.dataType,
+        sourceData: request.sourceData,
+        schema: request.schema,
+        description: request.description,
         isGuest: isGuest || !user,
-        ...generationConfig
-      });
-      
+        ...request.settings,
+        signal: controller.signal,
+        checkpoints: record ? projectRepository.checkpointStore(record) : undefined,
+        onProgress: (progress: ChunkProgress) => {
+          setChunkProgress(progress);
+          updateProgress(Math.round(((currentTable + progress.progress / 100) / tableCount) * 100));
+        }
+      };
+
+      const result = request.relationalSchema
+        ? await dataService.generateRelationalDataset(request.relationalSchema, {
+            ...generationOptions,
+            sourceData: [],
+            sourceTables: request.sourceTables,
+            onTableProgress: (progress) => {
+              currentTable = progress.tableIndex;
+              tableCount = progress.totalTables;
+              setTableProgress(progress);
+            }
+          })
+        : await dataService.generateSyntheticDataset(generationOptions);
+      throwIfCancelled();
+
       // Enhanced validation of result
       if (!result || !result.data || !Array.isArray(result.data)) {
         throw new Error('Invalid generation result received');
@@ -288,51 +844,165 @@ const DataGenerator: React.FC = () => {
       if (result.data.length === 0) {
         throw new Error('No data was generated');
       }
-      
+
       setGeneratedData(result);
       setGenerationStep(4);
       setGenerationProgress(100);
       toast.dismiss();
-      
+
       const rowsGenerated = result.metadata?.rowsGenerated || result.data.length;
-      
+
+      if (result.referenceIssues?.length) {
+        toast.error(`${result.referenceIssues.length} foreign keys have unresolved references`, { duration: 5000 });
+      }
+
       toast.success(
-        `Data generation complete! ${rowsGenerated} high-quality rows generated.`, 
+        `Data generation complete! ${rowsGenerated} high-quality rows generated.`,
         { duration: 5000 }
       );
       setIsGenerating(false);
-      
+      savePersistedGeneration(record, name, result);
+
     } catch (error) {
       toast.dismiss();
-      const err = error as Error & { message?: string };
-      const errorMessage = err.message || 'Unknown generation error';
-      
-      toast.error(`Generation failed: ${errorMessage}`, { duration: 4000 });
-      console.error('❌ Generation error:', error);
-      
       setIsGenerating(false);
       setGenerationStep(2);
       setGenerationProgress(0);
+
+      if (error instanceof GenerationCancelledError || controller.signal.aborted) {
+        toast(record ? 'Generation cancelled. Completed chunks were kept so it can be resumed.' : 'Generation cancelled');
+        return;
+      }
+
+      const err = error as Error & { message?: string };
+      const errorMessage = err.message || 'Unknown generation error';
+
+      toast.error(
+        record ? `Generation failed: ${errorMessage}. You can resume it from the last completed chunk.` : `Generation failed: ${errorMessage}`,
+        { duration: 5000 }
+      );
+      console.error('❌ Generation error:', error);
+      if (record) {
+        projectRepository.failGeneration(record, errorMessage).catch(failure =>
+          console.warn('Could not record generation failure:', failure));
+      }
+    } finally {
+      unsubscribe?.();
+      if (heartbeat) clearInterval(heartbeat);
+      abortControllerRef.current = null;
+      setActiveJob(null);
     }
   };
-  
-  const handleExportData = async (format: 'csv' | 'json' | 'excel') => {
+
+  /**
+   * Saving in the review editor keeps the edits and, for saved datasets,
+   * stores them as a new version derived from the one being edited.
+   */
+  const handleSaveEdits = async (rows: Record<string, unknown>[], history: SavedEditHistory) => {
+    const report = generatedData.schema ? validateRows(rows, generatedData.schema) : generatedData.validation;
+    // The history is stored with the version so its edits can still be undone after reopening
+    const edited = {
+      ...withPrimaryTable(generatedData, rows, report, history),
+      metadata: { ...generatedData.metadata, rowsGenerated: rows.length }
+    };
+    setGeneratedData(edited);
+    setShowDataEditor(false);
+
+    if (!savedDataset || !user || isGuest) {
+      toast.success('Changes saved');
+      return;
+    }
+    try {
+      const version = await projectRepository.saveEditedVersion(user.id, savedDataset, edited);
+      setSavedDataset(version);
+      if (schemaEditedRef.current && edited.schema) {
+        await projectRepository.updateProjectSchema(savedDataset.project_id, edited.schema, edited.order?.[0]);
+        schemaEditedRef.current = false;
+      }
+      toast.success(`Edits saved as v${version.version}`);
+    } catch (error) {
+      toast.error(`Edits could not be saved as a new version: ${(error as Error).message}`, { duration: 5000 });
+    }
+  };
+
+  // Computed columns added while reviewing are kept, so the next generation fills them in too
+  const handleEditorSchemaChange = (schema: DatasetSchema) => {
+    const table = generatedData?.order?.[0];
+    schemaEditedRef.current = true;
+    setGeneratedData((prev: SchemaSource & { data: Record<string, unknown>[] }) => ({
+      ...withPrimaryFields(prev, table, schema),
+      validation: validateRows(prev.data, schema)
+    }));
+    if (inputMethod === 'upload') {
+      setUploadedData((prev: SchemaSource | null) => prev && withPrimaryFields(prev, table, schema));
+    } else {
+      setGeneratedSchema((prev: SchemaSource | null) => prev && withPrimaryFields(prev, table, schema));
+      setSchemaEditorKey(key => key + 1);
+    }
+  };
+
+  const handleAutoRepair = () => {
+    if (!generatedData?.schema) return;
+
+    const { data, repairedCells, report } = repairRows(generatedData.data, generatedData.schema, generatedData.validation);
+    setGeneratedData((prev: TableResult) => withPrimaryTable(prev, data, report));
+
+    if (report.invalidRows.length === 0) {
+      toast.success(`Repaired ${repairedCells} cells. All rows now match the schema.`);
+    } else {
+      toast.error(`Repaired ${repairedCells} cells; ${report.invalidRows.length} rows still need attention.`);
+    }
+  };
+
+  const handleRegenerateInvalid = async () => {
+    if (!generatedData?.schema || !generatedData.validation) return;
+
+    setIsRepairing(true);
+    try {
+      const data = await dataService.regenerateRows(generatedData.data, generatedData.validation.invalidRows, {
+        domain: selectedDomain,
+        data_type: selectedDataType,
+        schema: generatedData.schema,
+        description: naturalLanguageDescription,
+        isGuest: isGuest || !user,
+        ...generationConfig
+      });
+      const report = validateRows(data, generatedData.schema);
+      setGeneratedData((prev: TableResult) => withPrimaryTable(prev, data, report));
+      toast.success(`Regenerated ${generatedData.validation.invalidRows.length} rows. ${report.invalidRows.length} still invalid.`);
+    } catch (error) {
+      toast.error(`Failed to regenerate rows: ${(error as Error).message}`);
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const handleExportBundle = async (format: BundleFormat) => {
+    if (!generatedData?.tables) return;
+
+    try {
+      const { blob, extension } = await exportRelationalBundle(generatedData.tables, generatedData.relationalSchema, format);
+      downloadBlob(blob, `synthetic-dataset-${Date.now()}.${extension}`);
+
+      toast.success(`Exported ${generatedData.order.length} tables as ${format.toUpperCase()}`);
+    } catch (error) {
+      toast.error('Failed to export dataset bundle');
+      console.error('Bundle export error:', error);
+    }
+  };
+
+  const handleExportData = async (format: 'csv' | 'json' | 'jsonl' | 'excel' | ColumnarFormat) => {
     if (!generatedData) return;
     
     try {
-      const exportedData = await dataService.exportData(generatedData.data, format);
+      const exportedData = await dataService.exportData(generatedData.data, format, generatedData.schema);
       
       const blob = new Blob([exportedData], { 
-        type: format === 'json' ? 'application/json' : 'text/csv' 
+        type: format === 'parquet' || format === 'arrow'
+          ? COLUMNAR_MIME_TYPES[format]
+          : format === 'json' ? 'application/json' : format === 'jsonl' ? 'application/x-ndjson' : 'text/csv' 
       });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `synthetic-data-${Date.now()}.${format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `synthetic-data-${Date.now()}.${format}`);
       
       toast.success(`Data exported as ${format.toUpperCase()}`);
     } catch (error) {
@@ -341,9 +1011,63 @@ const DataGenerator: React.FC = () => {
     }
   };
 
+  const handleExportSql = () => {
+    if (!generatedData) return;
+
+    try {
+      // Related tables go into one script, parents first
+      const tables = generatedData.tables && generatedData.relationalSchema
+        ? relationalSqlTables(generatedData.tables, generatedData.relationalSchema)
+        : [singleSqlTable(selectedDomain ? `${selectedDomain}_data` : 'synthetic_data', generatedData.schema || {}, generatedData.data)];
+      const sql = exportSql(tables, { dialect: sqlDialect, useCopy: sqlDialect === 'postgresql' && sqlUseCopy });
+
+      const blob = new Blob([sql], { type: 'application/sql' });
+      downloadBlob(blob, `synthetic-data-${sqlDialect}-${Date.now()}.sql`);
+
+      toast.success(`Exported ${tables.length === 1 ? 'table' : `${tables.length} tables`} as ${SQL_DIALECTS.find(item => item.id === sqlDialect)?.label} SQL`);
+    } catch (error) {
+      toast.error('Failed to export SQL');
+      console.error('SQL export error:', error);
+    }
+  };
+
+  // Single-table schemas are edited and exported as a one-table relational schema
+  const singleTableName = selectedDomain ? `${selectedDomain}_data` : 'synthetic_data';
+  const describedSchema = (): RelationalSchema =>
+    generatedSchema.relationalSchema ?? { [singleTableName]: { fields: generatedSchema.schema } };
+
+  const handleSchemaEdited = (schema: RelationalSchema | null) => {
+    setSchemaEditsValid(schema !== null);
+    if (!schema) return;
+    setGeneratedSchema((current: { schema: DatasetSchema; relationalSchema?: RelationalSchema }) => ({
+      ...current,
+      schema: Object.values(schema)[0].fields,
+      ...(current.relationalSchema && { relationalSchema: schema })
+    }));
+  };
+
+  const handleExportSchema = (format: SchemaExportFormat) => {
+    if (!generatedSchema) return;
+
+    try {
+      const option = SCHEMA_EXPORT_FORMATS.find(item => item.id === format)!;
+
+      const blob = new Blob([exportSchema(describedSchema(), format, selectedDomain || 'dataset')], { type: option.mimeType });
+      downloadBlob(blob, `${singleTableName}.${option.extension}`);
+
+      toast.success(`Schema exported as ${option.label}`);
+    } catch (error) {
+      toast.error('Failed to export schema');
+      console.error('Schema export error:', error);
+    }
+  };
+
   const isGenerationButtonEnabled = () => {
     const hasBasicRequirements = selectedDomain && selectedDataType;
-    const hasValidInput = (inputMethod === 'describe' && generatedSchema) || 
+    // Time series and text corpora are generated from their own settings rather than a schema or upload
+    const hasValidInput = selectedDataType === 'timeseries' ||
+                         (selectedDataType === 'text' && !!modelConfig) ||
+                         (inputMethod === 'describe' && generatedSchema && schemaEditsValid) || 
                          (inputMethod === 'upload' && uploadedData);
     return hasBasicRequirements && hasValidInput && !isGenerating && !isGeneratingSchema;
   };
@@ -462,6 +1186,66 @@ const DataGenerator: React.FC = () => {
         </motion.div>
       )}
 
+      {activeProject && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-purple-500/10 border border-purple-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-purple-400" />
+            <p className="text-purple-200 text-sm">
+              Regenerating <span className="font-medium text-white">{activeProject.name}</span>. New datasets are added to this project.
+            </p>
+          </div>
+          <button
+            onClick={detachProject}
+            className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+          >
+            Save as New Project
+          </button>
+        </div>
+      )}
+
+      {resumeJob && !isGenerating && (
+        <div className="flex items-center justify-between gap-4 p-4 bg-orange-500/10 border border-orange-500/20 rounded-lg">
+          <div className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-orange-400" />
+            <p className="text-orange-200 text-sm">
+              {canResume(resumeJob) ? (
+                <>
+                  The generation for <span className="font-medium text-white">{resumeJob.project.name}</span> stopped at{' '}
+                  {resumeJob.progress}% with {checkpointRows(resumeJob.checkpoint).toLocaleString()} rows kept.
+                </>
+              ) : (
+                <>
+                  This job for <span className="font-medium text-white">{resumeJob.project.name}</span> is {resumeJob.status} and cannot be resumed.
+                </>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canResume(resumeJob) && (
+              <button
+                onClick={() => handleResume(resumeJob.id)}
+                className="py-2 px-4 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-300 text-sm"
+              >
+                Resume
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setResumeJob(null);
+                setSearchParams({});
+              }}
+              className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {signedIn && !isGenerating && !resumeJob && (
+        <UnfinishedJobs onResume={job => handleResume(job.id)} />
+      )}
+
       {/* Generation Steps */}
       <div className="flex items-center gap-4 p-4 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl">
         {['Data Input', 'Configuration', 'Generation', 'Review'].map((step, index) => (
@@ -541,6 +1325,16 @@ const DataGenerator: React.FC = () => {
                   />
                 </div>
                 
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={multiTable}
+                    onChange={(e) => setMultiTable(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-700 text-purple-500 focus:ring-purple-500"
+                  />
+                  Multiple related tables (e.g. customers, orders, order items)
+                </label>
+
                 <div>
                   <p className="text-sm text-gray-400 mb-2">Need inspiration? Try these examples:</p>
                   <div className="grid grid-cols-1 gap-2">
@@ -586,6 +1380,52 @@ const DataGenerator: React.FC = () => {
                     </>
                   )}
                 </button>
+
+                <div className="pt-4 border-t border-gray-700/50 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-gray-400">
+                      Or import an existing schema: SQL DDL, JSON Schema, OpenAPI or Avro
+                    </p>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <label className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm cursor-pointer flex items-center gap-2">
+                        <FileText className="w-4 h-4" />
+                        Import File
+                        <input
+                          type="file"
+                          accept=".sql,.ddl,.json,.avsc"
+                          onChange={handleSchemaFile}
+                          className="hidden"
+                        />
+                      </label>
+                      <button
+                        onClick={() => setShowSchemaImport(!showSchemaImport)}
+                        className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                      >
+                        Paste
+                      </button>
+                    </div>
+                  </div>
+
+                  {showSchemaImport && (
+                    <div className="space-y-2">
+                      <textarea
+                        value={schemaImportText}
+                        onChange={(e) => setSchemaImportText(e.target.value)}
+                        placeholder="CREATE TABLE customers (id SERIAL PRIMARY KEY, email VARCHAR(255) NOT NULL UNIQUE, ...);"
+                        className="w-full h-40 px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500 resize-none"
+                      />
+                      <button
+                        onClick={() => handleImportSchema(schemaImportText)}
+                        disabled={!schemaImportText.trim()}
+                        className={`w-full py-2 px-4 rounded-lg text-sm font-semibold text-white transition-all duration-300 ${
+                          schemaImportText.trim() ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-600 cursor-not-allowed'
+                        }`}
+                      >
+                        Import Schema
+                      </button>
+                    </div>
+                  )}
+                </div>
               </div>
             )}
 
@@ -607,12 +1447,154 @@ const DataGenerator: React.FC = () => {
                     : 'Drag & drop files here, or click to select'}
                 </p>
                 <p className="text-gray-400 text-sm">
-                  Supports CSV, Excel, JSON files
+                  Supports CSV, Excel, OpenDocument, JSON, Parquet, Arrow files
+                </p>
+              </div>
+            )}
+
+            {inputMethod === 'upload' && uploadProgress && (
+              <div className="mt-4">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                  <span>{uploadProgress.stage === 'reading' ? 'Reading file' : 'Profiling columns'}</span>
+                  <span>{uploadProgress.rowsRead.toLocaleString()} rows • {uploadProgress.progress}%</span>
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-purple-500 to-pink-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${uploadProgress.progress}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {inputMethod === 'upload' && pendingWorkbook && (
+              <div className="mt-4 p-4 bg-gray-700/30 rounded-lg space-y-3">
+                <p className="text-sm text-gray-300">
+                  <span className="text-white font-medium">{pendingWorkbook.file.name}</span> has {pendingWorkbook.sheets.length} sheets.
+                  Select the ones to import; several sheets are imported as related tables.
+                </p>
+                {pendingWorkbook.sheets.map((sheet) => (
+                  <div key={sheet.name} className="flex items-center justify-between gap-3 text-sm">
+                    <label className="flex items-center gap-2 min-w-0 text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={pendingWorkbook.selected.includes(sheet.name)}
+                        disabled={sheet.rowCount === 0}
+                        onChange={(e) => setPendingWorkbook({
+                          ...pendingWorkbook,
+                          selected: e.target.checked
+                            ? pendingWorkbook.sheets.map(s => s.name).filter(name => name === sheet.name || pendingWorkbook.selected.includes(name))
+                            : pendingWorkbook.selected.filter(name => name !== sheet.name)
+                        })}
+                        className="rounded border-gray-600 bg-gray-700 text-purple-500 focus:ring-purple-500"
+                      />
+                      <span className="text-white truncate">{sheet.name}</span>
+                      <span className="text-xs text-gray-400 whitespace-nowrap">
+                        {sheet.rowCount.toLocaleString()} rows • {sheet.columnCount} columns
+                        {sheet.mergedRanges > 0 && ` • ${sheet.mergedRanges} merged`}
+                      </span>
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-gray-400 whitespace-nowrap">
+                      Header row
+                      <input
+                        type="number"
+                        min={1}
+                        value={pendingWorkbook.headerRows[sheet.name]}
+                        onChange={(e) => setPendingWorkbook({
+                          ...pendingWorkbook,
+                          headerRows: { ...pendingWorkbook.headerRows, [sheet.name]: Math.max(1, parseInt(e.target.value) || 1) }
+                        })}
+                        className="w-16 px-2 py-1 bg-gray-700/50 border border-gray-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                    </label>
+                  </div>
+                ))}
+                <button
+                  onClick={() => importFile(pendingWorkbook.file, {
+                    sheets: pendingWorkbook.selected,
+                    headerRows: pendingWorkbook.headerRows
+                  })}
+                  disabled={pendingWorkbook.selected.length === 0}
+                  className="w-full py-2 px-4 rounded-lg text-sm font-medium bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Import {pendingWorkbook.selected.length} {pendingWorkbook.selected.length === 1 ? 'sheet' : 'sheets'}
+                </button>
+              </div>
+            )}
+
+            {inputMethod === 'upload' && uploadedData?.relationalSchema && (
+              <div className="mt-4 space-y-1">
+                {Object.entries(uploadedData.relationalSchema as RelationalSchema).map(([table, entity]) => (
+                  <div key={table} className="p-2 bg-gray-700/30 rounded text-xs">
+                    <span className="text-white font-medium">{table}</span>
+                    <span className="text-gray-400"> • {Object.keys(entity.fields).length} fields{entity.primaryKey && ` • key ${entity.primaryKey}`}</span>
+                    {Object.entries(entity.fields)
+                      .filter(([, field]) => field.reference)
+                      .map(([name, field]) => (
+                        <p key={name} className="text-gray-400">{name} → {field.reference!.table}.{field.reference!.field}</p>
+                      ))}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {inputMethod === 'upload' && uploadedData?.stats?.columns && (
+              <div className="mt-4 space-y-1 max-h-64 overflow-y-auto">
+                {Object.entries(uploadedData.stats.columns as Record<string, ColumnStats>).map(([column, stats]) => (
+                  <div key={column} className="flex items-center justify-between gap-3 p-2 bg-gray-700/30 rounded text-xs">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-white font-medium truncate">{column}</span>
+                      <span className="px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300">{uploadedData.schema[column]?.type}</span>
+                    </div>
+                    <span className="text-gray-400 truncate">
+                      {stats.mean !== undefined
+                        ? `${stats.min} – ${stats.max} • mean ${formatMean(stats.mean, uploadedData.schema[column]?.type)}`
+                        : stats.min !== undefined
+                          ? `${stats.min} – ${stats.max}`
+                          : `${stats.distinctCount.toLocaleString()} distinct • top ${stats.topValues.slice(0, 3).map(top => String(top.value)).join(', ')}`}
+                      {stats.nullRate > 0 && ` • ${Math.round(stats.nullRate * 100)}% null`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {inputMethod === 'upload' && uploadedData?.parseReport && (
+              <div className="mt-4 space-y-2">
+                <p className="text-xs text-gray-400">
+                  {uploadedData.totalRows.toLocaleString()} rows
+                  {uploadedData.profiledRows < uploadedData.totalRows && ` (profiled from a random ${uploadedData.profiledRows.toLocaleString()}-row sample)`}
+                  {' '}• delimiter {uploadedData.parseReport.delimiter === '\t' ? 'tab' : `"${uploadedData.parseReport.delimiter}"`} • {uploadedData.parseReport.encoding}
                 </p>
+                {uploadedData.parseReport.issues.length > 0 && (
+                  <div className="p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+                    <p className="text-sm text-yellow-300 mb-1">
+                      {uploadedData.parseReport.issues.length} malformed lines skipped
+                    </p>
+                    {uploadedData.parseReport.issues.slice(0, 5).map((issue: CsvIssue) => (
+                      <p key={issue.line} className="text-xs text-gray-400">
+                        Line {issue.line}: {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
           </motion.div>
 
+          {/* Schema Editor */}
+          {inputMethod === 'describe' && generatedSchema && (
+            <motion.div
+              className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
+              initial={{ x: -50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ duration: 0.5 }}
+            >
+              <h3 className="text-xl font-semibold text-white mb-4">Edit Schema</h3>
+              <SchemaEditor key={schemaEditorKey} schema={describedSchema()} onChange={handleSchemaEdited} />
+            </motion.div>
+          )}
+
           {/* Data Type Selection */}
           <motion.div
             className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
@@ -642,6 +1624,36 @@ const DataGenerator: React.FC = () => {
             </div>
           </motion.div>
 
+          {/* Time Series Settings */}
+          {selectedDataType === 'timeseries' && (
+            <motion.div
+              className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
+              initial={{ x: -50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ duration: 0.5 }}
+            >
+              <h3 className="text-xl font-semibold text-white mb-4">Time Series Settings</h3>
+              <TimeSeriesSettings config={timeSeriesConfig} onChange={setTimeSeriesConfig} />
+            </motion.div>
+          )}
+
+          {/* Text Corpus Settings */}
+          {selectedDataType === 'text' && (
+            <motion.div
+              className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
+              initial={{ x: -50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ duration: 0.5 }}
+            >
+              <h3 className="text-xl font-semibold text-white mb-4">Text Corpus Settings</h3>
+              <TextCorpusSettings
+                config={textCorpusConfig}
+                onChange={setTextCorpusConfig}
+                modelLabel={modelConfig ? `${modelConfig.provider} ${modelConfig.model}` : null}
+              />
+            </motion.div>
+          )}
+
           {/* Domain Selection */}
           <motion.div
             className="p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl"
@@ -677,6 +1689,39 @@ const DataGenerator: React.FC = () => {
           >
             <h3 className="text-xl font-semibold text-white mb-4">Generation Parameters</h3>
             <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Generation Engine
+                </label>
+                <select 
+                  value={generationConfig.engine}
+                  onChange={(e) => setGenerationConfig(prev => ({ 
+                    ...prev, 
+                    engine: e.target.value as 'ai' | 'local'
+                  }))}
+                  className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                >
+                  <option value="ai">AI Model</option>
+                  <option value="local">Local Rule-Based (no API key)</option>
+                </select>
+              </div>
+              {generationConfig.engine === 'local' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Seed
+                  </label>
+                  <input
+                    type="text"
+                    value={generationConfig.seed}
+                    onChange={(e) => setGenerationConfig(prev => ({ 
+                      ...prev, 
+                      seed: e.target.value 
+                    }))}
+                    className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <p className="text-xs text-gray-400 mt-1">The same seed and schema always produce identical data.</p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
                   Number of Records
@@ -785,6 +1830,28 @@ const DataGenerator: React.FC = () => {
                   <div className="text-xs text-gray-400">
                     Using {geminiStatus === 'online' ? 'Gemini 2.0 Flash' : 'Local AI Agents'}
                   </div>
+                  {tableProgress && (
+                    <div className="text-xs text-gray-400">
+                      Table {tableProgress.tableIndex + 1} of {tableProgress.totalTables}: {tableProgress.table} ({tableProgress.rowCount.toLocaleString()} rows)
+                    </div>
+                  )}
+                  {chunkProgress && (
+                    <div className="text-xs text-gray-400">
+                      Chunk {chunkProgress.chunkIndex} of {chunkProgress.totalChunks} • {chunkProgress.rowsGenerated.toLocaleString()} / {chunkProgress.totalRows.toLocaleString()} rows
+                    </div>
+                  )}
+                  {activeJob && (
+                    <div className="text-xs text-gray-400">
+                      Saved as a job • {checkpointRows(activeJob.checkpoint).toLocaleString()} rows checkpointed, safe to resume if interrupted
+                    </div>
+                  )}
+                  <button
+                    onClick={handleCancel}
+                    className="w-full mt-2 py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center justify-center gap-2"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Cancel Generation
+                  </button>
                 </div>
               )}
             </div>
@@ -804,7 +1871,11 @@ const DataGenerator: React.FC = () => {
               title={
                 !selectedDomain ? 'Please select a domain first' :
                 !selectedDataType ? 'Please select a data type first' :
+                selectedDataType === 'timeseries' ? 'Generate time series from the settings' :
+                selectedDataType === 'text' && !modelConfig ? 'Please configure an AI model in Settings first' :
+                selectedDataType === 'text' ? 'Generate text corpus' :
                 inputMethod === 'describe' && !generatedSchema ? 'Please generate schema first' :
+                inputMethod === 'describe' && !schemaEditsValid ? 'Please fix the schema issues first' :
                 inputMethod === 'upload' && !uploadedData ? 'Please upload data first' :
                 geminiStatus === 'online' ? 'Generate with Gemini 2.0 Flash' : 'Generate with Local AI'
               }
@@ -817,12 +1888,12 @@ const DataGenerator: React.FC = () => {
               {isGenerating ? (
                 <>
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  {geminiStatus === 'online' ? 'Gemini Generating...' : 'AI Generating...'} {generationProgress}%
+                  {selectedDataType === 'timeseries' ? 'Generating Time Series...' : generationConfig.engine === 'local' ? 'Generating Locally...' : geminiStatus === 'online' ? 'Gemini Generating...' : 'AI Generating...'} {generationProgress}%
                 </>
               ) : (
                 <>
                   <Play className="w-5 h-5" />
-                  {geminiStatus === 'online' ? 'Generate with Gemini' : 'Generate with AI'}
+                  {selectedDataType === 'timeseries' ? 'Generate Time Series' : generationConfig.engine === 'local' ? 'Generate Locally' : geminiStatus === 'online' ? 'Generate with Gemini' : 'Generate with AI'}
                 </>
               )}
             </button>
@@ -862,6 +1933,12 @@ const DataGenerator: React.FC = () => {
                   <span className="text-gray-400">Bias Score:</span>
                   <span className="text-green-400 font-medium">{generatedData.biasScore}%</span>
                 </div>
+                {savedDataset && (
+                  <div className="flex items-center gap-2 text-xs text-gray-400 pt-1">
+                    <CheckCircle className="w-3 h-3 text-green-400" />
+                    <span className="truncate">Saved as {savedDataset.name} (v{savedDataset.version})</span>
+                  </div>
+                )}
               </div>
               <div className="space-y-2 mt-4">
                 <button 
@@ -878,13 +1955,19 @@ const DataGenerator: React.FC = () => {
                   <Download className="w-4 h-4" />
                   Download CSV
                 </button>
-                <div className="grid grid-cols-2 gap-2">
+                <div className="grid grid-cols-3 gap-2">
                   <button 
                     onClick={() => handleExportData('json')}
                     className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
                   >
                     JSON
                   </button>
+                  <button 
+                    onClick={() => handleExportData('jsonl')}
+                    className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                  >
+                    JSONL
+                  </button>
                   <button 
                     onClick={() => handleExportData('excel')}
                     className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
@@ -892,6 +1975,64 @@ const DataGenerator: React.FC = () => {
                     Excel
                   </button>
                 </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button 
+                    onClick={() => handleExportData('parquet')}
+                    className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                  >
+                    Parquet
+                  </button>
+                  <button 
+                    onClick={() => handleExportData('arrow')}
+                    className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                  >
+                    Arrow
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <select
+                    value={sqlDialect}
+                    onChange={(e) => setSqlDialect(e.target.value as SqlDialect)}
+                    className="flex-1 px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {SQL_DIALECTS.map((dialect) => (
+                      <option key={dialect.id} value={dialect.id}>{dialect.label}</option>
+                    ))}
+                  </select>
+                  <button 
+                    onClick={handleExportSql}
+                    className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm"
+                  >
+                    SQL
+                  </button>
+                </div>
+                {sqlDialect === 'postgresql' && (
+                  <label className="flex items-center gap-2 text-xs text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={sqlUseCopy}
+                      onChange={(e) => setSqlUseCopy(e.target.checked)}
+                      className="rounded border-gray-600 bg-gray-700 text-purple-500 focus:ring-purple-500"
+                    />
+                    Load rows with COPY instead of INSERT
+                  </label>
+                )}
+                {generatedData.tables && (
+                  <div className="pt-3 border-t border-gray-700/50 space-y-2">
+                    <p className="text-xs text-gray-400">All {generatedData.order.length} related tables:</p>
+                    <div className="grid grid-cols-3 gap-2">
+                      {(['zip', 'excel', 'json'] as BundleFormat[]).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportBundle(format)}
+                          className="py-2 px-3 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm uppercase"
+                        >
+                          {format}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -904,7 +2045,9 @@ const DataGenerator: React.FC = () => {
               animate={{ x: 0, opacity: 1 }}
               transition={{ duration: 0.5 }}
             >
-              <h3 className="text-lg font-semibold text-white mb-4">Generated Schema</h3>
+              <h3 className="text-lg font-semibold text-white mb-4">
+                {generatedSchema.source ? `Imported ${SCHEMA_SOURCE_LABELS[generatedSchema.source as SchemaSourceFormat]} Schema` : 'Generated Schema'}
+              </h3>
               <div className="space-y-3">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-400">Fields:</span>
@@ -924,12 +2067,74 @@ const DataGenerator: React.FC = () => {
                     {generatedSchema.sample_data?.length || 0}
                   </span>
                 </div>
+                {generatedSchema.relationalSchema && (
+                  <div className="pt-3 border-t border-gray-700/50 space-y-2">
+                    {Object.entries(generatedSchema.relationalSchema as RelationalSchema).map(([table, entity]) => (
+                      <div key={table} className="text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-white font-medium">{table}</span>
+                          <span className="text-gray-400">
+                            {generatedData?.tables?.[table]
+                              ? `${generatedData.tables[table].length.toLocaleString()} rows`
+                              : `${Object.keys(entity.fields).length} fields`}
+                          </span>
+                        </div>
+                        {Object.entries(entity.fields)
+                          .filter(([, field]) => field.reference)
+                          .map(([name, field]) => (
+                            <p key={name} className="text-xs text-gray-500">
+                              {name} → {field.reference!.table}.{field.reference!.field}
+                              {field.reference!.cardinality &&
+                                ` (${field.reference!.cardinality.min}–${field.reference!.cardinality.max} per parent)`}
+                            </p>
+                          ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="pt-3 border-t border-gray-700/50">
+                  <p className="text-sm text-gray-400 mb-2">Export schema as:</p>
+                  <div className="flex flex-wrap gap-2">
+                    {SCHEMA_EXPORT_FORMATS.map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => handleExportSchema(option.id)}
+                        className="py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-2"
+                      >
+                        <Download className="w-4 h-4" />
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {generatedSchema.warnings?.length > 0 && (
+                  <div className="pt-3 border-t border-gray-700/50">
+                    <p className="text-sm text-yellow-400 mb-1">
+                      {generatedSchema.warnings.length} definition{generatedSchema.warnings.length === 1 ? '' : 's'} could not be imported exactly:
+                    </p>
+                    <ul className="space-y-1 max-h-32 overflow-y-auto">
+                      {(generatedSchema.warnings as string[]).map((warning, index) => (
+                        <li key={index} className="text-xs text-gray-400">{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
         </div>
       </div>
 
+      {/* Schema Validation Report */}
+      {generatedData?.validation && (
+        <ValidationReport
+          report={generatedData.validation}
+          onAutoRepair={handleAutoRepair}
+          onRegenerateInvalid={handleRegenerateInvalid}
+          isWorking={isRepairing}
+        />
+      )}
+
       {/* Real-time Activity Logger */}
       {(showProcessLogger && isGenerating) && (
         <motion.div
@@ -971,10 +2176,17 @@ const DataGenerator: React.FC = () => {
             <div className="flex-1 overflow-hidden">
               <DataReviewEditor 
                 initialData={generatedData.data}
+                initialHistory={generatedData.editHistory}
+                schema={generatedData.schema}
+                onSchemaChange={handleEditorSchemaChange}
+                onSave={handleSaveEdits}
+                onCancel={() => setShowDataEditor(false)}
+                saveLabel={savedDataset ? 'Save as New Version' : 'Save Changes'}
                 onDataChange={(newData: any[]) => {
                   setGeneratedData((prev: any) => ({
                     ...prev,
-                    data: newData
+                    data: newData,
+                    validation: prev.schema ? validateRows(newData, prev.schema) : prev.validation
                   }));
                 }}
               />
@@ -0,0 +1,483 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Copy, Download, FolderOpen, GitCompare, Loader2, Play, RefreshCw, RotateCcw, Trash2, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ProjectRepository, canResume, checkpointRows, isInterrupted } from '../lib/projectRepository';
+import type { Dataset, GenerationJob, Project } from '../lib/supabase';
+import type { DatasetSchema, RelationalSchema } from '../lib/schema';
+import { diffDatasets, type DatasetDiff } from '../lib/datasetDiff';
+import { formatFileSize } from '../lib/utils';
+import StatusBadge from '../components/StatusBadge';
+import DatasetDiffView from '../components/DatasetDiffView';
+import { useStore } from '../store/useStore';
+
+const CONFIG_LABELS: Record<string, string> = {
+  input_method: 'Input',
+  engine: 'Engine',
+  rowCount: 'Rows',
+  quality_level: 'Quality',
+  privacy_level: 'Privacy',
+  seed: 'Seed'
+};
+
+const SOURCE_LABELS: Record<Dataset['source'], string> = {
+  generation: 'Generated',
+  edit: 'Edited',
+  rollback: 'Rollback'
+};
+
+const panelClass = 'p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl';
+const buttonClass = 'py-2 px-4 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 text-sm flex items-center gap-2 disabled:opacity-50';
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+function jobDuration(job: GenerationJob): string {
+  if (!job.started_at || !job.completed_at) return '—';
+  const seconds = Math.max(0, (new Date(job.completed_at).getTime() - new Date(job.started_at).getTime()) / 1000);
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+// One line per table (or a single line for flat schemas): "customers: id, name, email"
+function schemaSummary(config: Record<string, unknown>): string[] {
+  const relational = config.relational_schema as RelationalSchema | undefined;
+  if (relational) {
+    return Object.entries(relational).map(([table, entity]) => `${table}: ${Object.keys(entity.fields).join(', ')}`);
+  }
+  const schema = config.schema as DatasetSchema | undefined;
+  return schema ? [Object.keys(schema).join(', ')] : [];
+}
+
+const ProjectDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, isGuest } = useStore();
+  const navigate = useNavigate();
+  const [project, setProject] = useState<Project | null>(null);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showRawConfig, setShowRawConfig] = useState(false);
+  const [compareIds, setCompareIds] = useState<{ before: string; after: string }>({ before: '', after: '' });
+  const [comparison, setComparison] = useState<{ diff: DatasetDiff; before: Dataset; after: Dataset } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const signedIn = !!user && !isGuest;
+  const liveJobIds = jobs.filter(job => job.status === 'running' && !isInterrupted(job)).map(job => job.id).join(',');
+
+  useEffect(() => {
+    if (!id || !signedIn) return;
+    const repository = new ProjectRepository();
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    Promise.all([repository.getProject(id), repository.listProjectDatasets(id), repository.listJobs(id)])
+      .then(([loadedProject, loadedDatasets, loadedJobs]) => {
+        if (cancelled) return;
+        setProject(loadedProject);
+        setDatasets(loadedDatasets);
+        setJobs(loadedJobs);
+        setComparison(null);
+        // Default comparison: the previous version against the latest
+        setCompareIds({ before: loadedDatasets[1]?.id ?? '', after: loadedDatasets[0]?.id ?? '' });
+      })
+      .catch(failure => {
+        if (!cancelled) setError((failure as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, signedIn]);
+
+  // Running jobs update in place until they finish
+  useEffect(() => {
+    if (!liveJobIds) return;
+    const repository = new ProjectRepository();
+    const unsubscribers = liveJobIds.split(',').map(jobId =>
+      repository.subscribeToJob(jobId, update =>
+        setJobs(current => current.map(job => (job.id === update.id ? update : job))))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [liveJobIds]);
+
+  const handleCancelJob = async (job: GenerationJob) => {
+    setBusy(true);
+    try {
+      await new ProjectRepository().cancelJob(job);
+      setJobs(current => current.map(item => (item.id === job.id ? { ...item, status: 'cancelled' } : item)));
+      toast.success('Generation cancelled');
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClone = async () => {
+    if (!project || !user) return;
+    setBusy(true);
+    try {
+      const clone = await new ProjectRepository().cloneProject(user.id, project);
+      toast.success(`Created ${clone.name}`);
+      navigate(`/projects/${clone.id}`);
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!project) return;
+    const confirmed = window.confirm(
+      `Delete "${project.name}" with its ${datasets.length} dataset${datasets.length === 1 ? '' : 's'} and job history? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    setBusy(true);
+    try {
+      await new ProjectRepository().deleteProject(project.id);
+      toast.success(`Deleted ${project.name}`);
+      navigate('/projects');
+    } catch (failure) {
+      toast.error((failure as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    const before = datasets.find(dataset => dataset.id === compareIds.before);
+    const after = datasets.find(dataset => dataset.id === compareIds.after);
+    if (!before || !after) return;
+
+    setIsComparing(true);
+    try {
+      const repository = new ProjectRepository();
+      const [beforeData, afterData] = await Promise.all([repository.loadDatasetFile(before), repository.loadDatasetFile(after)]);
+      setComparison({ diff: diffDatasets(beforeData, afterData), before, after });
+    } catch (failure) {
+      toast.error(`Could not compare versions: ${(failure as Error).message}`);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const handleRollback = async (target: Dataset) => {
+    if (!window.confirm(`Make v${target.version} the latest version? Newer versions stay in the history.`)) return;
+
+    setBusy(true);
+    try {
+      const restored = await new ProjectRepository().rollbackTo(target);
+      setDatasets(current => [restored, ...current]);
+      toast.success(`Rolled back to v${target.version} as v${restored.version}`);
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDownload = async (dataset: Dataset) => {
+    try {
+      const url = await new ProjectRepository().getDownloadUrl(dataset);
+      const a = document.createElement('a');
+      a.href = url;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    } catch (failure) {
+      toast.error((failure as Error).message);
+    }
+  };
+
+  if (!signedIn) {
+    return <div className={`${panelClass} text-gray-400`}>Sign in to view your projects.</div>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        Loading project...
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="space-y-4">
+        <Link to="/projects" className="inline-flex items-center gap-2 text-gray-400 hover:text-white text-sm">
+          <ArrowLeft className="w-4 h-4" />
+          All projects
+        </Link>
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
+          Could not load project: {error ?? 'not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const config = (project.config ?? {}) as Record<string, unknown>;
+  const settings = Object.keys(CONFIG_LABELS).filter(key => config[key] !== undefined);
+  const schemaLines = schemaSummary(config);
+  const datasetVersion = new Map(datasets.map(dataset => [dataset.id, dataset.version]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        className="space-y-4"
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Link to="/projects" className="inline-flex items-center gap-2 text-gray-400 hover:text-white text-sm">
+          <ArrowLeft className="w-4 h-4" />
+          All projects
+        </Link>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <h1 className="text-3xl font-bold text-white">{project.name}</h1>
+              <StatusBadge status={project.status} />
+            </div>
+            {project.description && <p className="text-gray-400 max-w-2xl">{project.description}</p>}
+            <p className="text-gray-500 text-sm mt-1">
+              <span className="capitalize">{project.domain || 'No domain'}</span> · <span className="capitalize">{project.data_type}</span> ·
+              Created {formatDate(project.created_at)}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => navigate(`/generator?project=${project.id}`)}
+              disabled={busy || project.status === 'generating'}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all disabled:opacity-50 flex items-center gap-2"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Regenerate
+            </button>
+            <button onClick={handleClone} disabled={busy} className={buttonClass}>
+              <Copy className="w-4 h-4" />
+              Clone
+            </button>
+            <button onClick={handleDelete} disabled={busy} className={`${buttonClass} hover:text-red-300`}>
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </button>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Configuration */}
+      <motion.div className={panelClass} initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} transition={{ duration: 0.4 }}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Configuration</h3>
+          <button onClick={() => setShowRawConfig(show => !show)} className="text-sm text-purple-300 hover:text-purple-200">
+            {showRawConfig ? 'Hide JSON' : 'Show JSON'}
+          </button>
+        </div>
+        {settings.length > 0 ? (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {settings.map(key => (
+              <div key={key}>
+                <p className="text-gray-400 text-xs">{CONFIG_LABELS[key]}</p>
+                <p className="text-white text-sm capitalize">
+                  {typeof config[key] === 'number' ? (config[key] as number).toLocaleString() : String(config[key])}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-400 text-sm">No generation settings recorded.</p>
+        )}
+        {schemaLines.length > 0 && (
+          <div className="mt-4">
+            <p className="text-gray-400 text-xs mb-1">Schema</p>
+            {schemaLines.map(line => (
+              <p key={line} className="text-gray-300 text-sm font-mono break-words">{line}</p>
+            ))}
+          </div>
+        )}
+        {showRawConfig && (
+          <pre className="mt-4 p-4 bg-gray-900/60 rounded-lg text-xs text-gray-300 overflow-auto max-h-96">
+            {JSON.stringify(config, null, 2)}
+          </pre>
+        )}
+      </motion.div>
+
+      {/* Datasets */}
+      <motion.div className={panelClass} initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} transition={{ duration: 0.4, delay: 0.1 }}>
+        <h3 className="text-lg font-semibold text-white mb-4">Dataset Versions</h3>
+        {datasets.length === 0 ? (
+          <p className="text-gray-400 text-sm">No datasets have been generated for this project yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700/50">
+                  <th className="py-2 pr-4 font-medium">Version</th>
+                  <th className="py-2 pr-4 font-medium">Source</th>
+                  <th className="py-2 pr-4 font-medium text-right">Rows</th>
+                  <th className="py-2 pr-4 font-medium text-right">Columns</th>
+                  <th className="py-2 pr-4 font-medium text-right">Size</th>
+                  <th className="py-2 pr-4 font-medium text-right">Quality</th>
+                  <th className="py-2 pr-4 font-medium text-right">Privacy</th>
+                  <th className="py-2 pr-4 font-medium text-right">Bias</th>
+                  <th className="py-2 pr-4 font-medium">Created</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {datasets.map((dataset, index) => (
+                  <tr key={dataset.id} className="border-b border-gray-700/30 text-gray-300">
+                    <td className="py-2 pr-4 text-white font-medium whitespace-nowrap">
+                      v{dataset.version}
+                      {index === 0 && <span className="ml-2 text-xs text-purple-300 font-normal">latest</span>}
+                    </td>
+                    <td className="py-2 pr-4 max-w-xs">
+                      <p className="truncate">
+                        {SOURCE_LABELS[dataset.source] ?? dataset.source}
+                        {dataset.parent_dataset_id && datasetVersion.has(dataset.parent_dataset_id) && (
+                          <span className="text-gray-500"> from v{datasetVersion.get(dataset.parent_dataset_id)}</span>
+                        )}
+                      </p>
+                      {dataset.notes && <p className="text-xs text-gray-500 truncate">{dataset.notes}</p>}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{dataset.rows_count.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{dataset.columns_count}</td>
+                    <td className="py-2 pr-4 text-right">{formatFileSize(dataset.file_size)}</td>
+                    <td className="py-2 pr-4 text-right text-green-400">{dataset.quality_score}%</td>
+                    <td className="py-2 pr-4 text-right text-green-400">{dataset.privacy_score}%</td>
+                    <td className="py-2 pr-4 text-right text-green-400">{dataset.bias_score}%</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatDate(dataset.created_at)}</td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => navigate(`/generator?dataset=${dataset.id}`)}
+                          className="p-2 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300"
+                          title="Open"
+                        >
+                          <FolderOpen className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDownload(dataset)}
+                          className="p-2 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300"
+                          title="Download"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {index > 0 && (
+                          <button
+                            onClick={() => handleRollback(dataset)}
+                            disabled={busy}
+                            className="p-2 bg-gray-700/50 text-white rounded-lg hover:bg-gray-600/50 transition-all duration-300 disabled:opacity-50"
+                            title={`Roll back to v${dataset.version}`}
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {datasets.length > 1 && (
+          <div className="mt-6 pt-6 border-t border-gray-700/50 space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-gray-400">Compare</span>
+              {(['before', 'after'] as const).map((side, sideIndex) => (
+                <React.Fragment key={side}>
+                  {sideIndex === 1 && <span className="text-sm text-gray-400">with</span>}
+                  <select
+                    value={compareIds[side]}
+                    onChange={(e) => setCompareIds(ids => ({ ...ids, [side]: e.target.value }))}
+                    className="px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {datasets.map(dataset => (
+                      <option key={dataset.id} value={dataset.id}>
+                        v{dataset.version} · {SOURCE_LABELS[dataset.source] ?? dataset.source}
+                      </option>
+                    ))}
+                  </select>
+                </React.Fragment>
+              ))}
+              <button
+                onClick={handleCompare}
+                disabled={isComparing || !compareIds.before || compareIds.before === compareIds.after}
+                className={buttonClass}
+              >
+                {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                Show Diff
+              </button>
+            </div>
+            {comparison && (
+              <DatasetDiffView
+                diff={comparison.diff}
+                beforeLabel={`v${comparison.before.version}`}
+                afterLabel={`v${comparison.after.version}`}
+              />
+            )}
+          </div>
+        )}
+      </motion.div>
+
+      {/* Job History */}
+      <motion.div className={panelClass} initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} transition={{ duration: 0.4, delay: 0.2 }}>
+        <h3 className="text-lg font-semibold text-white mb-4">Job History</h3>
+        {jobs.length === 0 ? (
+          <p className="text-gray-400 text-sm">No generation jobs recorded.</p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map(job => (
+              <div key={job.id} className="p-3 bg-gray-700/30 rounded-lg">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                  <StatusBadge status={isInterrupted(job) ? 'interrupted' : job.status} />
+                  <span className="text-gray-300">{job.progress}%</span>
+                  <span className="text-gray-400">Started {formatDate(job.started_at ?? job.created_at)}</span>
+                  <span className="text-gray-400">Duration {jobDuration(job)}</span>
+                  {job.result_dataset_id && datasetVersion.has(job.result_dataset_id) && (
+                    <span className="text-gray-400">Produced v{datasetVersion.get(job.result_dataset_id)}</span>
+                  )}
+                  {canResume(job) && checkpointRows(job.checkpoint) > 0 && (
+                    <span className="text-gray-400">{checkpointRows(job.checkpoint).toLocaleString()} rows kept</span>
+                  )}
+                  <div className="flex items-center gap-2 ml-auto">
+                    {canResume(job) && (
+                      <button onClick={() => navigate(`/generator?resume=${job.id}`)} disabled={busy} className={buttonClass}>
+                        <Play className="w-4 h-4" />
+                        Resume
+                      </button>
+                    )}
+                    {(job.status === 'running' || job.status === 'pending') && (
+                      <button onClick={() => handleCancelJob(job)} disabled={busy} className={buttonClass}>
+                        <XCircle className="w-4 h-4" />
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {job.status === 'running' && (
+                  <div className="w-full bg-gray-700 rounded-full h-1.5 mt-2">
+                    <div className="bg-gradient-to-r from-purple-500 to-pink-500 h-1.5 rounded-full" style={{ width: `${job.progress}%` }} />
+                  </div>
+                )}
+                {job.error_message && <p className="text-red-300 text-sm mt-2 break-words">{job.error_message}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default ProjectDetail;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useNavigate } from 'react-router-dom';
+import { Database, FolderOpen, Loader2, Plus, User } from 'lucide-react';
+import { ProjectRepository, type ProjectSummary } from '../lib/projectRepository';
+import StatusBadge from '../components/StatusBadge';
+import { useStore } from '../store/useStore';
+
+const Projects: React.FC = () => {
+  const { user, isGuest } = useStore();
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const signedIn = !!user && !isGuest;
+
+  useEffect(() => {
+    if (!signedIn) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    new ProjectRepository()
+      .listProjects()
+      .then(result => {
+        if (!cancelled) setProjects(result);
+      })
+      .catch(failure => {
+        if (!cancelled) setError((failure as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, user?.id]);
+
+  if (!signedIn) {
+    return (
+      <div className="max-w-md mx-auto mt-20">
+        <div className="bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl p-8 text-center">
+          <User className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+          <h2 className="text-xl font-semibold text-white mb-2">Sign In Required</h2>
+          <p className="text-gray-400">Projects are saved to your account. Sign in to keep and browse your generations.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <motion.div
+        className="flex items-center justify-between"
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div>
+          <h1 className="text-3xl font-bold text-white mb-2">Projects</h1>
+          <p className="text-gray-400">Every generation, its datasets and job history</p>
+        </div>
+        <button
+          onClick={() => navigate('/generator')}
+          className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          New Generation
+        </button>
+      </motion.div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Loading projects...
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg text-red-300">
+          Could not load projects: {error}
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="p-8 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl text-center">
+          <FolderOpen className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+          <p className="text-gray-400">No projects yet. Each generation you run creates one.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {projects.map((project, index) => (
+            <motion.div
+              key={project.id}
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ duration: 0.3, delay: Math.min(index, 10) * 0.05 }}
+            >
+              <Link
+                to={`/projects/${project.id}`}
+                className="block h-full p-6 bg-gray-800/50 backdrop-blur-xl border border-gray-700/50 rounded-xl hover:border-purple-500/40 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Database className="w-5 h-5 text-purple-400 flex-shrink-0" />
+                    <h3 className="text-white font-semibold truncate">{project.name}</h3>
+                  </div>
+                  <StatusBadge status={project.status} />
+                </div>
+                {project.description && (
+                  <p className="text-gray-400 text-sm mb-3 line-clamp-2">{project.description}</p>
+                )}
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+                  <span className="capitalize">{project.domain || 'No domain'}</span>
+                  <span className="capitalize">{project.data_type}</span>
+                  <span>{project.dataset_count} dataset{project.dataset_count === 1 ? '' : 's'}</span>
+                  <span>{project.job_count} job{project.job_count === 1 ? '' : 's'}</span>
+                  <span>Updated {new Date(project.updated_at).toLocaleDateString()}</span>
+                </div>
+              </Link>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,37 @@
+/*
+  # Dataset versions
+
+  1. Changes
+    - `datasets.version` - Sequential version number within a project
+    - `datasets.parent_dataset_id` - Version this one was derived from
+    - `datasets.source` - How the version was made: a generation, a saved edit or a rollback
+    - `datasets.notes` - Short description shown in the version history
+    - Existing datasets are numbered by creation time
+
+  2. Security
+    - Dataset versions are immutable: the update policies on `datasets` and on
+      dataset files in storage are removed, so changes always add a new version
+*/
+
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS version integer;
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS parent_dataset_id uuid REFERENCES datasets(id) ON DELETE SET NULL;
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'generation'
+  CHECK (source IN ('generation', 'edit', 'rollback'));
+ALTER TABLE datasets ADD COLUMN IF NOT EXISTS notes text;
+
+-- Number existing datasets in creation order
+UPDATE datasets
+SET version = numbered.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY project_id ORDER BY created_at, id) AS version
+  FROM datasets
+) AS numbered
+WHERE datasets.id = numbered.id AND datasets.version IS NULL;
+
+ALTER TABLE datasets ALTER COLUMN version SET NOT NULL;
+ALTER TABLE datasets ALTER COLUMN version SET DEFAULT 1;
+ALTER TABLE datasets ADD CONSTRAINT datasets_project_version_key UNIQUE (project_id, version);
+
+-- Versions are never rewritten
+DROP POLICY IF EXISTS "Users can update own datasets" ON datasets;
+DROP POLICY IF EXISTS "Users can update their own datasets" ON storage.objects;
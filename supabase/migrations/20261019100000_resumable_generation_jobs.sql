@@ -0,0 +1,22 @@
+/*
+  # Resumable generation jobs
+
+  1. Changes
+    - `generation_jobs.status` also accepts 'cancelled'
+    - `generation_jobs.checkpoint` - Storage paths of completed chunks per table, so a
+      failed, cancelled or interrupted job resumes from its last completed chunk
+    - `generation_jobs.heartbeat_at` - Refreshed by the client running the job; a stale
+      heartbeat on a running job means the tab was closed or lost its connection
+
+  2. Realtime
+    - Publish `generation_jobs` so clients can subscribe to progress instead of polling
+*/
+
+ALTER TABLE generation_jobs DROP CONSTRAINT IF EXISTS generation_jobs_status_check;
+ALTER TABLE generation_jobs ADD CONSTRAINT generation_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled'));
+
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS checkpoint jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE generation_jobs ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE generation_jobs;